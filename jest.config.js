@@ -30,6 +30,6 @@ module.exports = {
       statements: 70,
     },
   },
-  testPathIgnorePatterns: ['/node_modules/', '/dist/', '\\.d\\.ts$'],
+  testPathIgnorePatterns: ['/node_modules/', '/dist/', '\\.d\\.ts$', '/__tests__/helpers/'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json'],
 };
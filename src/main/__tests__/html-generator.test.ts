@@ -0,0 +1,106 @@
+/**
+ * Tests for HTML Generator
+ */
+
+import { renderHTML } from '../html-generator';
+import { Specification } from '../../shared/models/edi-types';
+import { element, segment, loop, specification } from '../../shared/__tests__/helpers/spec-fixtures';
+
+const codes = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ code: `C${i + 1}`, description: `Code ${i + 1}`, included: true }));
+
+const createSpecification = (): Specification => ({
+  ...specification(
+    [
+      loop('HEADER', {
+        description: 'Heading',
+        segments: [
+          segment('BEG', {
+            description: 'Beginning Segment',
+            comments: 'Use <BEG> & "friends"',
+            elements: [
+              element(1, {
+                dataType: 'ID',
+                codeValues: [
+                  { code: '00', description: 'Original', included: true },
+                  { code: '01', description: 'Cancellation', included: false },
+                ],
+              }),
+              element(2, { dataType: 'ID', codeValues: codes(8) }),
+            ],
+          }),
+        ],
+        loops: [
+          loop('N1', {
+            segments: [segment('N1', { description: 'Party Identification' })],
+            variants: [
+              {
+                id: 'variant-1',
+                label: 'Ship To <store>',
+                discriminators: [{ elementId: 'N101', operator: 'one-of', values: ['ST', 'BT'] }],
+                usageOverride: 'M',
+                comments: 'Required for drop ship',
+              },
+            ],
+          }),
+        ],
+      }),
+    ],
+    { name: 'Acme <850>', partner: 'Smith & Co' }
+  ),
+  examples: [{ id: 'example-1', title: 'Basic order', content: 'ST*850*0001~\nBEG*00*SA*<PO>~' }],
+});
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+describe('html-generator', () => {
+  describe('renderHTML', () => {
+    it('should escape user text', () => {
+      const html = renderHTML(createSpecification());
+
+      expect(html).toContain('<title>Acme &lt;850&gt;</title>');
+      expect(html).toContain('Partner: Smith &amp; Co');
+      expect(html).toContain('Use &lt;BEG&gt; &amp; &quot;friends&quot;');
+      expect(html).toContain('BEG*00*SA*&lt;PO&gt;~');
+      expect(html).not.toContain('<store>');
+    });
+
+    it('should link every table of contents entry to a section', () => {
+      const doc = parse(renderHTML(createSpecification()));
+
+      const targets = Array.from(doc.querySelectorAll('nav.toc a')).map(a => a.getAttribute('href'));
+
+      expect(targets).toEqual(['#loop-loop-HEADER', '#segment-seg-BEG', '#loop-loop-N1', '#segment-seg-N1', '#examples']);
+      for (const target of targets) {
+        expect(doc.getElementById(target!.slice(1))).not.toBeNull();
+      }
+    });
+
+    it('should list only the included codes and collapse long code lists', () => {
+      const doc = parse(renderHTML(createSpecification()));
+      const [beg01, beg02] = Array.from(doc.querySelectorAll('#segment-seg-BEG tbody tr'));
+
+      expect(beg01.textContent).toContain('00 Original');
+      expect(beg01.textContent).not.toContain('Cancellation');
+      expect(beg01.querySelector('details')).toBeNull();
+      expect(beg02.querySelector('details.codes summary')?.textContent).toBe('8 code values');
+    });
+
+    it('should describe variants with their conditions', () => {
+      const doc = parse(renderHTML(createSpecification()));
+      const variant = doc.querySelector('#loop-loop-N1 .variants li');
+
+      expect(variant?.querySelector('strong')?.textContent).toBe('Ship To <store>');
+      expect(variant?.textContent).toContain('Applies when: N101 in (ST, BT)');
+      expect(variant?.textContent).toContain('Usage: Mandatory');
+      expect(variant?.textContent).toContain('Required for drop ship');
+    });
+
+    it('should leave out the examples section when there are none', () => {
+      const html = renderHTML({ ...createSpecification(), examples: [] });
+
+      expect(html).not.toContain('id="examples"');
+      expect(html).not.toContain('href="#examples"');
+    });
+  });
+});
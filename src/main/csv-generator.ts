@@ -0,0 +1,28 @@
+/**
+ * CSV Generator
+ * Writes the mapping spreadsheet: one CSV of elements and a companion CSV of code values
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Specification } from '../shared/models/edi-types';
+import { buildMappingSheets, toCSV } from '../shared/utils/mapping-export';
+
+// Byte order mark so Excel opens the files as UTF-8
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Returns the path of the code list written next to the elements file,
+ * e.g. "850-mapping.csv" -> "850-mapping-codes.csv".
+ */
+function codesFilePath(outputPath: string): string {
+  const ext = path.extname(outputPath);
+  return path.join(path.dirname(outputPath), `${path.basename(outputPath, ext)}-codes${ext || '.csv'}`);
+}
+
+export async function generateMappingCSV(specification: Specification, outputPath: string): Promise<void> {
+  const sheets = buildMappingSheets(specification);
+
+  await fs.promises.writeFile(outputPath, UTF8_BOM + toCSV(sheets.elements), 'utf-8');
+  await fs.promises.writeFile(codesFilePath(outputPath), UTF8_BOM + toCSV(sheets.codes), 'utf-8');
+}
@@ -0,0 +1,292 @@
+/**
+ * HTML Generator
+ * Generates a self-contained, browsable HTML implementation guide
+ */
+
+import * as fs from 'fs';
+import {
+  Specification,
+  Loop,
+  Segment,
+  Element,
+  Variant,
+  ExampleEDI,
+  Revision,
+  UsageType,
+} from '../shared/models/edi-types';
+import { formatSyntaxRule, describeSyntaxRule } from '../shared/utils/syntax-rules';
+import { formatDiscriminators } from '../shared/utils/variants';
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; font-size: 14px; color: #1a202c; background: #f7fafc; }
+  .layout { display: flex; min-height: 100vh; }
+  nav.toc { position: sticky; top: 0; align-self: flex-start; width: 280px; max-height: 100vh; overflow-y: auto; padding: 24px 16px; background: #fff; border-right: 1px solid #e2e8f0; }
+  nav.toc h2 { font-size: 14px; text-transform: uppercase; letter-spacing: 0.05em; color: #718096; margin: 0 0 12px; }
+  nav.toc ul { list-style: none; margin: 0; padding-left: 12px; }
+  nav.toc > ul { padding-left: 0; }
+  nav.toc li { margin: 4px 0; }
+  nav.toc a { color: #2d3748; text-decoration: none; }
+  nav.toc a:hover { color: #3182ce; }
+  main { flex: 1; padding: 32px 48px; max-width: 1100px; }
+  header.title h1 { color: #1a365d; margin: 0 0 4px; font-size: 28px; }
+  header.title .subtitle { color: #2d3748; font-size: 18px; }
+  header.title .meta { color: #718096; margin-top: 8px; }
+  h2 { color: #1a365d; border-bottom: 2px solid #e2e8f0; padding-bottom: 6px; margin-top: 40px; }
+  details.loop { background: #fff; border: 1px solid #e2e8f0; border-radius: 6px; margin: 16px 0; padding: 0 16px; }
+  details.loop > summary { cursor: pointer; padding: 12px 0; font-size: 16px; font-weight: 600; color: #1a365d; }
+  details.loop details.loop { margin-left: 8px; }
+  .usage { color: #718096; font-size: 12px; margin: 4px 0 8px; }
+  .condition { color: #3182ce; }
+  .comments { white-space: pre-wrap; }
+  section.segment { border-top: 1px solid #e2e8f0; padding: 12px 0; }
+  section.segment h3 { margin: 0; font-size: 15px; color: #2d3748; }
+  table { width: 100%; border-collapse: collapse; margin: 8px 0; font-size: 13px; }
+  th { background: #e2e8f0; text-align: left; padding: 6px 8px; font-size: 12px; }
+  td { padding: 6px 8px; border-bottom: 1px solid #edf2f7; vertical-align: top; }
+  tr.component td:first-child { padding-left: 20px; }
+  code, pre, .mono { font-family: 'SFMono-Regular', Consolas, 'Liberation Mono', Courier, monospace; }
+  pre { background: #1a202c; color: #e2e8f0; padding: 12px; border-radius: 6px; overflow-x: auto; }
+  ul.codes { margin: 4px 0; padding-left: 16px; }
+  details.codes summary { cursor: pointer; color: #3182ce; }
+  .variants { background: #ebf8ff; border-radius: 4px; padding: 8px 12px; margin: 8px 0; }
+  .variants h4, .syntax-notes h4 { margin: 0 0 4px; font-size: 13px; }
+  .syntax-notes { margin: 8px 0; }
+  .muted { color: #718096; }
+  @media print { nav.toc { display: none; } details.loop { border: none; } }
+`;
+
+// Code lists longer than this collapse behind a disclosure
+const INLINE_CODE_LIMIT = 5;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatUsage(usage: UsageType): string {
+  switch (usage) {
+    case 'M': return 'Mandatory';
+    case 'O': return 'Optional';
+    case 'C': return 'Conditional';
+    default: return usage;
+  }
+}
+
+function formatRepeat(minUse: number, maxUse: number): string {
+  if (maxUse === 1 && minUse <= 1) return String(maxUse);
+  return `${minUse}..${maxUse > 9999 ? '>1' : maxUse}`;
+}
+
+function loopAnchor(loop: Loop): string {
+  return `loop-${loop.id}`;
+}
+
+function segmentAnchor(segment: Segment): string {
+  return `segment-${segment.id}`;
+}
+
+export async function generateHTML(specification: Specification, outputPath: string): Promise<void> {
+  await fs.promises.writeFile(outputPath, renderHTML(specification), 'utf-8');
+}
+
+/**
+ * Renders the whole guide as one HTML document with embedded CSS, so it can
+ * be uploaded to a partner portal without any other assets.
+ */
+export function renderHTML(spec: Specification): string {
+  const { metadata } = spec;
+  const hasRevisions = !!metadata.revisions && metadata.revisions.length > 0;
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<meta name="generator" content="EDI Specification Builder">',
+    `<title>${escapeHtml(metadata.name)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<div class="layout">',
+    renderTableOfContents(spec),
+    '<main>',
+    renderTitle(spec),
+    hasRevisions ? renderRevisionHistory(metadata.revisions!) : '',
+    ...spec.loops.map(loop => renderLoop(loop)),
+    spec.examples.length > 0 ? renderExamples(spec.examples) : '',
+    '</main>',
+    '</div>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+function renderTitle(spec: Specification): string {
+  const { metadata } = spec;
+  const info = [
+    `Version ${escapeHtml(metadata.version)}`,
+    metadata.partner ? `Partner: ${escapeHtml(metadata.partner)}` : null,
+    `Modified ${escapeHtml(new Date(metadata.modifiedDate).toLocaleDateString())}`,
+  ].filter(Boolean);
+
+  return `<header class="title" id="top">
+<h1>${escapeHtml(metadata.name)}</h1>
+<div class="subtitle">Transaction Set ${escapeHtml(metadata.transactionSet)} - ${escapeHtml(metadata.transactionSetName)}</div>
+<div class="meta">ANSI X12 Version ${escapeHtml(metadata.ediVersion)} · ${info.join(' · ')}</div>
+${metadata.description ? `<p class="comments">${escapeHtml(metadata.description)}</p>` : ''}
+</header>`;
+}
+
+function renderRevisionHistory(revisions: Revision[]): string {
+  const rows = revisions
+    .map(
+      revision => `<tr><td>${escapeHtml(revision.version)}</td><td>${escapeHtml(revision.date)}</td>` +
+        `<td>${escapeHtml(revision.author || '')}</td><td>${escapeHtml(revision.description)}</td></tr>`
+    )
+    .join('\n');
+
+  return `<h2 id="revision-history">Revision History</h2>
+<table>
+<thead><tr><th>Version</th><th>Date</th><th>Author</th><th>Description</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+}
+
+// ============================================================================
+// Table of contents
+// ============================================================================
+
+function renderTableOfContents(spec: Specification): string {
+  const hasRevisions = !!spec.metadata.revisions && spec.metadata.revisions.length > 0;
+
+  return `<nav class="toc">
+<h2>Contents</h2>
+<ul>
+${hasRevisions ? '<li><a href="#revision-history">Revision History</a></li>' : ''}
+${spec.loops.map(loop => renderTocLoop(loop)).join('\n')}
+${spec.examples.length > 0 ? '<li><a href="#examples">EDI Examples</a></li>' : ''}
+</ul>
+</nav>`;
+}
+
+function renderTocLoop(loop: Loop): string {
+  const segments = loop.segments.map(
+    segment => `<li><a href="#${segmentAnchor(segment)}" class="mono">${escapeHtml(segment.name)}</a></li>`
+  );
+  const children = loop.loops.map(child => renderTocLoop(child));
+  const nested = segments.length + children.length > 0 ? `<ul>${[...segments, ...children].join('')}</ul>` : '';
+
+  return `<li><a href="#${loopAnchor(loop)}">${escapeHtml(loop.name)}${loop.description ? ` - ${escapeHtml(loop.description)}` : ''}</a>${nested}</li>`;
+}
+
+// ============================================================================
+// Body
+// ============================================================================
+
+function renderLoop(loop: Loop): string {
+  return `<details class="loop" id="${loopAnchor(loop)}" open>
+<summary>${escapeHtml(loop.name)} Loop${loop.description ? ` - ${escapeHtml(loop.description)}` : ''}</summary>
+<div class="usage">Usage: ${formatUsage(loop.usage)} | Repeat: ${formatRepeat(loop.minUse, loop.maxUse)}</div>
+${loop.conditionDescription ? `<p class="condition">Condition: ${escapeHtml(loop.conditionDescription)}</p>` : ''}
+${loop.comments ? `<p class="comments">${escapeHtml(loop.comments)}</p>` : ''}
+${loop.variants && loop.variants.length > 0 ? renderVariants(loop.variants) : ''}
+${loop.segments.map(segment => renderSegment(segment)).join('\n')}
+${loop.loops.map(child => renderLoop(child)).join('\n')}
+</details>`;
+}
+
+function renderVariants(variants: Variant[]): string {
+  const items = variants.map(variant => {
+    const condition = variant.discriminators.length > 0
+      ? `<div class="condition">Applies when: <span class="mono">${escapeHtml(formatDiscriminators(variant.discriminators))}</span></div>`
+      : '';
+    return `<li><strong>${escapeHtml(variant.label)}</strong>
+${condition}
+${variant.usageOverride ? `<div class="muted">Usage: ${formatUsage(variant.usageOverride)}</div>` : ''}
+${variant.comments ? `<div class="comments">${escapeHtml(variant.comments)}</div>` : ''}</li>`;
+  });
+
+  return `<div class="variants"><h4>Variants</h4><ul>${items.join('\n')}</ul></div>`;
+}
+
+function renderSegment(segment: Segment): string {
+  const rows = segment.elements.flatMap(element => {
+    const label = `${segment.name}${String(element.position).padStart(2, '0')}`;
+    return [
+      renderElementRow(element, label, false),
+      ...(element.components || []).map(component =>
+        renderElementRow(component, `${label}-${component.position}`, true)
+      ),
+    ];
+  });
+
+  return `<section class="segment" id="${segmentAnchor(segment)}">
+<h3><span class="mono">${escapeHtml(segment.name)}</span> - ${escapeHtml(segment.description)}</h3>
+<div class="usage">Usage: ${formatUsage(segment.usage)} | Repeat: ${formatRepeat(segment.minUse, segment.maxUse)}</div>
+${segment.conditionDescription ? `<p class="condition">Condition: ${escapeHtml(segment.conditionDescription)}</p>` : ''}
+${segment.comments ? `<p class="comments">${escapeHtml(segment.comments)}</p>` : ''}
+${segment.example ? `<p>Example: <code>${escapeHtml(segment.example.value)}</code></p>` : ''}
+${segment.variants && segment.variants.length > 0 ? renderVariants(segment.variants) : ''}
+${rows.length > 0 ? `<table>
+<thead><tr><th>Ref Des</th><th>Ref</th><th>Element Name</th><th>Type</th><th>Usage</th><th>Notes</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>` : ''}
+${segment.syntaxRules && segment.syntaxRules.length > 0 ? renderSyntaxNotes(segment) : ''}
+</section>`;
+}
+
+function renderSyntaxNotes(segment: Segment): string {
+  const items = (segment.syntaxRules || []).map(
+    rule => `<li><span class="mono">${formatSyntaxRule(rule)}</span> <span class="muted">${escapeHtml(describeSyntaxRule(rule, segment.name))}</span></li>`
+  );
+  return `<div class="syntax-notes"><h4>Syntax Notes</h4><ul>${items.join('')}</ul></div>`;
+}
+
+function renderElementRow(element: Element, label: string, isComponent: boolean): string {
+  const isComposite = !!element.components && element.components.length > 0;
+  const type = isComposite ? 'Composite' : `${element.dataType} ${element.minLength}-${element.maxLength}`;
+
+  const notes = [
+    element.conditionDescription ? `<div class="condition">${escapeHtml(element.conditionDescription)}</div>` : '',
+    element.comments ? `<div class="comments">${escapeHtml(element.comments)}</div>` : '',
+    element.example ? `<div>Ex: <code>${escapeHtml(element.example.value)}</code></div>` : '',
+    renderCodeList(element),
+  ].join('');
+
+  return `<tr${isComponent ? ' class="component"' : ''}><td class="mono">${escapeHtml(label)}</td>` +
+    `<td class="mono">${escapeHtml(element.referenceNumber || '-')}</td><td>${escapeHtml(element.name)}</td>` +
+    `<td>${escapeHtml(type)}</td><td>${element.usage}</td><td>${notes}</td></tr>`;
+}
+
+function renderCodeList(element: Element): string {
+  const included = (element.codeValues || []).filter(c => c.included);
+  if (included.length === 0) return '';
+
+  const list = `<ul class="codes">${included
+    .map(code => `<li><code>${escapeHtml(code.code)}</code> ${escapeHtml(code.description)}</li>`)
+    .join('')}</ul>`;
+
+  if (included.length <= INLINE_CODE_LIMIT) return list;
+  return `<details class="codes"><summary>${included.length} code values</summary>${list}</details>`;
+}
+
+function renderExamples(examples: ExampleEDI[]): string {
+  const items = examples.map(
+    example => `<h3>${escapeHtml(example.title)}</h3>
+${example.description ? `<p class="comments">${escapeHtml(example.description)}</p>` : ''}
+<pre>${escapeHtml(example.content)}</pre>`
+  );
+
+  return `<h2 id="examples">EDI Examples</h2>
+${items.join('\n')}`;
+}
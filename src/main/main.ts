@@ -1,21 +1,32 @@
 /**
  * Electron Main Process
- * Handles window management, IPC, file operations, and PDF generation
+ * Handles window management, IPC, file operations, and PDF/HTML/CSV generation
  */
 
 import { app, BrowserWindow, ipcMain, dialog, Menu } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
-import { generatePDF } from './pdf-generator';
+import { generatePDF, generatePackagePDF } from './pdf-generator';
+import { generateHTML } from './html-generator';
+import { generateMappingCSV } from './csv-generator';
+import { exportOpenAPIJson } from '../shared/utils/openedi-exporter';
 import {
   Specification,
+  SpecificationPackage,
   SaveSpecificationRequest,
+  SavePackageRequest,
   LoadSpecificationRequest,
   ExportPDFRequest,
+  ExportPackagePDFRequest,
+  ExportHTMLRequest,
+  ExportCSVRequest,
+  ExportOpenAPIRequest,
+  HistoryMenuState,
   IPCResponse,
 } from '../shared/models/edi-types';
 
 let mainWindow: BrowserWindow | null = null;
+let historyMenuState: HistoryMenuState = {};
 
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
@@ -47,7 +58,34 @@ function createWindow(): void {
   createMenu();
 }
 
-function createMenu(): void {
+function createHistoryMenuItems(history: HistoryMenuState): Electron.MenuItemConstructorOptions[] {
+  // macOS ignores registerAccelerator, so while a text field has focus the
+  // native roles take Cmd+Z instead of undoing a specification change
+  if (history.editingText) {
+    return [{ role: 'undo' }, { role: 'redo' }];
+  }
+
+  // Otherwise the renderer handles the accelerators
+  return [
+    {
+      label: history.undoLabel ? `Undo ${history.undoLabel}` : 'Undo',
+      accelerator: 'CmdOrCtrl+Z',
+      registerAccelerator: false,
+      enabled: !!history.undoLabel,
+      click: () => mainWindow?.webContents.send('menu:undo'),
+    },
+    {
+      label: history.redoLabel ? `Redo ${history.redoLabel}` : 'Redo',
+      accelerator: 'CmdOrCtrl+Shift+Z',
+      registerAccelerator: false,
+      enabled: !!history.redoLabel,
+      click: () => mainWindow?.webContents.send('menu:redo'),
+    },
+  ];
+}
+
+function createMenu(history: HistoryMenuState = {}): void {
+  historyMenuState = history;
   const template: Electron.MenuItemConstructorOptions[] = [
     {
       label: 'File',
@@ -57,6 +95,10 @@ function createMenu(): void {
           accelerator: 'CmdOrCtrl+N',
           click: () => mainWindow?.webContents.send('menu:new'),
         },
+        {
+          label: 'New Package from Specification',
+          click: () => mainWindow?.webContents.send('menu:new-package'),
+        },
         {
           label: 'Open...',
           accelerator: 'CmdOrCtrl+O',
@@ -82,6 +124,23 @@ function createMenu(): void {
           accelerator: 'CmdOrCtrl+E',
           click: () => mainWindow?.webContents.send('menu:export-pdf'),
         },
+        {
+          label: 'Export Package PDF...',
+          click: () => mainWindow?.webContents.send('menu:export-package-pdf'),
+        },
+        {
+          label: 'Export Mapping Spreadsheet (CSV)...',
+          click: () => mainWindow?.webContents.send('menu:export-csv'),
+        },
+        {
+          label: 'Export OpenEDI Spec...',
+          click: () => mainWindow?.webContents.send('menu:export-openapi'),
+        },
+        {
+          label: 'Export HTML...',
+          accelerator: 'CmdOrCtrl+Shift+E',
+          click: () => mainWindow?.webContents.send('menu:export-html'),
+        },
         { type: 'separator' },
         { role: 'quit' },
       ],
@@ -89,8 +148,7 @@ function createMenu(): void {
     {
       label: 'Edit',
       submenu: [
-        { role: 'undo' },
-        { role: 'redo' },
+        ...createHistoryMenuItems(history),
         { type: 'separator' },
         { role: 'cut' },
         { role: 'copy' },
@@ -140,7 +198,7 @@ ipcMain.handle('dialog:open-file', async (): Promise<IPCResponse<string>> => {
   try {
     const result = await dialog.showOpenDialog(mainWindow!, {
       filters: [
-        { name: 'EDI Specifications', extensions: ['edispec', 'json'] },
+        { name: 'EDI Specifications and Packages', extensions: ['edispec', 'edipkg', 'json'] },
         { name: 'All Files', extensions: ['*'] },
       ],
       properties: ['openFile'],
@@ -173,6 +231,23 @@ ipcMain.handle('dialog:save-file', async (): Promise<IPCResponse<string>> => {
   }
 });
 
+ipcMain.handle('dialog:save-package', async (): Promise<IPCResponse<string>> => {
+  try {
+    const result = await dialog.showSaveDialog(mainWindow!, {
+      filters: [{ name: 'EDI Specification Packages', extensions: ['edipkg'] }],
+      defaultPath: 'package.edipkg',
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, error: 'No file selected' };
+    }
+
+    return { success: true, data: result.filePath };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
 ipcMain.handle('dialog:export-pdf', async (): Promise<IPCResponse<string>> => {
   try {
     const result = await dialog.showSaveDialog(mainWindow!, {
@@ -190,6 +265,57 @@ ipcMain.handle('dialog:export-pdf', async (): Promise<IPCResponse<string>> => {
   }
 });
 
+ipcMain.handle('dialog:export-html', async (): Promise<IPCResponse<string>> => {
+  try {
+    const result = await dialog.showSaveDialog(mainWindow!, {
+      filters: [{ name: 'HTML Documents', extensions: ['html'] }],
+      defaultPath: 'specification.html',
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, error: 'No file selected' };
+    }
+
+    return { success: true, data: result.filePath };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('dialog:export-csv', async (): Promise<IPCResponse<string>> => {
+  try {
+    const result = await dialog.showSaveDialog(mainWindow!, {
+      filters: [{ name: 'CSV Spreadsheets', extensions: ['csv'] }],
+      defaultPath: 'specification-mapping.csv',
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, error: 'No file selected' };
+    }
+
+    return { success: true, data: result.filePath };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('dialog:export-openapi', async (): Promise<IPCResponse<string>> => {
+  try {
+    const result = await dialog.showSaveDialog(mainWindow!, {
+      filters: [{ name: 'OpenEDI Specifications', extensions: ['json'] }],
+      defaultPath: 'specification.openapi.json',
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, error: 'No file selected' };
+    }
+
+    return { success: true, data: result.filePath };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
 ipcMain.handle(
   'spec:save',
   async (_event, request: SaveSpecificationRequest): Promise<IPCResponse> => {
@@ -209,13 +335,32 @@ ipcMain.handle(
   }
 );
 
+ipcMain.handle(
+  'package:save',
+  async (_event, request: SavePackageRequest): Promise<IPCResponse> => {
+    try {
+      const { package: pkg, filePath } = request;
+      if (!filePath) {
+        return { success: false, error: 'No file path provided' };
+      }
+
+      fs.writeFileSync(filePath, JSON.stringify(pkg, null, 2), 'utf-8');
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }
+);
+
+// Loads either a single specification or a package; the renderer tells them apart
 ipcMain.handle(
   'spec:load',
-  async (_event, request: LoadSpecificationRequest): Promise<IPCResponse<Specification>> => {
+  async (_event, request: LoadSpecificationRequest): Promise<IPCResponse<Specification | SpecificationPackage>> => {
     try {
       const { filePath } = request;
       const content = fs.readFileSync(filePath, 'utf-8');
-      const specification = JSON.parse(content) as Specification;
+      const specification = JSON.parse(content) as Specification | SpecificationPackage;
 
       return { success: true, data: specification };
     } catch (error) {
@@ -227,9 +372,61 @@ ipcMain.handle(
 ipcMain.handle(
   'spec:export-pdf',
   async (_event, request: ExportPDFRequest): Promise<IPCResponse> => {
+    try {
+      const { specification, filePath, options } = request;
+      await generatePDF(specification, filePath, options);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }
+);
+
+ipcMain.handle(
+  'package:export-pdf',
+  async (_event, request: ExportPackagePDFRequest): Promise<IPCResponse> => {
+    try {
+      const { package: pkg, filePath } = request;
+      await generatePackagePDF(pkg, filePath);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }
+);
+
+ipcMain.handle(
+  'spec:export-html',
+  async (_event, request: ExportHTMLRequest): Promise<IPCResponse> => {
+    try {
+      const { specification, filePath } = request;
+      await generateHTML(specification, filePath);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }
+);
+
+ipcMain.handle(
+  'spec:export-csv',
+  async (_event, request: ExportCSVRequest): Promise<IPCResponse> => {
+    try {
+      const { specification, filePath } = request;
+      await generateMappingCSV(specification, filePath);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }
+);
+
+ipcMain.handle(
+  'spec:export-openapi',
+  async (_event, request: ExportOpenAPIRequest): Promise<IPCResponse> => {
     try {
       const { specification, filePath } = request;
-      await generatePDF(specification, filePath);
+      fs.writeFileSync(filePath, exportOpenAPIJson(specification), 'utf-8');
       return { success: true };
     } catch (error) {
       return { success: false, error: String(error) };
@@ -237,11 +434,26 @@ ipcMain.handle(
   }
 );
 
+ipcMain.on('history:changed', (_event, state: HistoryMenuState) => {
+  // The renderer reports every edit; only rebuild the menu when what it shows
+  // changes (the enabled flags follow the labels)
+  if (
+    state.undoLabel === historyMenuState.undoLabel &&
+    state.redoLabel === historyMenuState.redoLabel &&
+    !!state.editingText === !!historyMenuState.editingText
+  ) {
+    return;
+  }
+  createMenu(state);
+});
+
 ipcMain.handle('spec:import-openedi', async (): Promise<IPCResponse<string>> => {
   try {
     const result = await dialog.showOpenDialog(mainWindow!, {
       filters: [
+        { name: 'Standard Definitions', extensions: ['json', 'xsd', 'xml'] },
         { name: 'OpenEDI Specifications', extensions: ['json'] },
+        { name: 'X12 XML Schemas', extensions: ['xsd', 'xml'] },
         { name: 'All Files', extensions: ['*'] },
       ],
       properties: ['openFile'],
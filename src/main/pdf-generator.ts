@@ -13,7 +13,18 @@ import {
   Variant,
   UsageType,
   ExampleEDI,
+  PDFExportOptions,
+  Revision,
+  SpecificationPackage,
+  Envelope,
 } from '../shared/models/edi-types';
+import { describeSyntaxRule, formatSyntaxRule } from '../shared/utils/syntax-rules';
+import { diffSpecifications, ChangeKind } from '../shared/utils/spec-diff';
+import { findDeviations } from '../shared/utils/deviations';
+import { applyPackageMetadata, formatTransactionSetLabel } from '../shared/utils/spec-package';
+import { annotateInterchange, explainSegment } from '../shared/utils/x12-annotator';
+import { ENVELOPE_FIELDS, ENVELOPE_DELIMITERS, describeDelimiter, usesRepetitionSeparator } from '../shared/utils/envelope';
+import { describeCodeOverrides, applyVariant, hasElementOverrides, formatDiscriminators } from '../shared/utils/variants';
 
 const COLORS = {
   primary: '#1a365d',
@@ -25,6 +36,12 @@ const COLORS = {
   muted: '#718096',
 };
 
+const CHANGE_COLORS: Record<ChangeKind, string> = {
+  added: '#38a169',
+  removed: '#e53e3e',
+  changed: '#d69e2e',
+};
+
 const FONTS = {
   regular: 'Helvetica',
   bold: 'Helvetica-Bold',
@@ -49,78 +66,306 @@ function formatCardinality(minUse: number, maxUse: number, usage: UsageType): st
   return `${usageChar} ${minUse}..${maxUse > 9999 ? '>1' : maxUse}`;
 }
 
-export async function generatePDF(specification: Specification, outputPath: string): Promise<void> {
+export async function generatePDF(
+  specification: Specification,
+  outputPath: string,
+  options: PDFExportOptions = {}
+): Promise<void> {
+  const info = {
+    Title: specification.metadata.name,
+    Subject: `ANSI X12 ${specification.metadata.transactionSet} Implementation Guide`,
+  };
+
+  return writeDocument(outputPath, info, doc => {
+    // Title Page
+    renderTitlePage(doc, specification);
+
+    // Revision History
+    if (specification.metadata.revisions && specification.metadata.revisions.length > 0) {
+      doc.addPage();
+      renderRevisionHistory(doc, specification.metadata.revisions);
+    }
+
+    // Table of Contents
+    doc.addPage();
+    renderTableOfContents(doc, specification, options);
+
+    renderSpecificationContent(doc, specification, options);
+  });
+}
+
+/**
+ * Generates one guide for a package: a common cover page and table of
+ * contents, then a section per transaction set with its own title page,
+ * loops and examples.
+ */
+export async function generatePackagePDF(pkg: SpecificationPackage, outputPath: string): Promise<void> {
+  const info = {
+    Title: pkg.name,
+    Subject: `ANSI X12 Implementation Guide (${pkg.specifications.map(spec => spec.metadata.transactionSet).join(', ')})`,
+  };
+
+  return writeDocument(outputPath, info, doc => {
+    renderPackageCoverPage(doc, pkg);
+
+    doc.addPage();
+    renderPackageTableOfContents(doc, pkg);
+
+    pkg.specifications.forEach((member, index) => {
+      const specification = applyPackageMetadata(pkg, member);
+
+      doc.addPage();
+      renderTransactionSectionPage(doc, specification, index + 1);
+
+      if (specification.metadata.revisions && specification.metadata.revisions.length > 0) {
+        doc.addPage();
+        renderRevisionHistory(doc, specification.metadata.revisions);
+      }
+
+      renderSpecificationContent(doc, specification, {}, index + 1);
+    });
+  });
+}
+
+function writeDocument(
+  outputPath: string,
+  info: { Title: string; Subject: string },
+  render: (doc: PDFKit.PDFDocument) => void
+): Promise<void> {
   return new Promise((resolve, reject) => {
     try {
       const doc = new PDFDocument({
         size: 'LETTER',
         margins: { top: 72, bottom: 72, left: 72, right: 72 },
         bufferPages: true,
-        info: {
-          Title: specification.metadata.name,
-          Author: 'EDI Specification Builder',
-          Subject: `ANSI X12 ${specification.metadata.transactionSet} Implementation Guide`,
-        },
+        info: { ...info, Author: 'EDI Specification Builder' },
       });
 
       const stream = fs.createWriteStream(outputPath);
       doc.pipe(stream);
 
-      // Title Page
-      renderTitlePage(doc, specification);
+      render(doc);
+      renderPageNumbers(doc);
 
-      // Table of Contents
-      doc.addPage();
-      renderTableOfContents(doc, specification);
+      doc.end();
 
-      // Main Content
-      let loopNumber = 1;
-      for (const loop of specification.loops) {
-        doc.addPage();
-        renderLoop(doc, loop, loopNumber, 0);
-        loopNumber++;
-      }
+      stream.on('finish', () => resolve());
+      stream.on('error', reject);
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
 
-      // Examples Appendix
-      if (specification.examples.length > 0) {
-        doc.addPage();
-        renderExamplesAppendix(doc, specification.examples);
-      }
+// Loops, examples and the optional appendices of one transaction set
+/**
+ * Section numbers shared by the table of contents and the headings. Top-level
+ * loops are numbered under the package part, if any; inside a loop the
+ * segments come first, then the nested loops (2.3 is the first nested loop of
+ * a loop 2 with two segments).
+ */
+function numberLoops(loops: Loop[], part?: number): string[] {
+  return loops.map((_, i) => (part ? `${part}.${i + 1}` : `${i + 1}`));
+}
 
-      // Add page numbers to all pages
-      const range = doc.bufferedPageRange();
-      for (let i = range.start; i < range.start + range.count; i++) {
-        doc.switchToPage(i);
+function numberChildren(loop: Loop, number: string): { segments: string[]; loops: string[] } {
+  return {
+    segments: loop.segments.map((_, i) => `${number}.${i + 1}`),
+    loops: loop.loops.map((_, i) => `${number}.${loop.segments.length + i + 1}`),
+  };
+}
 
-        // Save current position
-        const oldY = doc.y;
+function renderSpecificationContent(
+  doc: PDFKit.PDFDocument,
+  specification: Specification,
+  options: PDFExportOptions,
+  part?: number
+): void {
+  // ISA/GS requirements come before the transaction set they wrap
+  if (specification.envelope) {
+    doc.addPage();
+    renderEnvelopeSection(doc, specification.envelope);
+  }
 
-        // Add page number at bottom
-        doc
-          .font(FONTS.regular)
-          .fontSize(9)
-          .fillColor(COLORS.muted);
+  // Main Content
+  const numbers = numberLoops(specification.loops, part);
+  specification.loops.forEach((loop, i) => {
+    doc.addPage();
+    renderLoop(doc, loop, numbers[i], 0);
+  });
 
-        // Use explicit x,y positioning and lineBreak: false to prevent new page creation
-        const pageText = `Page ${i + 1} of ${range.count}`;
-        const textWidth = doc.widthOfString(pageText);
-        const centerX = (doc.page.width - textWidth) / 2;
-        doc.text(pageText, centerX, doc.page.height - 50, { lineBreak: false });
+  // Examples Appendix
+  if (specification.examples.length > 0) {
+    doc.addPage();
+    renderExamplesAppendix(doc, specification, !!options.annotateExamples);
+  }
 
-        // Restore position to prevent side effects
-        doc.y = oldY;
-      }
+  // Summary of Changes against a previous version
+  if (options.previousVersion) {
+    doc.addPage();
+    renderChangeSummary(doc, options.previousVersion, specification);
+  }
 
-      doc.end();
+  // Differences from the base X12 standard
+  if (options.includeDeviations) {
+    doc.addPage();
+    renderDeviationsAppendix(doc, specification);
+  }
+}
 
-      stream.on('finish', () => resolve());
-      stream.on('error', reject);
-    } catch (error) {
-      reject(error);
+function renderPageNumbers(doc: PDFKit.PDFDocument): void {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+
+    // Save current position
+    const oldY = doc.y;
+
+    // Add page number at bottom
+    doc
+      .font(FONTS.regular)
+      .fontSize(9)
+      .fillColor(COLORS.muted);
+
+    // Use explicit x,y positioning and lineBreak: false to prevent new page creation
+    const pageText = `Page ${i + 1} of ${range.count}`;
+    const textWidth = doc.widthOfString(pageText);
+    const centerX = (doc.page.width - textWidth) / 2;
+    doc.text(pageText, centerX, doc.page.height - 50, { lineBreak: false });
+
+    // Restore position to prevent side effects
+    doc.y = oldY;
+  }
+}
+
+function renderPackageCoverPage(doc: PDFKit.PDFDocument, pkg: SpecificationPackage): void {
+  doc.y = 180;
+
+  doc
+    .font(FONTS.bold)
+    .fontSize(28)
+    .fillColor(COLORS.primary)
+    .text(pkg.name, { align: 'center' });
+
+  if (pkg.partner) {
+    doc.moveDown(0.5);
+    doc
+      .font(FONTS.regular)
+      .fontSize(18)
+      .fillColor(COLORS.secondary)
+      .text(pkg.partner, { align: 'center' });
+  }
+
+  doc.moveDown(1);
+
+  doc.font(FONTS.regular).fontSize(12).fillColor(COLORS.muted);
+  for (const spec of pkg.specifications) {
+    doc.text(`${formatTransactionSetLabel(spec)} (X12 ${spec.metadata.ediVersion})`, { align: 'center' });
+  }
+
+  if (pkg.description) {
+    doc.moveDown(2);
+    doc
+      .font(FONTS.regular)
+      .fontSize(12)
+      .fillColor(COLORS.text)
+      .text(pkg.description, { align: 'center' });
+  }
+
+  const contacts = pkg.contacts || [];
+  if (contacts.length > 0) {
+    doc.moveDown(2);
+    doc.font(FONTS.bold).fontSize(11).fillColor(COLORS.primary).text('Contacts', { align: 'center' });
+    doc.moveDown(0.3);
+    for (const contact of contacts) {
+      const details = [contact.role, contact.email, contact.phone].filter(Boolean).join(' | ');
+      doc.font(FONTS.regular).fontSize(10).fillColor(COLORS.text);
+      doc.text(details ? `${contact.name} - ${details}` : contact.name, { align: 'center' });
+    }
+  }
+
+  doc.y = doc.page.height - 160;
+  doc.font(FONTS.regular).fontSize(10).fillColor(COLORS.muted);
+  doc.text(`Created: ${new Date(pkg.createdDate).toLocaleDateString()}`, { align: 'center' });
+  doc.text(`Modified: ${new Date(pkg.modifiedDate).toLocaleDateString()}`, { align: 'center' });
+}
+
+function renderPackageTableOfContents(doc: PDFKit.PDFDocument, pkg: SpecificationPackage): void {
+  doc
+    .font(FONTS.bold)
+    .fontSize(20)
+    .fillColor(COLORS.primary)
+    .text('Table of Contents');
+
+  doc.moveDown(1);
+
+  pkg.specifications.forEach((member, index) => {
+    const spec = applyPackageMetadata(pkg, member);
+    const part = index + 1;
+
+    doc.font(FONTS.bold).fontSize(12).fillColor(COLORS.primary);
+    doc.text(`Part ${part}: ${formatTransactionSetLabel(spec)}`, 72);
+
+    doc.font(FONTS.regular).fontSize(11).fillColor(COLORS.text);
+    if (spec.envelope) {
+      doc.text('Interchange Envelope (ISA/GS)', 92);
+    }
+    const numbers = numberLoops(spec.loops, part);
+    spec.loops.forEach((loop, i) => {
+      doc.text(`${numbers[i]} ${loop.name} - ${loop.description || 'Loop'}`, 92);
+      renderTocLoop(doc, loop, numbers[i], 2);
+    });
+
+    if (spec.examples.length > 0) {
+      doc.text(`EDI Examples`, 92);
     }
+
+    doc.moveDown(0.5);
   });
 }
 
+function renderTransactionSectionPage(doc: PDFKit.PDFDocument, spec: Specification, part: number): void {
+  const { metadata } = spec;
+
+  doc.y = 240;
+
+  doc
+    .font(FONTS.regular)
+    .fontSize(14)
+    .fillColor(COLORS.muted)
+    .text(`Part ${part}`, { align: 'center' });
+
+  doc.moveDown(0.5);
+
+  doc
+    .font(FONTS.bold)
+    .fontSize(24)
+    .fillColor(COLORS.primary)
+    .text(`Transaction Set ${metadata.transactionSet}`, { align: 'center' });
+
+  doc
+    .font(FONTS.regular)
+    .fontSize(16)
+    .fillColor(COLORS.secondary)
+    .text(metadata.transactionSetName, { align: 'center' });
+
+  doc.moveDown(0.5);
+
+  doc
+    .fontSize(12)
+    .fillColor(COLORS.muted)
+    .text(`ANSI X12 Version ${metadata.ediVersion} | Guide Version ${metadata.version}`, { align: 'center' });
+
+  if (metadata.description) {
+    doc.moveDown(2);
+    doc
+      .font(FONTS.regular)
+      .fontSize(12)
+      .fillColor(COLORS.text)
+      .text(metadata.description, { align: 'center' });
+  }
+}
+
 function renderTitlePage(doc: PDFKit.PDFDocument, spec: Specification): void {
   const { metadata } = spec;
   const centerX = doc.page.width / 2;
@@ -174,49 +419,221 @@ function renderTitlePage(doc: PDFKit.PDFDocument, spec: Specification): void {
   });
 }
 
-function renderTableOfContents(doc: PDFKit.PDFDocument, spec: Specification): void {
+function renderRevisionHistory(doc: PDFKit.PDFDocument, revisions: Revision[]): void {
   doc
     .font(FONTS.bold)
     .fontSize(20)
     .fillColor(COLORS.primary)
-    .text('Table of Contents');
+    .text('Revision History');
 
   doc.moveDown(1);
 
-  let itemNumber = 1;
+  const tableLeft = 72;
+  const tableWidth = doc.page.width - 144;
+  const colWidths = { version: 60, date: 80, author: 110, desc: tableWidth - 250 };
+
+  const renderHeader = () => {
+    const headerY = doc.y;
+    doc.rect(tableLeft, headerY, tableWidth, 18).fill(COLORS.lightGray);
+    doc.font(FONTS.bold).fontSize(9).fillColor(COLORS.text);
+
+    let x = tableLeft + 4;
+    doc.text('Version', x, headerY + 5, { width: colWidths.version });
+    x += colWidths.version;
+    doc.text('Date', x, headerY + 5, { width: colWidths.date });
+    x += colWidths.date;
+    doc.text('Author', x, headerY + 5, { width: colWidths.author });
+    x += colWidths.author;
+    doc.text('Description of Change', x, headerY + 5, { width: colWidths.desc });
+
+    doc.y = headerY + 20;
+  };
+
+  renderHeader();
+
+  for (const revision of revisions) {
+    doc.font(FONTS.regular).fontSize(9);
+    const rowHeight = Math.max(
+      doc.heightOfString(revision.description || '-', { width: colWidths.desc - 8 }),
+      doc.heightOfString(revision.author || '-', { width: colWidths.author - 8 })
+    ) + 8;
+
+    if (doc.y + rowHeight > doc.page.height - 72) {
+      doc.addPage();
+      renderHeader();
+    }
+
+    const rowY = doc.y;
+    doc.font(FONTS.regular).fontSize(9).fillColor(COLORS.text);
+
+    let x = tableLeft + 4;
+    doc.text(revision.version, x, rowY + 4, { width: colWidths.version - 8 });
+    x += colWidths.version;
+    doc.text(formatRevisionDate(revision.date), x, rowY + 4, { width: colWidths.date - 8 });
+    x += colWidths.date;
+    doc.text(revision.author || '-', x, rowY + 4, { width: colWidths.author - 8 });
+    x += colWidths.author;
+    doc.text(revision.description || '-', x, rowY + 4, { width: colWidths.desc - 8 });
+
+    doc.moveTo(tableLeft, rowY + rowHeight).lineTo(tableLeft + tableWidth, rowY + rowHeight).stroke(COLORS.lightGray);
+    doc.y = rowY + rowHeight;
+  }
+}
+
+function formatRevisionDate(date: string): string {
+  // Dates are stored as YYYY-MM-DD; parse as local time so the day does not shift
+  const [year, month, day] = date.split('-').map(Number);
+  if (!year || !month || !day) return date;
+  return new Date(year, month - 1, day).toLocaleDateString();
+}
+
+function renderTableOfContents(doc: PDFKit.PDFDocument, spec: Specification, options: PDFExportOptions): void {
+  doc
+    .font(FONTS.bold)
+    .fontSize(20)
+    .fillColor(COLORS.primary)
+    .text('Table of Contents');
+
+  doc.moveDown(1);
 
   doc.font(FONTS.regular).fontSize(11).fillColor(COLORS.text);
 
-  for (const loop of spec.loops) {
-    doc.text(`${itemNumber}. ${loop.name} - ${loop.description || 'Loop'}`);
-    renderTocLoop(doc, loop, `${itemNumber}`, 1);
-    itemNumber++;
+  if (spec.envelope) {
+    doc.text('Interchange Envelope (ISA/GS)');
+    doc.moveDown(0.5);
   }
 
+  const numbers = numberLoops(spec.loops);
+  spec.loops.forEach((loop, i) => {
+    doc.text(`${numbers[i]} ${loop.name} - ${loop.description || 'Loop'}`);
+    renderTocLoop(doc, loop, numbers[i], 1);
+  });
+
   if (spec.examples.length > 0) {
     doc.moveDown(0.5);
     doc.text(`Appendix A: EDI Examples`);
   }
+
+  if (options.previousVersion) {
+    doc.moveDown(0.5);
+    doc.text('Summary of Changes');
+  }
+
+  if (options.includeDeviations) {
+    doc.moveDown(0.5);
+    doc.text('Differences from the X12 Standard');
+  }
 }
 
-function renderTocLoop(doc: PDFKit.PDFDocument, loop: Loop, prefix: string, depth: number): void {
+function renderTocLoop(doc: PDFKit.PDFDocument, loop: Loop, number: string, depth: number): void {
   const indent = 20 * depth;
+  const numbers = numberChildren(loop, number);
 
-  for (let i = 0; i < loop.segments.length; i++) {
-    const seg = loop.segments[i];
-    doc.text(`${prefix}.${i + 1} ${seg.name} - ${seg.description}`, 72 + indent);
-  }
+  loop.segments.forEach((seg, i) => {
+    doc.text(`${numbers.segments[i]} ${seg.name} - ${seg.description}`, 72 + indent);
+  });
+
+  loop.loops.forEach((childLoop, i) => {
+    doc.text(`${numbers.loops[i]} ${childLoop.name} - ${childLoop.description || 'Loop'}`, 72 + indent);
+    renderTocLoop(doc, childLoop, numbers.loops[i], depth + 1);
+  });
+}
+
+function renderEnvelopeSection(doc: PDFKit.PDFDocument, envelope: Envelope): void {
+  doc
+    .font(FONTS.bold)
+    .fontSize(20)
+    .fillColor(COLORS.primary)
+    .text('Interchange Envelope (ISA/GS)');
+
+  doc.moveDown(0.5);
+
+  doc
+    .font(FONTS.regular)
+    .fontSize(10)
+    .fillColor(COLORS.muted)
+    .text(
+      'Every transaction set must be sent in an interchange (ISA/IEA) and functional group (GS/GE) ' +
+      'built with the values below.'
+    );
+
+  const renderTable = (title: string, rows: Array<[string, string, string]>) => {
+    const tableLeft = 72;
+    const tableWidth = doc.page.width - 144;
+    const colWidths = { ref: 50, name: tableWidth - 200, value: 150 };
+
+    if (doc.y > doc.page.height - 150) {
+      doc.addPage();
+    }
+
+    doc.moveDown(1);
+    doc.font(FONTS.bold).fontSize(12).fillColor(COLORS.secondary).text(title, tableLeft);
+    doc.moveDown(0.3);
+
+    const headerY = doc.y;
+    doc.rect(tableLeft, headerY, tableWidth, 18).fill(COLORS.lightGray);
+    doc.font(FONTS.bold).fontSize(8).fillColor(COLORS.text);
+    doc.text('Ref', tableLeft + 4, headerY + 5, { width: colWidths.ref });
+    doc.text('Name', tableLeft + 4 + colWidths.ref, headerY + 5, { width: colWidths.name });
+    doc.text('Value', tableLeft + 4 + colWidths.ref + colWidths.name, headerY + 5, { width: colWidths.value });
+    doc.y = headerY + 20;
+
+    for (const [ref, name, value] of rows) {
+      const rowHeight = 16;
+      if (doc.y + rowHeight > doc.page.height - 72) {
+        doc.addPage();
+      }
+
+      const rowY = doc.y;
+      doc.font(FONTS.bold).fontSize(8).fillColor(COLORS.text).text(ref, tableLeft + 4, rowY + 4, { width: colWidths.ref - 8 });
+      doc.font(FONTS.regular).fontSize(8).text(name, tableLeft + 4 + colWidths.ref, rowY + 4, { width: colWidths.name - 8 });
+      doc.font(FONTS.mono).fontSize(8).text(value || '-', tableLeft + 4 + colWidths.ref + colWidths.name, rowY + 4, {
+        width: colWidths.value - 8,
+      });
+
+      doc.moveTo(tableLeft, rowY + rowHeight).lineTo(tableLeft + tableWidth, rowY + rowHeight).stroke(COLORS.lightGray);
+      doc.y = rowY + rowHeight;
+    }
+  };
 
-  for (let i = 0; i < loop.loops.length; i++) {
-    const childLoop = loop.loops[i];
-    const childPrefix = `${prefix}.${loop.segments.length + i + 1}`;
-    doc.text(`${childPrefix} ${childLoop.name} - ${childLoop.description || 'Loop'}`, 72 + indent);
-    renderTocLoop(doc, childLoop, childPrefix, depth + 1);
+  const fieldRows = (segment: 'ISA' | 'GS') =>
+    ENVELOPE_FIELDS.filter(field => field.segment === segment).map(field => {
+      const value = envelope[field.key];
+      const option = field.options?.find(o => o.value === value);
+      return [field.refDes, field.name, option ? option.label : value] as [string, string, string];
+    });
+
+  renderTable('ISA - Interchange Control Header', fieldRows('ISA'));
+  renderTable('GS - Functional Group Header', fieldRows('GS'));
+  renderTable(
+    'Delimiters',
+    ENVELOPE_DELIMITERS
+      .filter(delimiter => delimiter.key !== 'repetitionSeparator' || usesRepetitionSeparator(envelope))
+      .map(delimiter => ['', delimiter.name, describeDelimiter(envelope[delimiter.key])] as [string, string, string])
+  );
+
+  doc.moveDown(1);
+  doc
+    .font(FONTS.regular)
+    .fontSize(10)
+    .fillColor(COLORS.text)
+    .text(
+      'GE01 must equal the number of transaction sets in the group and GE02 must repeat GS06. ' +
+      'IEA01 must equal the number of functional groups in the interchange and IEA02 must repeat ISA13.',
+      72
+    );
+
+  if (envelope.notes) {
+    doc.moveDown(1);
+    doc.font(FONTS.bold).fontSize(11).fillColor(COLORS.secondary).text('Notes', 72);
+    doc.moveDown(0.3);
+    doc.font(FONTS.regular).fontSize(10).fillColor(COLORS.text).text(envelope.notes, 72);
   }
 }
 
-function renderLoop(doc: PDFKit.PDFDocument, loop: Loop, number: number, depth: number): void {
+function renderLoop(doc: PDFKit.PDFDocument, loop: Loop, number: string, depth: number): void {
   const indent = 20 * depth;
+  const numbers = numberChildren(loop, number);
 
   // Check for page break
   if (doc.y > doc.page.height - 150) {
@@ -228,7 +645,7 @@ function renderLoop(doc: PDFKit.PDFDocument, loop: Loop, number: number, depth:
     .font(FONTS.bold)
     .fontSize(16 - depth)
     .fillColor(COLORS.primary)
-    .text(`${loop.name} Loop`, 72 + indent);
+    .text(`${number} ${loop.name} Loop`, 72 + indent);
 
   if (loop.description) {
     doc
@@ -268,23 +685,23 @@ function renderLoop(doc: PDFKit.PDFDocument, loop: Loop, number: number, depth:
   // Variants
   if (loop.variants && loop.variants.length > 0) {
     doc.moveDown(0.5);
-    renderVariants(doc, loop.variants, indent);
+    renderVariants(doc, loop.variants, indent, loop.segments);
   }
 
   doc.moveDown(0.5);
 
   // Segments
-  for (const segment of loop.segments) {
-    renderSegment(doc, segment, depth);
-  }
+  loop.segments.forEach((segment, i) => {
+    renderSegment(doc, segment, numbers.segments[i], depth);
+  });
 
   // Nested Loops
-  for (let i = 0; i < loop.loops.length; i++) {
-    renderLoop(doc, loop.loops[i], i + 1, depth + 1);
-  }
+  loop.loops.forEach((child, i) => {
+    renderLoop(doc, child, numbers.loops[i], depth + 1);
+  });
 }
 
-function renderVariants(doc: PDFKit.PDFDocument, variants: Variant[], indent: number): void {
+function renderVariants(doc: PDFKit.PDFDocument, variants: Variant[], indent: number, segments: Segment[]): void {
   doc
     .font(FONTS.bold)
     .fontSize(11)
@@ -299,17 +716,13 @@ function renderVariants(doc: PDFKit.PDFDocument, variants: Variant[], indent: nu
       .fillColor(COLORS.text)
       .text(`• ${variant.label}`, 72 + indent + 10);
 
-    // Discriminator conditions
-    for (const disc of variant.discriminators) {
-      const values = disc.values.join(', ');
-      const condition = disc.operator === 'equals'
-        ? `${disc.elementId} = ${values}`
-        : `${disc.elementId} in (${values})`;
+    // Discriminator conditions, rules ANDed within OR groups
+    if (variant.discriminators.length > 0) {
       doc
         .font(FONTS.regular)
         .fontSize(9)
         .fillColor(COLORS.accent)
-        .text(`Applies when: ${condition}`, 72 + indent + 20);
+        .text(`Applies when: ${formatDiscriminators(variant.discriminators)}`, 72 + indent + 20);
     }
 
     if (variant.usageOverride) {
@@ -320,6 +733,32 @@ function renderVariants(doc: PDFKit.PDFDocument, variants: Variant[], indent: nu
         .text(`Usage: ${formatUsage(variant.usageOverride)}`, 72 + indent + 20);
     }
 
+    // Variant-specific code lists, included codes only
+    for (const override of describeCodeOverrides(variant, segments)) {
+      const included = override.codes.filter(cv => cv.included);
+      const codes = included.length > 0
+        ? included.map(cv => `${cv.code} - ${cv.description}`).join(', ')
+        : 'none';
+      doc
+        .font(FONTS.regular)
+        .fontSize(9)
+        .fillColor(COLORS.text)
+        .text(`${override.ref} codes: ${codes}`, 72 + indent + 20);
+    }
+
+    // Variant-specific element tables, for segments with element overrides
+    for (const segment of segments.filter(seg => hasElementOverrides(variant, seg))) {
+      doc.moveDown(0.3);
+      doc
+        .font(FONTS.bold)
+        .fontSize(9)
+        .fillColor(COLORS.secondary)
+        .text(`${segment.name} elements for this variant:`, 72 + indent + 20);
+      doc.moveDown(0.2);
+      renderElementsTable(doc, applyVariant(segment, variant).elements, indent + 20);
+      doc.x = 72;
+    }
+
     if (variant.comments) {
       doc
         .font(FONTS.regular)
@@ -330,7 +769,7 @@ function renderVariants(doc: PDFKit.PDFDocument, variants: Variant[], indent: nu
   }
 }
 
-function renderSegment(doc: PDFKit.PDFDocument, segment: Segment, depth: number): void {
+function renderSegment(doc: PDFKit.PDFDocument, segment: Segment, number: string, depth: number): void {
   const indent = 20 * depth;
 
   // Check for page break
@@ -343,7 +782,7 @@ function renderSegment(doc: PDFKit.PDFDocument, segment: Segment, depth: number)
     .font(FONTS.bold)
     .fontSize(12)
     .fillColor(COLORS.secondary)
-    .text(`${segment.name} - ${segment.description}`, 72 + indent);
+    .text(`${number} ${segment.name} - ${segment.description}`, 72 + indent);
 
   doc
     .font(FONTS.regular)
@@ -380,7 +819,7 @@ function renderSegment(doc: PDFKit.PDFDocument, segment: Segment, depth: number)
   // Variants
   if (segment.variants && segment.variants.length > 0) {
     doc.moveDown(0.3);
-    renderVariants(doc, segment.variants, indent);
+    renderVariants(doc, segment.variants, indent, [segment]);
   }
 
   doc.moveDown(0.5);
@@ -388,18 +827,44 @@ function renderSegment(doc: PDFKit.PDFDocument, segment: Segment, depth: number)
   // Elements Table
   renderElementsTable(doc, segment.elements, indent);
 
+  // Syntax Notes
+  if (segment.syntaxRules && segment.syntaxRules.length > 0) {
+    doc.moveDown(0.5);
+    renderSyntaxNotes(doc, segment, indent);
+  }
+
   doc.moveDown(1);
 }
 
+function renderSyntaxNotes(doc: PDFKit.PDFDocument, segment: Segment, indent: number): void {
+  doc
+    .font(FONTS.bold)
+    .fontSize(10)
+    .fillColor(COLORS.primary)
+    .text('Syntax Notes:', 72 + indent);
+
+  for (const rule of segment.syntaxRules || []) {
+    doc
+      .font(FONTS.mono)
+      .fontSize(9)
+      .fillColor(COLORS.text)
+      .text(`${formatSyntaxRule(rule)}  `, 72 + indent + 10, undefined, { continued: true })
+      .font(FONTS.regular)
+      .fillColor(COLORS.muted)
+      .text(describeSyntaxRule(rule, segment.name), { width: doc.page.width - 154 - indent });
+  }
+}
+
 function renderElementsTable(doc: PDFKit.PDFDocument, elements: Element[], indent: number): void {
   const tableLeft = 72 + indent;
   const tableWidth = doc.page.width - 144 - indent;
   const colWidths = {
     pos: 30,
-    name: tableWidth * 0.35,
+    ref: 32,
+    name: tableWidth * 0.3,
     type: 50,
     usage: 40,
-    desc: tableWidth - 30 - tableWidth * 0.35 - 50 - 40,
+    desc: tableWidth - 30 - 32 - tableWidth * 0.3 - 50 - 40,
   };
 
   // Table Header
@@ -416,6 +881,8 @@ function renderElementsTable(doc: PDFKit.PDFDocument, elements: Element[], inden
   let x = tableLeft + 4;
   doc.text('Pos', x, headerY + 5, { width: colWidths.pos });
   x += colWidths.pos;
+  doc.text('Ref', x, headerY + 5, { width: colWidths.ref });
+  x += colWidths.ref;
   doc.text('Element Name', x, headerY + 5, { width: colWidths.name });
   x += colWidths.name;
   doc.text('Type', x, headerY + 5, { width: colWidths.type });
@@ -428,71 +895,91 @@ function renderElementsTable(doc: PDFKit.PDFDocument, elements: Element[], inden
 
   // Table Rows
   for (const element of elements) {
-    // Check for page break
-    if (doc.y > doc.page.height - 100) {
-      doc.addPage();
+    renderElementRow(doc, element, String(element.position).padStart(2, '0'), tableLeft, tableWidth, colWidths);
+
+    // Composite components are listed beneath their composite, e.g. 01-1, 01-2
+    for (const component of element.components || []) {
+      const label = `${String(element.position).padStart(2, '0')}-${component.position}`;
+      renderElementRow(doc, component, label, tableLeft, tableWidth, colWidths);
     }
+  }
 
-    const rowY = doc.y;
-    const rowHeight = calculateElementRowHeight(doc, element, colWidths);
+  // Table border
+  doc.rect(tableLeft, headerY, tableWidth, doc.y - headerY).stroke(COLORS.lightGray);
+}
 
-    // Alternating row background
-    if (element.position % 2 === 0) {
-      doc.rect(tableLeft, rowY, tableWidth, rowHeight).fill('#f7fafc');
-    }
+function renderElementRow(
+  doc: PDFKit.PDFDocument,
+  element: Element,
+  label: string,
+  rowLeft: number,
+  rowWidth: number,
+  colWidths: { pos: number; ref: number; name: number; type: number; usage: number; desc: number }
+): void {
+  // Check for page break
+  if (doc.y > doc.page.height - 100) {
+    doc.addPage();
+  }
 
-    doc.font(FONTS.regular).fontSize(8).fillColor(COLORS.text);
-
-    x = tableLeft + 4;
-    doc.text(String(element.position).padStart(2, '0'), x, rowY + 4, { width: colWidths.pos });
-    x += colWidths.pos;
-    doc.text(element.name, x, rowY + 4, { width: colWidths.name - 8 });
-    x += colWidths.name;
-    doc.text(`${element.dataType} ${element.minLength}-${element.maxLength}`, x, rowY + 4, { width: colWidths.type });
-    x += colWidths.type;
-    doc.text(element.usage, x, rowY + 4, { width: colWidths.usage });
-    x += colWidths.usage;
-
-    // Notes column (comments, condition, codes)
-    let noteY = rowY + 4;
-    if (element.conditionDescription) {
-      doc.font(FONTS.regular).fontSize(7).fillColor(COLORS.accent);
-      doc.text(element.conditionDescription, x, noteY, { width: colWidths.desc - 8 });
-      noteY += doc.heightOfString(element.conditionDescription, { width: colWidths.desc - 8 }) + 2;
-    }
+  const rowY = doc.y;
+  const rowHeight = calculateElementRowHeight(doc, element, colWidths);
+  const isComposite = !!element.components && element.components.length > 0;
 
-    if (element.comments) {
-      doc.font(FONTS.regular).fontSize(7).fillColor(COLORS.muted);
-      doc.text(element.comments, x, noteY, { width: colWidths.desc - 8 });
-      noteY += doc.heightOfString(element.comments, { width: colWidths.desc - 8 }) + 2;
-    }
+  // Alternating row background
+  if (element.position % 2 === 0) {
+    doc.rect(rowLeft, rowY, rowWidth, rowHeight).fill('#f7fafc');
+  }
 
-    if (element.example) {
-      doc.font(FONTS.mono).fontSize(7).fillColor(COLORS.accent);
-      doc.text(`Ex: ${element.example.value}`, x, noteY, { width: colWidths.desc - 8 });
-      noteY += 10;
-    }
+  doc.font(FONTS.regular).fontSize(8).fillColor(COLORS.text);
 
-    // Code values
-    if (element.codeValues && element.codeValues.filter(c => c.included).length > 0) {
-      const includedCodes = element.codeValues.filter(c => c.included);
-      if (includedCodes.length <= 5) {
-        for (const code of includedCodes) {
-          doc.font(FONTS.mono).fontSize(7).fillColor(COLORS.text);
-          doc.text(`${code.code}: ${code.description}`, x, noteY, { width: colWidths.desc - 8 });
-          noteY += 9;
-        }
-      } else {
-        doc.font(FONTS.regular).fontSize(7).fillColor(COLORS.muted);
-        doc.text(`(${includedCodes.length} code values - see code list)`, x, noteY, { width: colWidths.desc - 8 });
+  let x = rowLeft + 4;
+  doc.text(label, x, rowY + 4, { width: colWidths.pos });
+  x += colWidths.pos;
+  doc.text(element.referenceNumber || '-', x, rowY + 4, { width: colWidths.ref - 4 });
+  x += colWidths.ref;
+  doc.text(element.name, x, rowY + 4, { width: colWidths.name - 8 });
+  x += colWidths.name;
+  doc.text(isComposite ? 'Composite' : `${element.dataType} ${element.minLength}-${element.maxLength}`, x, rowY + 4, { width: colWidths.type });
+  x += colWidths.type;
+  doc.text(element.usage, x, rowY + 4, { width: colWidths.usage });
+  x += colWidths.usage;
+
+  // Notes column (comments, condition, codes)
+  let noteY = rowY + 4;
+  if (element.conditionDescription) {
+    doc.font(FONTS.regular).fontSize(7).fillColor(COLORS.accent);
+    doc.text(element.conditionDescription, x, noteY, { width: colWidths.desc - 8 });
+    noteY += doc.heightOfString(element.conditionDescription, { width: colWidths.desc - 8 }) + 2;
+  }
+
+  if (element.comments) {
+    doc.font(FONTS.regular).fontSize(7).fillColor(COLORS.muted);
+    doc.text(element.comments, x, noteY, { width: colWidths.desc - 8 });
+    noteY += doc.heightOfString(element.comments, { width: colWidths.desc - 8 }) + 2;
+  }
+
+  if (element.example) {
+    doc.font(FONTS.mono).fontSize(7).fillColor(COLORS.accent);
+    doc.text(`Ex: ${element.example.value}`, x, noteY, { width: colWidths.desc - 8 });
+    noteY += 10;
+  }
+
+  // Code values
+  if (element.codeValues && element.codeValues.filter(c => c.included).length > 0) {
+    const includedCodes = element.codeValues.filter(c => c.included);
+    if (includedCodes.length <= 5) {
+      for (const code of includedCodes) {
+        doc.font(FONTS.mono).fontSize(7).fillColor(COLORS.text);
+        doc.text(`${code.code}: ${code.description}`, x, noteY, { width: colWidths.desc - 8 });
+        noteY += 9;
       }
+    } else {
+      doc.font(FONTS.regular).fontSize(7).fillColor(COLORS.muted);
+      doc.text(`(${includedCodes.length} code values - see code list)`, x, noteY, { width: colWidths.desc - 8 });
     }
-
-    doc.y = rowY + rowHeight;
   }
 
-  // Table border
-  doc.rect(tableLeft, headerY, tableWidth, doc.y - headerY).stroke(COLORS.lightGray);
+  doc.y = rowY + rowHeight;
 }
 
 function calculateElementRowHeight(doc: PDFKit.PDFDocument, element: Element, colWidths: { desc: number }): number {
@@ -519,7 +1006,8 @@ function calculateElementRowHeight(doc: PDFKit.PDFDocument, element: Element, co
   return Math.max(height, 20);
 }
 
-function renderExamplesAppendix(doc: PDFKit.PDFDocument, examples: ExampleEDI[]): void {
+function renderExamplesAppendix(doc: PDFKit.PDFDocument, spec: Specification, annotate: boolean): void {
+  const { examples } = spec;
   doc
     .font(FONTS.bold)
     .fontSize(20)
@@ -559,30 +1047,214 @@ function renderExamplesAppendix(doc: PDFKit.PDFDocument, examples: ExampleEDI[])
 
     doc.moveDown(0.5);
 
-    // EDI Content in monospace
-    const ediLines = example.content.split('\n');
-    doc.font(FONTS.mono).fontSize(8).fillColor(COLORS.text);
+    if (annotate) {
+      renderAnnotatedExample(doc, spec, example);
+    } else {
+      renderPlainExample(doc, example);
+    }
+    doc.x = 72;
 
-    // Background for code block
-    const codeBlockY = doc.y;
-    const lineHeight = 10;
-    let totalHeight = ediLines.length * lineHeight + 16;
+    doc.moveDown(1.5);
+  }
+}
 
-    // Render EDI content with pagination
-    for (const line of ediLines) {
-      if (doc.y > doc.page.height - 50) {
-        doc.addPage();
-        doc
-          .font(FONTS.bold)
-          .fontSize(10)
-          .fillColor(COLORS.muted)
-          .text(`${example.title} (continued)`);
-        doc.moveDown(0.5);
-        doc.font(FONTS.mono).fontSize(8).fillColor(COLORS.text);
-      }
-      doc.text(line, 80, undefined, { width: doc.page.width - 160 });
+function renderExampleContinuation(doc: PDFKit.PDFDocument, example: ExampleEDI): void {
+  doc.addPage();
+  doc
+    .font(FONTS.bold)
+    .fontSize(10)
+    .fillColor(COLORS.muted)
+    .text(`${example.title} (continued)`);
+  doc.moveDown(0.5);
+}
+
+function renderPlainExample(doc: PDFKit.PDFDocument, example: ExampleEDI): void {
+  // EDI Content in monospace
+  const ediLines = example.content.split('\n');
+  doc.font(FONTS.mono).fontSize(8).fillColor(COLORS.text);
+
+  // Render EDI content with pagination
+  for (const line of ediLines) {
+    if (doc.y > doc.page.height - 50) {
+      renderExampleContinuation(doc, example);
+      doc.font(FONTS.mono).fontSize(8).fillColor(COLORS.text);
     }
+    doc.text(line, 80, undefined, { width: doc.page.width - 160 });
+  }
+}
 
-    doc.moveDown(1.5);
+// Each segment on its own line, followed by its name and key element values
+function renderAnnotatedExample(doc: PDFKit.PDFDocument, spec: Specification, example: ExampleEDI): void {
+  const { delimiters, segments } = annotateInterchange(example.content, spec);
+  const width = doc.page.width - 160;
+
+  for (const segment of segments) {
+    const line = `${segment.segment.raw}${delimiters.segment}`;
+    const explanation = explainSegment(segment);
+    const height =
+      doc.font(FONTS.mono).fontSize(8).heightOfString(line, { width }) +
+      doc.font(FONTS.regular).fontSize(7.5).heightOfString(explanation, { width: width - 12 }) + 4;
+
+    if (doc.y + height > doc.page.height - 50) {
+      renderExampleContinuation(doc, example);
+    }
+
+    doc.font(FONTS.mono).fontSize(8).fillColor(COLORS.text).text(line, 80, undefined, { width });
+    doc
+      .font(FONTS.regular)
+      .fontSize(7.5)
+      .fillColor(segment.spec || segment.control ? COLORS.muted : CHANGE_COLORS.removed)
+      .text(explanation, 92, undefined, { width: width - 12 });
+    doc.y += 4;
+  }
+}
+
+function renderChangeSummary(doc: PDFKit.PDFDocument, previous: Specification, current: Specification): void {
+  const { changes, summary } = diffSpecifications(previous, current);
+
+  doc
+    .font(FONTS.bold)
+    .fontSize(20)
+    .fillColor(COLORS.primary)
+    .text('Summary of Changes');
+
+  doc.moveDown(0.5);
+
+  doc
+    .font(FONTS.regular)
+    .fontSize(10)
+    .fillColor(COLORS.muted)
+    .text(
+      `Changes from version ${previous.metadata.version} to version ${current.metadata.version}: ` +
+      `${summary.added} added, ${summary.removed} removed, ${summary.changed} changed.`
+    );
+
+  doc.moveDown(1);
+
+  if (changes.length === 0) {
+    doc.font(FONTS.regular).fontSize(10).fillColor(COLORS.text).text('No structural changes.');
+    return;
+  }
+
+  const tableLeft = 72;
+  const tableWidth = doc.page.width - 144;
+  const colWidths = { kind: 60, location: tableWidth * 0.35, change: tableWidth - 60 - tableWidth * 0.35 };
+
+  const renderHeader = () => {
+    const headerY = doc.y;
+    doc.rect(tableLeft, headerY, tableWidth, 18).fill(COLORS.lightGray);
+    doc.font(FONTS.bold).fontSize(8).fillColor(COLORS.text);
+    doc.text('Change', tableLeft + 4, headerY + 5, { width: colWidths.kind });
+    doc.text('Location', tableLeft + 4 + colWidths.kind, headerY + 5, { width: colWidths.location });
+    doc.text('Description', tableLeft + 4 + colWidths.kind + colWidths.location, headerY + 5, { width: colWidths.change });
+    doc.y = headerY + 20;
+  };
+
+  renderHeader();
+
+  for (const change of changes) {
+    const location = change.path.join(' > ');
+    const rowHeight = Math.max(
+      doc.font(FONTS.mono).fontSize(8).heightOfString(location, { width: colWidths.location - 8 }),
+      doc.font(FONTS.regular).fontSize(8).heightOfString(change.description, { width: colWidths.change - 8 })
+    ) + 8;
+
+    if (doc.y + rowHeight > doc.page.height - 72) {
+      doc.addPage();
+      renderHeader();
+    }
+
+    const rowY = doc.y;
+    doc
+      .font(FONTS.bold)
+      .fontSize(8)
+      .fillColor(CHANGE_COLORS[change.kind])
+      .text(change.kind.toUpperCase(), tableLeft + 4, rowY + 4, { width: colWidths.kind });
+    doc
+      .font(FONTS.mono)
+      .fontSize(8)
+      .fillColor(COLORS.text)
+      .text(location, tableLeft + 4 + colWidths.kind, rowY + 4, { width: colWidths.location - 8 });
+    doc
+      .font(FONTS.regular)
+      .fontSize(8)
+      .fillColor(COLORS.text)
+      .text(change.description, tableLeft + 4 + colWidths.kind + colWidths.location, rowY + 4, { width: colWidths.change - 8 });
+
+    doc.moveTo(tableLeft, rowY + rowHeight).lineTo(tableLeft + tableWidth, rowY + rowHeight).stroke(COLORS.lightGray);
+    doc.y = rowY + rowHeight;
+  }
+}
+
+function renderDeviationsAppendix(doc: PDFKit.PDFDocument, spec: Specification): void {
+  const deviations = findDeviations(spec);
+
+  doc
+    .font(FONTS.bold)
+    .fontSize(20)
+    .fillColor(COLORS.primary)
+    .text('Differences from the X12 Standard');
+
+  doc.moveDown(0.5);
+
+  doc
+    .font(FONTS.regular)
+    .fontSize(10)
+    .fillColor(COLORS.muted)
+    .text(
+      `This guide departs from ${spec.metadata.baseSpecReference || 'the base standard'} in the following places: ` +
+      'usage, repeat counts and code lists.'
+    );
+
+  doc.moveDown(1);
+
+  if (deviations.length === 0) {
+    doc.font(FONTS.regular).fontSize(10).fillColor(COLORS.text).text('No differences from the standard.');
+    return;
+  }
+
+  const tableLeft = 72;
+  const tableWidth = doc.page.width - 144;
+  const colWidths = { location: tableWidth * 0.3, standard: 60, guide: 60, description: tableWidth * 0.7 - 120 };
+
+  const renderHeader = () => {
+    const headerY = doc.y;
+    doc.rect(tableLeft, headerY, tableWidth, 18).fill(COLORS.lightGray);
+    doc.font(FONTS.bold).fontSize(8).fillColor(COLORS.text);
+    doc.text('Location', tableLeft + 4, headerY + 5, { width: colWidths.location });
+    doc.text('Standard', tableLeft + 4 + colWidths.location, headerY + 5, { width: colWidths.standard });
+    doc.text('This Guide', tableLeft + 4 + colWidths.location + colWidths.standard, headerY + 5, { width: colWidths.guide });
+    doc.text('Difference', tableLeft + 4 + colWidths.location + colWidths.standard + colWidths.guide, headerY + 5, {
+      width: colWidths.description,
+    });
+    doc.y = headerY + 20;
+  };
+
+  renderHeader();
+
+  for (const deviation of deviations) {
+    const location = deviation.path.join(' > ');
+    const rowHeight = Math.max(
+      doc.font(FONTS.mono).fontSize(8).heightOfString(location, { width: colWidths.location - 8 }),
+      doc.font(FONTS.regular).fontSize(8).heightOfString(deviation.description, { width: colWidths.description - 8 })
+    ) + 8;
+
+    if (doc.y + rowHeight > doc.page.height - 72) {
+      doc.addPage();
+      renderHeader();
+    }
+
+    const rowY = doc.y;
+    let x = tableLeft + 4;
+    doc.font(FONTS.mono).fontSize(8).fillColor(COLORS.text).text(location, x, rowY + 4, { width: colWidths.location - 8 });
+    x += colWidths.location;
+    doc.font(FONTS.regular).fontSize(8).text(deviation.standard, x, rowY + 4, { width: colWidths.standard - 8 });
+    x += colWidths.standard;
+    doc.font(FONTS.bold).fontSize(8).text(deviation.guide, x, rowY + 4, { width: colWidths.guide - 8 });
+    x += colWidths.guide;
+    doc.font(FONTS.regular).fontSize(8).text(deviation.description, x, rowY + 4, { width: colWidths.description - 8 });
+
+    doc.moveTo(tableLeft, rowY + rowHeight).lineTo(tableLeft + tableWidth, rowY + rowHeight).stroke(COLORS.lightGray);
+    doc.y = rowY + rowHeight;
   }
 }
@@ -4,24 +4,41 @@
  */
 
 import { contextBridge, ipcRenderer } from 'electron';
+import { HistoryMenuState } from '../shared/models/edi-types';
 
 contextBridge.exposeInMainWorld('electronAPI', {
   // Dialog operations
   openFile: () => ipcRenderer.invoke('dialog:open-file'),
   saveFile: () => ipcRenderer.invoke('dialog:save-file'),
+  savePackageFile: () => ipcRenderer.invoke('dialog:save-package'),
   exportPDF: () => ipcRenderer.invoke('dialog:export-pdf'),
+  exportHTML: () => ipcRenderer.invoke('dialog:export-html'),
+  exportCSV: () => ipcRenderer.invoke('dialog:export-csv'),
+  exportOpenAPI: () => ipcRenderer.invoke('dialog:export-openapi'),
 
   // Specification operations
   saveSpec: (request: any) => ipcRenderer.invoke('spec:save', request),
   loadSpec: (request: any) => ipcRenderer.invoke('spec:load', request),
+  savePackage: (request: any) => ipcRenderer.invoke('package:save', request),
+  exportPackagePDF: (request: any) => ipcRenderer.invoke('package:export-pdf', request),
   exportSpecPDF: (request: any) => ipcRenderer.invoke('spec:export-pdf', request),
+  exportSpecHTML: (request: any) => ipcRenderer.invoke('spec:export-html', request),
+  exportSpecCSV: (request: any) => ipcRenderer.invoke('spec:export-csv', request),
+  exportSpecOpenAPI: (request: any) => ipcRenderer.invoke('spec:export-openapi', request),
   importOpenEDI: () => ipcRenderer.invoke('spec:import-openedi'),
 
+  // Edit history (labels shown in the Edit menu)
+  setHistoryState: (state: HistoryMenuState) => ipcRenderer.send('history:changed', state),
+
   // Menu event listeners
   onMenuNew: (callback: () => void) => {
     ipcRenderer.on('menu:new', callback);
     return () => ipcRenderer.removeListener('menu:new', callback);
   },
+  onMenuNewPackage: (callback: () => void) => {
+    ipcRenderer.on('menu:new-package', callback);
+    return () => ipcRenderer.removeListener('menu:new-package', callback);
+  },
   onMenuOpen: (callback: () => void) => {
     ipcRenderer.on('menu:open', callback);
     return () => ipcRenderer.removeListener('menu:open', callback);
@@ -42,4 +59,28 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('menu:export-pdf', callback);
     return () => ipcRenderer.removeListener('menu:export-pdf', callback);
   },
+  onMenuExportPackagePDF: (callback: () => void) => {
+    ipcRenderer.on('menu:export-package-pdf', callback);
+    return () => ipcRenderer.removeListener('menu:export-package-pdf', callback);
+  },
+  onMenuExportHTML: (callback: () => void) => {
+    ipcRenderer.on('menu:export-html', callback);
+    return () => ipcRenderer.removeListener('menu:export-html', callback);
+  },
+  onMenuExportCSV: (callback: () => void) => {
+    ipcRenderer.on('menu:export-csv', callback);
+    return () => ipcRenderer.removeListener('menu:export-csv', callback);
+  },
+  onMenuExportOpenAPI: (callback: () => void) => {
+    ipcRenderer.on('menu:export-openapi', callback);
+    return () => ipcRenderer.removeListener('menu:export-openapi', callback);
+  },
+  onMenuUndo: (callback: () => void) => {
+    ipcRenderer.on('menu:undo', callback);
+    return () => ipcRenderer.removeListener('menu:undo', callback);
+  },
+  onMenuRedo: (callback: () => void) => {
+    ipcRenderer.on('menu:redo', callback);
+    return () => ipcRenderer.removeListener('menu:redo', callback);
+  },
 });
@@ -2,33 +2,74 @@
  * Main Application Component
  */
 
-import React, { useState, useCallback, useEffect } from 'react';
-import { Specification, Loop, Segment, Element } from '../shared/models/edi-types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  Specification,
+  SpecificationPackage,
+  Loop,
+  Segment,
+  Element,
+  HistoryMenuState,
+  PDFExportOptions,
+} from '../shared/models/edi-types';
 import { parseAndImportSpec, createEmptySpecification } from '../shared/utils/openedi-importer';
+import {
+  isSpecificationPackage,
+  createPackage,
+  addSpecification,
+  replaceSpecification,
+  removeSpecification,
+  applyPackageMetadata,
+} from '../shared/utils/spec-package';
+import { findVariantConflicts } from '../shared/utils/variants';
+import { History, createHistory, recordChange, undo, redo, undoLabel, redoLabel } from '../shared/utils/history';
 import { TreeNavigation, TreeSelection } from './components/TreeNavigation';
 import { SpecificationEditor } from './components/SpecificationEditor';
 import { LoopEditor } from './components/LoopEditor';
 import { SegmentEditor } from './components/SegmentEditor';
 import { ElementEditor } from './components/ElementEditor';
 import { ExamplesEditor } from './components/ExamplesEditor';
+import { EnvelopeEditor } from './components/EnvelopeEditor';
+import { CompareView } from './components/CompareView';
+import { DeviationsView } from './components/DeviationsView';
 import { NewSpecModal } from './components/NewSpecModal';
+import { ExportSettingsModal } from './components/ExportSettingsModal';
 import { WelcomeScreen } from './components/WelcomeScreen';
+import { PackageSidebar } from './components/PackageSidebar';
+import { PackageEditor } from './components/PackageEditor';
 
 // Electron API exposed via preload script
 interface ElectronAPI {
   openFile: () => Promise<{ success: boolean; data?: string; error?: string }>;
   saveFile: () => Promise<{ success: boolean; data?: string; error?: string }>;
+  savePackageFile: () => Promise<{ success: boolean; data?: string; error?: string }>;
   exportPDF: () => Promise<{ success: boolean; data?: string; error?: string }>;
+  exportHTML: () => Promise<{ success: boolean; data?: string; error?: string }>;
+  exportCSV: () => Promise<{ success: boolean; data?: string; error?: string }>;
+  exportOpenAPI: () => Promise<{ success: boolean; data?: string; error?: string }>;
   saveSpec: (request: any) => Promise<{ success: boolean; error?: string }>;
-  loadSpec: (request: any) => Promise<{ success: boolean; data?: Specification; error?: string }>;
+  loadSpec: (request: any) => Promise<{ success: boolean; data?: Specification | SpecificationPackage; error?: string }>;
+  savePackage: (request: any) => Promise<{ success: boolean; error?: string }>;
+  exportPackagePDF: (request: any) => Promise<{ success: boolean; error?: string }>;
   exportSpecPDF: (request: any) => Promise<{ success: boolean; error?: string }>;
+  exportSpecHTML: (request: any) => Promise<{ success: boolean; error?: string }>;
+  exportSpecCSV: (request: any) => Promise<{ success: boolean; error?: string }>;
+  exportSpecOpenAPI: (request: any) => Promise<{ success: boolean; error?: string }>;
   importOpenEDI: () => Promise<{ success: boolean; data?: string; error?: string }>;
   onMenuNew: (callback: () => void) => () => void;
+  onMenuNewPackage: (callback: () => void) => () => void;
   onMenuOpen: (callback: () => void) => () => void;
   onMenuSave: (callback: () => void) => () => void;
   onMenuSaveAs: (callback: () => void) => () => void;
   onMenuImport: (callback: () => void) => () => void;
   onMenuExportPDF: (callback: () => void) => () => void;
+  onMenuExportPackagePDF: (callback: () => void) => () => void;
+  onMenuExportHTML: (callback: () => void) => () => void;
+  onMenuExportCSV: (callback: () => void) => () => void;
+  onMenuExportOpenAPI: (callback: () => void) => () => void;
+  onMenuUndo: (callback: () => void) => () => void;
+  onMenuRedo: (callback: () => void) => () => void;
+  setHistoryState: (state: HistoryMenuState) => void;
 }
 
 declare global {
@@ -39,36 +80,195 @@ declare global {
 
 const electronAPI = window.electronAPI;
 
-type EditorTab = 'structure' | 'examples' | 'metadata';
+// Ids of the tree nodes containing a node, outermost first; null when the node is not found
+function findAncestorIds(loops: Loop[], nodeId: string, path: string[] = []): string[] | null {
+  for (const loop of loops) {
+    if (loop.id === nodeId) return path;
+    for (const segment of loop.segments) {
+      if (segment.id === nodeId) return [...path, loop.id];
+      for (const element of segment.elements) {
+        if (element.id === nodeId) return [...path, loop.id, segment.id];
+        if ((element.components || []).some(c => c.id === nodeId)) return [...path, loop.id, segment.id, element.id];
+      }
+    }
+    const nested = findAncestorIds(loop.loops, nodeId, [...path, loop.id]);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+// Text fields keep their native undo instead of the specification history
+function isTextEntry(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable;
+}
+
+type EditorTab = 'structure' | 'examples' | 'envelope' | 'metadata' | 'compare' | 'deviations' | 'package';
 
 export default function App() {
   const [specification, setSpecification] = useState<Specification | null>(null);
+  // When a package is open, `specification` is the transaction set being edited
+  const [specPackage, setSpecPackage] = useState<SpecificationPackage | null>(null);
   const [filePath, setFilePath] = useState<string | null>(null);
   const [isDirty, setIsDirty] = useState(false);
   const [selection, setSelection] = useState<TreeSelection | null>(null);
   const [activeTab, setActiveTab] = useState<EditorTab>('structure');
   const [showNewModal, setShowNewModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [comparison, setComparison] = useState<{ specification: Specification; fileName: string } | null>(null);
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
 
-  const updateSpecification = useCallback((updater: (spec: Specification) => Specification) => {
-    setSpecification(prev => {
+  // The ref always holds the latest specification so history can be recorded outside render
+  const specificationRef = useRef<Specification | null>(null);
+  const historyRef = useRef<History<Specification>>(createHistory());
+  const [historyState, setHistoryState] = useState<HistoryMenuState>({});
+  const editingTextRef = useRef(false);
+  // The specification as last opened or saved; null once there are unsaved changes outside its history
+  const savedSpecificationRef = useRef<Specification | null>(null);
+
+  const syncHistoryState = useCallback(() => {
+    const state = {
+      undoLabel: undoLabel(historyRef.current),
+      redoLabel: redoLabel(historyRef.current),
+      editingText: editingTextRef.current,
+    };
+    setHistoryState(state);
+    electronAPI?.setHistoryState(state);
+  }, []);
+
+  const loadSpecification = useCallback((spec: Specification | null) => {
+    specificationRef.current = spec;
+    historyRef.current = createHistory();
+    setSpecification(spec);
+    syncHistoryState();
+  }, [syncHistoryState]);
+
+  // The package with the latest edits of the active transaction set folded in
+  const currentPackage = useCallback((): SpecificationPackage | null => {
+    if (!specPackage || !specificationRef.current) return specPackage;
+    return replaceSpecification(specPackage, specificationRef.current);
+  }, [specPackage]);
+
+  // The active transaction set as exports and the sample generator see it, with the package's shared values applied
+  const exportedSpecification = useMemo(
+    () => (specification && specPackage ? applyPackageMetadata(specPackage, specification) : specification),
+    [specification, specPackage]
+  );
+
+  const updatePackage = useCallback((updater: (pkg: SpecificationPackage) => SpecificationPackage) => {
+    setSpecPackage(prev => {
       if (!prev) return prev;
       const updated = updater(prev);
-      updated.metadata.modifiedDate = new Date().toISOString();
-      return updated;
+      return { ...updated, modifiedDate: new Date().toISOString() };
     });
+    savedSpecificationRef.current = null;
     setIsDirty(true);
   }, []);
 
+  const updateSpecification = useCallback((updater: (spec: Specification) => Specification, label?: string) => {
+    const prev = specificationRef.current;
+    if (!prev) return;
+
+    const updated = updater(prev);
+    const next = { ...updated, metadata: { ...updated.metadata, modifiedDate: new Date().toISOString() } };
+
+    // Unlabeled edits come from typing in fields and are merged into one undo step
+    historyRef.current = recordChange(historyRef.current, prev, label ?? 'Edit', { coalesce: !label });
+    specificationRef.current = next;
+    setSpecification(next);
+    setIsDirty(true);
+    syncHistoryState();
+  }, [syncHistoryState]);
+
+  const handleUndo = useCallback(() => {
+    const current = specificationRef.current;
+    const step = current && undo(historyRef.current, current);
+    if (!step) return;
+
+    historyRef.current = step.history;
+    specificationRef.current = step.snapshot;
+    setSpecification(step.snapshot);
+    setIsDirty(step.snapshot !== savedSpecificationRef.current);
+    syncHistoryState();
+  }, [syncHistoryState]);
+
+  const handleRedo = useCallback(() => {
+    const current = specificationRef.current;
+    const step = current && redo(historyRef.current, current);
+    if (!step) return;
+
+    historyRef.current = step.history;
+    specificationRef.current = step.snapshot;
+    setSpecification(step.snapshot);
+    setIsDirty(step.snapshot !== savedSpecificationRef.current);
+    syncHistoryState();
+  }, [syncHistoryState]);
+
   const handleNew = useCallback((transactionSet: string, name: string, version: string) => {
     const newSpec = createEmptySpecification(transactionSet, name, version);
-    setSpecification(newSpec);
-    setFilePath(null);
-    setIsDirty(false);
+    const pkg = currentPackage();
+    if (pkg) {
+      // Inside a package, New adds a transaction set to it
+      setSpecPackage(addSpecification(pkg, newSpec));
+      savedSpecificationRef.current = null;
+      setIsDirty(true);
+    } else {
+      setFilePath(null);
+      savedSpecificationRef.current = newSpec;
+      setIsDirty(false);
+    }
+    loadSpecification(newSpec);
     setSelection(null);
     setExpandedNodes(new Set());
     setShowNewModal(false);
-  }, []);
+  }, [loadSpecification, currentPackage]);
+
+  const handleNewPackage = useCallback(() => {
+    const current = specificationRef.current;
+    if (!current) {
+      alert('Create or open a specification first. It becomes the first transaction set of the package.');
+      return;
+    }
+    if (specPackage) return;
+
+    setSpecPackage(createPackage(current));
+    // A package is saved to its own file
+    setFilePath(null);
+    savedSpecificationRef.current = null;
+    setIsDirty(true);
+    setActiveTab('package');
+  }, [specPackage]);
+
+  const handleSelectPackageSpecification = useCallback((specificationId: string) => {
+    const pkg = currentPackage();
+    const target = pkg?.specifications.find(spec => spec.id === specificationId);
+    if (!pkg || !target || target.id === specificationRef.current?.id) return;
+
+    setSpecPackage(pkg);
+    loadSpecification(target);
+    // Undo can only return to a clean document when nothing else in the package is unsaved
+    savedSpecificationRef.current = isDirty ? null : target;
+    setSelection(null);
+    setExpandedNodes(new Set());
+    setComparison(null);
+  }, [currentPackage, loadSpecification, isDirty]);
+
+  const handleRemovePackageSpecification = useCallback((specificationId: string) => {
+    const pkg = currentPackage();
+    const target = pkg?.specifications.find(spec => spec.id === specificationId);
+    if (!pkg || !target || pkg.specifications.length <= 1) return;
+    if (!confirm(`Remove transaction set ${target.metadata.transactionSet} from the package?`)) return;
+
+    const remaining = removeSpecification(pkg, specificationId);
+    setSpecPackage(remaining);
+    if (specificationId === specificationRef.current?.id) {
+      loadSpecification(remaining.specifications[0]);
+      setSelection(null);
+      setExpandedNodes(new Set());
+    }
+    savedSpecificationRef.current = null;
+    setIsDirty(true);
+  }, [currentPackage, loadSpecification]);
 
   const handleOpen = useCallback(async () => {
     if (!electronAPI) return;
@@ -78,57 +278,65 @@ export default function App() {
 
     const loadResult = await electronAPI.loadSpec({ filePath: result.data });
     if (loadResult.success && loadResult.data) {
-      setSpecification(loadResult.data);
+      if (isSpecificationPackage(loadResult.data)) {
+        setSpecPackage(loadResult.data);
+        loadSpecification(loadResult.data.specifications[0] || null);
+      } else {
+        setSpecPackage(null);
+        loadSpecification(loadResult.data);
+      }
       setFilePath(result.data);
+      savedSpecificationRef.current = specificationRef.current;
       setIsDirty(false);
       setSelection(null);
       setExpandedNodes(new Set());
     } else {
       alert(`Failed to load file: ${loadResult.error}`);
     }
-  }, []);
+  }, [loadSpecification]);
 
-  const handleSave = useCallback(async () => {
+  // Writes the open package, or the specification when no package is open
+  const saveDocument = useCallback(async (saveFilePath: string) => {
     if (!electronAPI || !specification) return;
 
-    let saveFilePath = filePath;
-    if (!saveFilePath) {
-      const result = await electronAPI.saveFile();
-      if (!result.success || !result.data) return;
-      saveFilePath = result.data;
-    }
-
-    const saveResult = await electronAPI.saveSpec({
-      specification,
-      filePath: saveFilePath,
-    });
+    const pkg = currentPackage();
+    const saveResult = pkg
+      ? await electronAPI.savePackage({ package: pkg, filePath: saveFilePath })
+      : await electronAPI.saveSpec({ specification, filePath: saveFilePath });
 
     if (saveResult.success) {
+      if (pkg) setSpecPackage(pkg);
       setFilePath(saveFilePath);
+      savedSpecificationRef.current = specificationRef.current;
       setIsDirty(false);
     } else {
       alert(`Failed to save: ${saveResult.error}`);
     }
-  }, [specification, filePath]);
+  }, [specification, currentPackage]);
 
-  const handleSaveAs = useCallback(async () => {
+  const chooseSaveFile = useCallback(async (): Promise<string | null> => {
+    if (!electronAPI) return null;
+    const result = specPackage ? await electronAPI.savePackageFile() : await electronAPI.saveFile();
+    return result.success && result.data ? result.data : null;
+  }, [specPackage]);
+
+  const handleSave = useCallback(async () => {
     if (!electronAPI || !specification) return;
 
-    const result = await electronAPI.saveFile();
-    if (!result.success || !result.data) return;
+    const saveFilePath = filePath || (await chooseSaveFile());
+    if (!saveFilePath) return;
 
-    const saveResult = await electronAPI.saveSpec({
-      specification,
-      filePath: result.data,
-    });
+    await saveDocument(saveFilePath);
+  }, [specification, filePath, chooseSaveFile, saveDocument]);
 
-    if (saveResult.success) {
-      setFilePath(result.data);
-      setIsDirty(false);
-    } else {
-      alert(`Failed to save: ${saveResult.error}`);
-    }
-  }, [specification]);
+  const handleSaveAs = useCallback(async () => {
+    if (!electronAPI || !specification) return;
+
+    const saveFilePath = await chooseSaveFile();
+    if (!saveFilePath) return;
+
+    await saveDocument(saveFilePath);
+  }, [specification, chooseSaveFile, saveDocument]);
 
   const handleImport = useCallback(async () => {
     if (!electronAPI) return;
@@ -138,25 +346,39 @@ export default function App() {
 
     try {
       const imported = parseAndImportSpec(result.data);
-      setSpecification(imported);
-      setFilePath(null);
+      const pkg = currentPackage();
+      if (pkg) {
+        // Inside a package, an import adds a transaction set to it
+        setSpecPackage(addSpecification(pkg, imported));
+      } else {
+        setFilePath(null);
+      }
+      loadSpecification(imported);
+      savedSpecificationRef.current = null;
       setIsDirty(true);
       setSelection(null);
       setExpandedNodes(new Set());
     } catch (error) {
       alert(`Failed to import: ${error}`);
     }
-  }, []);
+  }, [loadSpecification, currentPackage]);
 
-  const handleExportPDF = useCallback(async () => {
+  const handleExportPDF = useCallback(() => {
+    if (!specification) return;
+    setShowExportModal(true);
+  }, [specification]);
+
+  const handleConfirmExportPDF = useCallback(async (options: PDFExportOptions) => {
     if (!electronAPI || !specification) return;
+    setShowExportModal(false);
 
     const result = await electronAPI.exportPDF();
     if (!result.success || !result.data) return;
 
     const exportResult = await electronAPI.exportSpecPDF({
-      specification,
+      specification: exportedSpecification,
       filePath: result.data,
+      options,
     });
 
     if (exportResult.success) {
@@ -164,7 +386,119 @@ export default function App() {
     } else {
       alert(`Failed to export PDF: ${exportResult.error}`);
     }
-  }, [specification]);
+  }, [specification, exportedSpecification]);
+
+  const handleExportPackagePDF = useCallback(async () => {
+    const pkg = currentPackage();
+    if (!electronAPI || !pkg) {
+      alert('Open or create a package to export a combined PDF.');
+      return;
+    }
+
+    // The variant warnings the single specification export shows, for every transaction set
+    const warnings = pkg.specifications.flatMap(spec =>
+      findVariantConflicts(spec).flatMap(report =>
+        report.conflicts.map(conflict => `${spec.metadata.transactionSet} ${report.label}: ${conflict.message}`)
+      )
+    );
+    if (
+      warnings.length > 0 &&
+      !confirm(`Readers may not be able to tell which variant applies:\n\n${warnings.join('\n')}\n\nExport anyway?`)
+    ) {
+      return;
+    }
+
+    const result = await electronAPI.exportPDF();
+    if (!result.success || !result.data) return;
+
+    const exportResult = await electronAPI.exportPackagePDF({
+      package: pkg,
+      filePath: result.data,
+    });
+
+    if (exportResult.success) {
+      alert('Package PDF exported successfully!');
+    } else {
+      alert(`Failed to export package PDF: ${exportResult.error}`);
+    }
+  }, [currentPackage]);
+
+  const handleExportHTML = useCallback(async () => {
+    if (!electronAPI || !specification) return;
+
+    const result = await electronAPI.exportHTML();
+    if (!result.success || !result.data) return;
+
+    const exportResult = await electronAPI.exportSpecHTML({
+      specification: exportedSpecification,
+      filePath: result.data,
+    });
+
+    if (exportResult.success) {
+      alert('HTML exported successfully!');
+    } else {
+      alert(`Failed to export HTML: ${exportResult.error}`);
+    }
+  }, [specification, exportedSpecification]);
+
+  const handleExportCSV = useCallback(async () => {
+    if (!electronAPI || !specification) return;
+
+    const result = await electronAPI.exportCSV();
+    if (!result.success || !result.data) return;
+
+    const exportResult = await electronAPI.exportSpecCSV({
+      specification: exportedSpecification,
+      filePath: result.data,
+    });
+
+    if (exportResult.success) {
+      alert('Mapping spreadsheet exported successfully!');
+    } else {
+      alert(`Failed to export mapping spreadsheet: ${exportResult.error}`);
+    }
+  }, [specification, exportedSpecification]);
+
+  const handleExportOpenAPI = useCallback(async () => {
+    if (!electronAPI || !specification) return;
+
+    const result = await electronAPI.exportOpenAPI();
+    if (!result.success || !result.data) return;
+
+    const exportResult = await electronAPI.exportSpecOpenAPI({
+      specification: exportedSpecification,
+      filePath: result.data,
+    });
+
+    if (exportResult.success) {
+      alert('OpenEDI specification exported successfully!');
+    } else {
+      alert(`Failed to export OpenEDI specification: ${exportResult.error}`);
+    }
+  }, [specification, exportedSpecification]);
+
+  const handleChooseComparison = useCallback(async () => {
+    if (!electronAPI) return;
+
+    const result = await electronAPI.openFile();
+    if (!result.success || !result.data) return;
+
+    const loadResult = await electronAPI.loadSpec({ filePath: result.data });
+    if (loadResult.success && loadResult.data) {
+      // From a package, compare with the same transaction set
+      const transactionSet = specificationRef.current?.metadata.transactionSet;
+      const previous = isSpecificationPackage(loadResult.data)
+        ? loadResult.data.specifications.find(spec => spec.metadata.transactionSet === transactionSet)
+        : loadResult.data;
+      if (!previous) {
+        alert(`The package does not contain transaction set ${transactionSet}`);
+        return;
+      }
+      setComparison({ specification: previous, fileName: result.data.split(/[\\/]/).pop() || result.data });
+    } else {
+      alert(`Failed to load file: ${loadResult.error}`);
+    }
+  }, []);
 
   // Menu handlers from Electron
   useEffect(() => {
@@ -172,22 +506,88 @@ export default function App() {
 
     const cleanups = [
       electronAPI.onMenuNew(() => setShowNewModal(true)),
+      electronAPI.onMenuNewPackage(handleNewPackage),
       electronAPI.onMenuOpen(handleOpen),
       electronAPI.onMenuSave(handleSave),
       electronAPI.onMenuSaveAs(handleSaveAs),
       electronAPI.onMenuImport(handleImport),
       electronAPI.onMenuExportPDF(handleExportPDF),
+      electronAPI.onMenuExportPackagePDF(handleExportPackagePDF),
+      electronAPI.onMenuExportHTML(handleExportHTML),
+      electronAPI.onMenuExportCSV(handleExportCSV),
+      electronAPI.onMenuExportOpenAPI(handleExportOpenAPI),
+      electronAPI.onMenuUndo(handleUndo),
+      electronAPI.onMenuRedo(handleRedo),
     ];
 
     return () => {
       cleanups.forEach(cleanup => cleanup());
     };
-  }, [handleOpen, handleSave, handleSaveAs, handleImport, handleExportPDF]);
+  }, [
+    handleNewPackage,
+    handleOpen,
+    handleSave,
+    handleSaveAs,
+    handleImport,
+    handleExportPDF,
+    handleExportPackagePDF,
+    handleExportHTML,
+    handleExportCSV,
+    handleExportOpenAPI,
+    handleUndo,
+    handleRedo,
+  ]);
+
+  // Ctrl+Z / Ctrl+Shift+Z undo specification changes; text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      if (isTextEntry(e.target)) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // While a text field has focus the Edit menu switches to its native undo
+  useEffect(() => {
+    const handleFocusChange = (e: FocusEvent) => {
+      const editingText = isTextEntry(e.type === 'focusin' ? e.target : e.relatedTarget);
+      if (editingText === editingTextRef.current) return;
+      editingTextRef.current = editingText;
+      syncHistoryState();
+    };
+
+    document.addEventListener('focusin', handleFocusChange);
+    document.addEventListener('focusout', handleFocusChange);
+    return () => {
+      document.removeEventListener('focusin', handleFocusChange);
+      document.removeEventListener('focusout', handleFocusChange);
+    };
+  }, [syncHistoryState]);
 
   const handleSelectionChange = useCallback((newSelection: TreeSelection | null) => {
     setSelection(newSelection);
   }, []);
 
+  const handleShowInStructure = useCallback((newSelection: TreeSelection) => {
+    // Open the loops, segment and composite around the node so it is visible in the tree
+    const ancestors = specificationRef.current ? findAncestorIds(specificationRef.current.loops, newSelection.id) : null;
+    if (ancestors && ancestors.length > 0) {
+      setExpandedNodes(prev => new Set([...prev, ...ancestors]));
+    }
+    setSelection(newSelection);
+    setActiveTab('structure');
+  }, []);
+
   const handleToggleExpand = useCallback((nodeId: string) => {
     setExpandedNodes(prev => {
       const next = new Set(prev);
@@ -219,6 +619,11 @@ export default function App() {
             if (selection.type === 'element' && element.id === selection.id) {
               return { type: 'element', item: element, path: [...path, loop.id, segment.id, element.id] };
             }
+
+            const component = (element.components || []).find(c => selection.type === 'element' && c.id === selection.id);
+            if (component) {
+              return { type: 'element', item: component, path: [...path, loop.id, segment.id, element.id, component.id] };
+            }
           }
         }
 
@@ -238,11 +643,48 @@ export default function App() {
     if (!specification) return <WelcomeScreen onNew={() => setShowNewModal(true)} onOpen={handleOpen} onImport={handleImport} />;
 
     if (activeTab === 'examples') {
-      return <ExamplesEditor specification={specification} onUpdate={updateSpecification} />;
+      return (
+        <ExamplesEditor
+          specification={exportedSpecification || specification}
+          onUpdate={updateSpecification}
+          onSelect={handleShowInStructure}
+        />
+      );
+    }
+
+    if (activeTab === 'envelope') {
+      return (
+        <EnvelopeEditor
+          specification={specification}
+          onUpdate={updateSpecification}
+          packageEnvelope={specPackage?.envelope ? exportedSpecification?.envelope : undefined}
+        />
+      );
+    }
+
+    if (activeTab === 'compare') {
+      return (
+        <CompareView
+          specification={specification}
+          comparison={comparison}
+          onChooseFile={handleChooseComparison}
+          onClear={() => setComparison(null)}
+        />
+      );
+    }
+
+    if (activeTab === 'deviations') {
+      return <DeviationsView specification={specification} onSelect={handleShowInStructure} />;
+    }
+
+    if (activeTab === 'package' && specPackage) {
+      return <PackageEditor pkg={currentPackage()!} onUpdate={updatePackage} />;
     }
 
     if (activeTab === 'metadata') {
-      return <SpecificationEditor specification={specification} onUpdate={updateSpecification} />;
+      return (
+        <SpecificationEditor specification={specification} onUpdate={updateSpecification} packagePartner={specPackage?.partner} />
+      );
     }
 
     if (!selectedItem) {
@@ -291,7 +733,7 @@ export default function App() {
   };
 
   const documentTitle = specification
-    ? `${specification.metadata.name}${isDirty ? ' *' : ''}`
+    ? `${specPackage ? `${specPackage.name} - ` : ''}${specification.metadata.name}${isDirty ? ' *' : ''}`
     : 'EDI Specification Builder';
 
   return (
@@ -301,9 +743,33 @@ export default function App() {
         <div className="header-actions">
           {specification && (
             <>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={handleUndo}
+                disabled={!historyState.undoLabel}
+                title={historyState.undoLabel ? `Undo ${historyState.undoLabel}` : 'Nothing to undo'}
+              >
+                Undo
+              </button>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={handleRedo}
+                disabled={!historyState.redoLabel}
+                title={historyState.redoLabel ? `Redo ${historyState.redoLabel}` : 'Nothing to redo'}
+              >
+                Redo
+              </button>
               <button className="btn btn-secondary btn-sm" onClick={handleSave} disabled={!isDirty}>
                 Save
               </button>
+              <button className="btn btn-secondary btn-sm" onClick={handleExportHTML}>
+                Export HTML
+              </button>
+              {specPackage && (
+                <button className="btn btn-secondary btn-sm" onClick={handleExportPackagePDF}>
+                  Export Package PDF
+                </button>
+              )}
               <button className="btn btn-primary btn-sm" onClick={handleExportPDF}>
                 Export PDF
               </button>
@@ -315,6 +781,15 @@ export default function App() {
       <main className="app-main">
         {specification && (
           <aside className="sidebar">
+            {specPackage && (
+              <PackageSidebar
+                pkg={currentPackage()!}
+                activeSpecificationId={specification.id}
+                onSelect={handleSelectPackageSpecification}
+                onAdd={() => setShowNewModal(true)}
+                onRemove={handleRemovePackageSpecification}
+              />
+            )}
             <div className="sidebar-header">
               <h2>Transaction Set {specification.metadata.transactionSet}</h2>
             </div>
@@ -346,12 +821,38 @@ export default function App() {
               >
                 Examples ({specification.examples.length})
               </div>
+              <div
+                className={`tab ${activeTab === 'envelope' ? 'active' : ''}`}
+                onClick={() => setActiveTab('envelope')}
+              >
+                Envelope
+              </div>
               <div
                 className={`tab ${activeTab === 'metadata' ? 'active' : ''}`}
                 onClick={() => setActiveTab('metadata')}
               >
                 Metadata
               </div>
+              <div
+                className={`tab ${activeTab === 'compare' ? 'active' : ''}`}
+                onClick={() => setActiveTab('compare')}
+              >
+                Compare
+              </div>
+              <div
+                className={`tab ${activeTab === 'deviations' ? 'active' : ''}`}
+                onClick={() => setActiveTab('deviations')}
+              >
+                Deviations
+              </div>
+              {specPackage && (
+                <div
+                  className={`tab ${activeTab === 'package' ? 'active' : ''}`}
+                  onClick={() => setActiveTab('package')}
+                >
+                  Package ({specPackage.specifications.length})
+                </div>
+              )}
             </div>
           )}
           <div className="content-body">{renderEditor()}</div>
@@ -364,6 +865,15 @@ export default function App() {
           onCreate={handleNew}
         />
       )}
+
+      {showExportModal && exportedSpecification && (
+        <ExportSettingsModal
+          specification={exportedSpecification}
+          comparison={comparison}
+          onClose={() => setShowExportModal(false)}
+          onExport={handleConfirmExportPDF}
+        />
+      )}
     </div>
   );
 }
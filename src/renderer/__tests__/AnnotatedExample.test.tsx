@@ -0,0 +1,89 @@
+/**
+ * Tests for AnnotatedExample Component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AnnotatedExample } from '../components/AnnotatedExample';
+import { Specification } from '../../shared/models/edi-types';
+
+const createSpecification = (): Specification => ({
+  id: 'spec-1',
+  metadata: {
+    name: 'Test 850',
+    version: '1.0',
+    transactionSet: '850',
+    transactionSetName: 'Purchase Order',
+    ediVersion: '005010',
+    createdDate: '2024-01-01T00:00:00Z',
+    modifiedDate: '2024-01-01T00:00:00Z',
+  },
+  loops: [
+    {
+      id: 'loop-n1',
+      name: 'N1',
+      usage: 'M',
+      minUse: 1,
+      maxUse: 1,
+      segments: [
+        {
+          id: 'seg-n1',
+          name: 'N1',
+          description: 'Party Identification',
+          usage: 'M',
+          minUse: 1,
+          maxUse: 1,
+          elements: [
+            {
+              id: 'n101',
+              position: 1,
+              name: 'Entity Identifier Code',
+              referenceNumber: '98',
+              dataType: 'ID',
+              minLength: 2,
+              maxLength: 3,
+              usage: 'M',
+              codeValues: [{ code: 'ST', description: 'Ship To', included: true }],
+            },
+            { id: 'n102', position: 2, name: 'Name', dataType: 'AN', minLength: 1, maxLength: 5, usage: 'O' },
+          ],
+        },
+      ],
+      loops: [],
+    },
+  ],
+  examples: [],
+});
+
+const CONTENT = 'ST*850*0001~\nN1*ST*Acme Warehouse~\nZZZ*1~\nSE*4*0001~';
+
+describe('AnnotatedExample', () => {
+  it('should show element details on hover', () => {
+    render(<AnnotatedExample specification={createSpecification()} content={CONTENT} />);
+
+    fireEvent.mouseEnter(screen.getByText('ST', { selector: '.annotated-element' }));
+
+    expect(screen.getByText('N101')).toBeInTheDocument();
+    expect(screen.getByText(/Entity Identifier Code/)).toBeInTheDocument();
+    expect(screen.getByText('Mandatory')).toBeInTheDocument();
+    expect(screen.getByText(/ST = Ship To/)).toBeInTheDocument();
+  });
+
+  it('should highlight invalid elements and unknown segments', () => {
+    const { container } = render(<AnnotatedExample specification={createSpecification()} content={CONTENT} />);
+
+    expect(screen.getByText('Acme Warehouse')).toHaveClass('invalid');
+    expect(container.querySelector('.annotated-segment.unknown')).toHaveTextContent('ZZZ*1~');
+  });
+
+  it('should select the element or segment in the structure when clicked', () => {
+    const onSelect = jest.fn();
+    render(<AnnotatedExample specification={createSpecification()} content={CONTENT} onSelect={onSelect} />);
+
+    fireEvent.click(screen.getByText('Acme Warehouse'));
+    fireEvent.click(screen.getByText('N1', { selector: '.annotated-segment-id' }));
+
+    expect(onSelect).toHaveBeenNthCalledWith(1, { type: 'element', id: 'n102' });
+    expect(onSelect).toHaveBeenNthCalledWith(2, { type: 'segment', id: 'seg-n1' });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for CompareView Component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CompareView } from '../components/CompareView';
+import { Specification } from '../../shared/models/edi-types';
+
+const createSpecification = (version: string, maxUse: number): Specification => ({
+  id: `spec-${version}`,
+  metadata: {
+    name: 'Test Spec',
+    version,
+    transactionSet: '850',
+    transactionSetName: 'Purchase Order',
+    ediVersion: '005010',
+    createdDate: '2024-01-01T00:00:00Z',
+    modifiedDate: '2024-01-01T00:00:00Z',
+  },
+  loops: [
+    {
+      id: `loop-${version}`,
+      name: 'N1',
+      usage: 'O',
+      minUse: 0,
+      maxUse,
+      segments: [],
+      loops: [],
+    },
+  ],
+  examples: [],
+});
+
+describe('CompareView', () => {
+  const defaultProps = {
+    specification: createSpecification('1.3', 2),
+    comparison: null,
+    onChooseFile: jest.fn(),
+    onClear: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('prompts for a previous version when nothing is loaded', () => {
+    render(<CompareView {...defaultProps} />);
+
+    fireEvent.click(screen.getByText('Choose Previous Version...'));
+
+    expect(defaultProps.onChooseFile).toHaveBeenCalled();
+  });
+
+  it('lists changes against the loaded version', () => {
+    const comparison = { specification: createSpecification('1.2', 5), fileName: 'acme-850-v1.2.edispec' };
+    render(<CompareView {...defaultProps} comparison={comparison} />);
+
+    expect(screen.getByText(/acme-850-v1\.2\.edispec/)).toBeInTheDocument();
+    expect(screen.getByText('Version changed from 1.2 to 1.3')).toBeInTheDocument();
+    expect(screen.getByText('Max use changed from 5 to 2')).toBeInTheDocument();
+  });
+
+  it('filters changes by kind', () => {
+    const comparison = { specification: createSpecification('1.2', 5), fileName: 'v1.2.edispec' };
+    render(<CompareView {...defaultProps} comparison={comparison} />);
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'added' } });
+
+    expect(screen.getByText('No differences found.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for DeviationsView Component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DeviationsView } from '../components/DeviationsView';
+import { Specification } from '../../shared/models/edi-types';
+
+const createSpecification = (baseSpecReference?: string): Specification => ({
+  id: 'spec-1',
+  metadata: {
+    name: 'Test Spec',
+    version: '1.0',
+    transactionSet: '850',
+    transactionSetName: 'Purchase Order',
+    ediVersion: '005010',
+    createdDate: '2024-01-01T00:00:00Z',
+    modifiedDate: '2024-01-01T00:00:00Z',
+    baseSpecReference,
+  },
+  loops: baseSpecReference
+    ? [
+        {
+          id: 'loop-n1',
+          name: 'N1',
+          usage: 'M',
+          minUse: 1,
+          maxUse: 200,
+          segments: [],
+          loops: [],
+          baseUsage: 'O',
+          baseMinUse: 1,
+          baseMaxUse: 200,
+        },
+      ]
+    : [],
+  examples: [],
+});
+
+describe('DeviationsView', () => {
+  const onSelect = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('explains when there is no base standard', () => {
+    render(<DeviationsView specification={createSpecification()} onSelect={onSelect} />);
+
+    expect(screen.getByText(/no base standard to compare against/)).toBeInTheDocument();
+  });
+
+  it('lists deviations and selects the node on click', () => {
+    render(<DeviationsView specification={createSpecification('OpenEDI/005010/850')} onSelect={onSelect} />);
+
+    expect(screen.getByText(/Compared with OpenEDI\/005010\/850: 1 difference/)).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Usage tightened from O to M'));
+
+    expect(onSelect).toHaveBeenCalledWith({ type: 'loop', id: 'loop-n1' });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for EnvelopeEditor Component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { EnvelopeEditor } from '../components/EnvelopeEditor';
+import { Specification } from '../../shared/models/edi-types';
+import { createDefaultEnvelope } from '../../shared/utils/envelope';
+
+const createSpecification = (withEnvelope: boolean): Specification => {
+  const metadata = {
+    name: 'Test Spec',
+    version: '1.0',
+    transactionSet: '850',
+    transactionSetName: 'Purchase Order',
+    ediVersion: '005010',
+    createdDate: '2024-01-01T00:00:00Z',
+    modifiedDate: '2024-01-01T00:00:00Z',
+  };
+  return {
+    id: 'spec-1',
+    metadata,
+    envelope: withEnvelope ? { ...createDefaultEnvelope(metadata), senderId: 'ACME' } : undefined,
+    loops: [],
+    examples: [],
+  };
+};
+
+describe('EnvelopeEditor', () => {
+  it('should add default envelope requirements', () => {
+    const onUpdate = jest.fn();
+    render(<EnvelopeEditor specification={createSpecification(false)} onUpdate={onUpdate} />);
+
+    fireEvent.click(screen.getByText('Add Envelope Requirements'));
+
+    const updated = onUpdate.mock.calls[0][0](createSpecification(false));
+    expect(updated.envelope.functionalIdentifierCode).toBe('PO');
+    expect(onUpdate.mock.calls[0][1]).toBe('Add envelope requirements');
+  });
+
+  it('should show the ISA and GS values', () => {
+    render(<EnvelopeEditor specification={createSpecification(true)} onUpdate={jest.fn()} />);
+
+    expect(screen.getByLabelText('ISA06 Interchange Sender ID')).toHaveValue('ACME');
+    expect(screen.getByLabelText('GS01 Functional Identifier Code')).toHaveValue('PO');
+    expect(screen.getByText('~ (tilde)')).toBeInTheDocument();
+  });
+
+  it('should update a field', () => {
+    const onUpdate = jest.fn();
+    render(<EnvelopeEditor specification={createSpecification(true)} onUpdate={onUpdate} />);
+
+    fireEvent.change(screen.getByLabelText('ISA15 Interchange Usage Indicator'), { target: { value: 'P' } });
+
+    expect(onUpdate.mock.calls[0][0](createSpecification(true)).envelope.usageIndicator).toBe('P');
+  });
+
+  it('should list envelope problems', () => {
+    const spec = createSpecification(true);
+    spec.envelope = { ...spec.envelope!, componentSeparator: '*' };
+    render(<EnvelopeEditor specification={spec} onUpdate={jest.fn()} />);
+
+    expect(screen.getByText('Component Element Separator (ISA16) is the same as the Element Separator')).toBeInTheDocument();
+  });
+
+  it('should point to the package when it shares an envelope', () => {
+    const spec = createSpecification(true);
+    render(<EnvelopeEditor specification={spec} onUpdate={jest.fn()} packageEnvelope={spec.envelope} />);
+
+    expect(screen.getByText('Shared package envelope')).toBeInTheDocument();
+    expect(screen.queryByLabelText('ISA06 Interchange Sender ID')).not.toBeInTheDocument();
+    expect(screen.getByText(/GS01 PO and GS08 005010/)).toBeInTheDocument();
+  });
+});
@@ -55,7 +55,7 @@ describe('ExamplesEditor', () => {
 
     fireEvent.click(screen.getByText('+ Add Example'));
 
-    expect(defaultProps.onUpdate).toHaveBeenCalledWith(expect.any(Function));
+    expect(defaultProps.onUpdate).toHaveBeenCalledWith(expect.any(Function), 'Add example');
   });
 
   it('renders existing examples', () => {
@@ -240,6 +240,67 @@ describe('ExamplesEditor', () => {
     expect(screen.getByText('#2')).toBeInTheDocument();
   });
 
+  it('validates example content against the specification', () => {
+    const specWithExamples = createSpecification([
+      { id: 'ex-1', title: 'Example 1', description: '', content: 'ST*810*0001~\nBIG*20240101~\nSE*3*0001~' },
+    ]);
+
+    render(<ExamplesEditor specification={specWithExamples} onUpdate={defaultProps.onUpdate} />);
+
+    fireEvent.click(screen.getByText('Validate'));
+
+    expect(screen.getByText(/1 error\(s\), 0 warning\(s\)/)).toBeInTheDocument();
+    expect(screen.getByText(/Segment BIG is not expected/)).toBeInTheDocument();
+  });
+
+  it('hides validation results once the specification changes', () => {
+    const examples = [{ id: 'ex-1', title: 'Example 1', description: '', content: 'ST*810*0001~\nBIG*20240101~\nSE*3*0001~' }];
+    const { rerender } = render(<ExamplesEditor specification={createSpecification(examples)} onUpdate={defaultProps.onUpdate} />);
+
+    fireEvent.click(screen.getByText('Validate'));
+    rerender(<ExamplesEditor specification={createSpecification(examples)} onUpdate={defaultProps.onUpdate} />);
+
+    expect(screen.queryByText(/1 error\(s\)/)).not.toBeInTheDocument();
+  });
+
+  it('switches between the editor and the annotated view', () => {
+    const specWithExamples = createSpecification([
+      { id: 'ex-1', title: 'Example 1', description: '', content: 'ST*810*0001~\nBIG*20240101~\nSE*3*0001~' },
+    ]);
+
+    render(<ExamplesEditor specification={specWithExamples} onUpdate={defaultProps.onUpdate} />);
+
+    fireEvent.click(screen.getByText('Annotate'));
+    expect(screen.queryByDisplayValue(/BIG\*20240101/)).not.toBeInTheDocument();
+    expect(screen.getByText('BIG')).toHaveClass('annotated-segment-id');
+
+    fireEvent.click(screen.getByText('Edit'));
+    expect(screen.getByDisplayValue(/BIG\*20240101/)).toBeInTheDocument();
+  });
+
+  it('disables validate for empty content', () => {
+    const specWithExamples = createSpecification([
+      { id: 'ex-1', title: 'Example 1', description: '', content: '' },
+    ]);
+
+    render(<ExamplesEditor specification={specWithExamples} onUpdate={defaultProps.onUpdate} />);
+
+    expect(screen.getByText('Validate')).toBeDisabled();
+  });
+
+  it('generates a sample interchange for the chosen scope', () => {
+    render(<ExamplesEditor {...defaultProps} />);
+
+    fireEvent.change(screen.getByLabelText('Sample scope'), { target: { value: 'all' } });
+    fireEvent.click(screen.getByText('Generate Sample'));
+
+    expect(defaultProps.onUpdate).toHaveBeenCalledWith(expect.any(Function), 'Generate sample');
+    const updated = defaultProps.onUpdate.mock.calls[0][0](createSpecification());
+    expect(updated.examples[0].title).toBe('Sample (all segments)');
+    expect(updated.examples[0].content).toMatch(/^ISA\*/);
+    expect(updated.examples[0].content).toContain('ST*810*0001~');
+  });
+
   it('displays helpful description text', () => {
     render(<ExamplesEditor {...defaultProps} />);
 
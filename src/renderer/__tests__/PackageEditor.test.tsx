@@ -0,0 +1,138 @@
+/**
+ * Tests for PackageEditor and PackageSidebar Components
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PackageEditor } from '../components/PackageEditor';
+import { PackageSidebar } from '../components/PackageSidebar';
+import { Specification, SpecificationPackage } from '../../shared/models/edi-types';
+import { createDefaultEnvelope } from '../../shared/utils/envelope';
+
+const createSpecification = (id: string, transactionSet: string, transactionSetName: string): Specification => ({
+  id,
+  metadata: {
+    name: `${transactionSetName} Guide`,
+    version: '1.0',
+    transactionSet,
+    transactionSetName,
+    ediVersion: '005010',
+    createdDate: '2024-01-01T00:00:00Z',
+    modifiedDate: '2024-01-01T00:00:00Z',
+  },
+  loops: [],
+  examples: [],
+});
+
+const createPackage = (): SpecificationPackage => ({
+  id: 'pkg-1',
+  name: 'Acme Retail Guide',
+  partner: 'Acme',
+  contacts: [{ id: 'contact-1', name: 'Jane Doe', role: 'EDI Coordinator' }],
+  createdDate: '2024-01-01T00:00:00Z',
+  modifiedDate: '2024-01-01T00:00:00Z',
+  specifications: [
+    createSpecification('spec-850', '850', 'Purchase Order'),
+    createSpecification('spec-856', '856', 'Ship Notice/Manifest'),
+  ],
+});
+
+describe('PackageEditor', () => {
+  it('should show the shared metadata, contacts and transaction sets', () => {
+    render(<PackageEditor pkg={createPackage()} onUpdate={jest.fn()} />);
+
+    expect(screen.getByDisplayValue('Acme Retail Guide')).toBeInTheDocument();
+    expect(screen.getByDisplayValue('Acme')).toBeInTheDocument();
+    expect(screen.getByDisplayValue('Jane Doe')).toBeInTheDocument();
+    expect(screen.getByText('Contacts (1)')).toBeInTheDocument();
+    expect(screen.getByText('850 - Purchase Order')).toBeInTheDocument();
+    expect(screen.getByText('856 - Ship Notice/Manifest')).toBeInTheDocument();
+  });
+
+  it('should update the partner for the whole package', () => {
+    const onUpdate = jest.fn();
+    render(<PackageEditor pkg={createPackage()} onUpdate={onUpdate} />);
+
+    fireEvent.change(screen.getByDisplayValue('Acme'), { target: { value: 'Acme Corp' } });
+
+    const updated = onUpdate.mock.calls[0][0](createPackage());
+    expect(updated.partner).toBe('Acme Corp');
+  });
+
+  it('should add and remove contacts', () => {
+    const onUpdate = jest.fn();
+    render(<PackageEditor pkg={createPackage()} onUpdate={onUpdate} />);
+
+    fireEvent.click(screen.getByText('+ Add Contact'));
+    fireEvent.click(screen.getByTitle('Delete contact'));
+
+    expect(onUpdate.mock.calls[0][0](createPackage()).contacts).toHaveLength(2);
+    expect(onUpdate.mock.calls[1][0](createPackage()).contacts).toEqual([]);
+  });
+
+  it('should add a shared envelope from the first transaction set', () => {
+    const onUpdate = jest.fn();
+    render(<PackageEditor pkg={createPackage()} onUpdate={onUpdate} />);
+
+    fireEvent.click(screen.getByText('+ Add Shared Envelope'));
+
+    const updated = onUpdate.mock.calls[0][0](createPackage());
+    expect(updated.envelope.interchangeVersion).toBe('00501');
+  });
+
+  it('should edit the shared envelope without the per transaction set fields', () => {
+    const pkg = createPackage();
+    pkg.envelope = createDefaultEnvelope(pkg.specifications[0].metadata);
+    const onUpdate = jest.fn();
+    render(<PackageEditor pkg={pkg} onUpdate={onUpdate} />);
+
+    expect(screen.queryByLabelText('GS01 Functional Identifier Code')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText(/^GS08/)).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/^ISA06/), { target: { value: 'ACME' } });
+
+    expect(onUpdate.mock.calls[0][0](pkg).envelope.senderId).toBe('ACME');
+  });
+});
+
+describe('PackageSidebar', () => {
+  const renderSidebar = (overrides: Partial<React.ComponentProps<typeof PackageSidebar>> = {}) => {
+    const props = {
+      pkg: createPackage(),
+      activeSpecificationId: 'spec-850',
+      onSelect: jest.fn(),
+      onAdd: jest.fn(),
+      onRemove: jest.fn(),
+      ...overrides,
+    };
+    render(<PackageSidebar {...props} />);
+    return props;
+  };
+
+  it('should list the transaction sets and mark the active one', () => {
+    renderSidebar();
+
+    expect(screen.getByText('Purchase Order').closest('[role="button"]')).toHaveAttribute('aria-current', 'true');
+    expect(screen.getByText('Ship Notice/Manifest').closest('[role="button"]')).not.toHaveAttribute('aria-current');
+  });
+
+  it('should switch, add and remove transaction sets', () => {
+    const props = renderSidebar();
+
+    fireEvent.click(screen.getByText('Ship Notice/Manifest'));
+    fireEvent.click(screen.getByText('+ Add'));
+    fireEvent.click(screen.getByTitle('Remove 856 from the package'));
+
+    expect(props.onSelect).toHaveBeenCalledWith('spec-856');
+    expect(props.onAdd).toHaveBeenCalled();
+    expect(props.onRemove).toHaveBeenCalledWith('spec-856');
+    expect(props.onSelect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not offer to remove the last transaction set', () => {
+    const pkg = { ...createPackage(), specifications: [createSpecification('spec-850', '850', 'Purchase Order')] };
+    renderSidebar({ pkg });
+
+    expect(screen.queryByTitle('Remove 850 from the package')).not.toBeInTheDocument();
+  });
+});
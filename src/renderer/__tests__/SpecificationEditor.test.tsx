@@ -0,0 +1,72 @@
+/**
+ * Tests for SpecificationEditor Component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SpecificationEditor } from '../components/SpecificationEditor';
+import { Specification, Revision } from '../../shared/models/edi-types';
+
+const createSpecification = (revisions?: Revision[]): Specification => ({
+  id: 'spec-1',
+  metadata: {
+    name: 'Test Spec',
+    version: '1.3',
+    transactionSet: '850',
+    transactionSetName: 'Purchase Order',
+    ediVersion: '005010',
+    createdDate: '2024-01-01T00:00:00Z',
+    modifiedDate: '2024-01-01T00:00:00Z',
+    revisions,
+  },
+  loops: [],
+  examples: [],
+});
+
+describe('SpecificationEditor', () => {
+  const onUpdate = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('renders metadata fields', () => {
+    render(<SpecificationEditor specification={createSpecification()} onUpdate={onUpdate} />);
+
+    expect(screen.getByText('Specification Metadata')).toBeInTheDocument();
+    expect(screen.getByDisplayValue('Test Spec')).toBeInTheDocument();
+  });
+
+  it('shows the package partner read-only', () => {
+    render(<SpecificationEditor specification={createSpecification()} onUpdate={onUpdate} packagePartner="Acme" />);
+
+    expect(screen.getByDisplayValue('Acme')).toBeDisabled();
+    expect(screen.getByText(/Edit it on the Package tab/)).toBeInTheDocument();
+  });
+
+  it('adds a revision for the current version', () => {
+    render(<SpecificationEditor specification={createSpecification()} onUpdate={onUpdate} />);
+
+    fireEvent.click(screen.getByText('+ Add Revision'));
+
+    expect(onUpdate).toHaveBeenCalledWith(expect.any(Function), 'Add revision');
+    const updated = onUpdate.mock.calls[0][0](createSpecification());
+    expect(updated.metadata.revisions).toHaveLength(1);
+    expect(updated.metadata.revisions[0].version).toBe('1.3');
+    expect(updated.metadata.revisions[0].date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  it('renders and deletes existing revisions', () => {
+    const revisions: Revision[] = [
+      { id: 'rev-1', version: '1.0', date: '2024-01-15', author: 'J. Smith', description: 'Initial release' },
+    ];
+    render(<SpecificationEditor specification={createSpecification(revisions)} onUpdate={onUpdate} />);
+
+    expect(screen.getByText('Revision History (1)')).toBeInTheDocument();
+    expect(screen.getByDisplayValue('Initial release')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTitle('Delete revision'));
+    const updated = onUpdate.mock.calls[0][0](createSpecification(revisions));
+    expect(updated.metadata.revisions).toBeUndefined();
+  });
+});
@@ -4,8 +4,8 @@
 
 import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
-import { VariantEditor } from '../components/VariantEditor';
-import { Variant } from '../../shared/models/edi-types';
+import { VariantEditor, VariantConflicts } from '../components/VariantEditor';
+import { Variant, Segment } from '../../shared/models/edi-types';
 
 describe('VariantEditor', () => {
   const defaultVariant: Variant = {
@@ -156,6 +156,57 @@ describe('VariantEditor', () => {
     expect(defaultProps.onUpdate).toHaveBeenCalled();
   });
 
+  it('joins rules with OR', () => {
+    const variantWithDiscriminators: Variant = {
+      ...defaultVariant,
+      discriminators: [
+        { elementId: 'REF01', operator: 'one-of', values: ['BM', 'PK'] },
+        { elementId: 'REF02', operator: 'present', values: [] },
+      ],
+    };
+
+    render(<VariantEditor {...defaultProps} variant={variantWithDiscriminators} />);
+
+    fireEvent.change(screen.getByLabelText('Join with previous rule'), { target: { value: 'or' } });
+
+    expect(defaultProps.onUpdate).toHaveBeenCalledWith({
+      discriminators: [
+        { elementId: 'REF01', operator: 'one-of', values: ['BM', 'PK'] },
+        { elementId: 'REF02', operator: 'present', values: [], connector: 'or' },
+      ],
+    });
+  });
+
+  it('clears values when switching to a presence check', () => {
+    const variantWithDiscriminators: Variant = {
+      ...defaultVariant,
+      discriminators: [{ elementId: 'REF02', operator: 'equals', values: ['123'] }],
+    };
+
+    render(<VariantEditor {...defaultProps} variant={variantWithDiscriminators} />);
+
+    fireEvent.change(screen.getByDisplayValue('='), { target: { value: 'absent' } });
+
+    expect(defaultProps.onUpdate).toHaveBeenCalledWith({
+      discriminators: [{ elementId: 'REF02', operator: 'absent', values: [] }],
+    });
+  });
+
+  it('keeps a single value when switching to a single-value operator', () => {
+    const variantWithDiscriminators: Variant = {
+      ...defaultVariant,
+      discriminators: [{ elementId: 'N101', operator: 'one-of', values: ['ST', 'BT'] }],
+    };
+
+    render(<VariantEditor {...defaultProps} variant={variantWithDiscriminators} />);
+
+    fireEvent.change(screen.getByDisplayValue('in'), { target: { value: 'not-equals' } });
+
+    expect(defaultProps.onUpdate).toHaveBeenCalledWith({
+      discriminators: [{ elementId: 'N101', operator: 'not-equals', values: ['ST'] }],
+    });
+  });
+
   it('allows deleting discriminator', () => {
     const variantWithDiscriminators: Variant = {
       ...defaultVariant,
@@ -231,4 +282,148 @@ describe('VariantEditor', () => {
 
     expect(screen.getByDisplayValue('This is a test comment')).toBeInTheDocument();
   });
+
+  describe('segment element overrides', () => {
+    const segment: Segment = {
+      id: 'seg-n1',
+      name: 'N1',
+      description: 'Party Identification',
+      usage: 'M',
+      minUse: 1,
+      maxUse: 1,
+      elements: [
+        {
+          id: 'n101',
+          position: 1,
+          name: 'Entity Identifier Code',
+          dataType: 'ID',
+          minLength: 2,
+          maxLength: 3,
+          usage: 'M',
+          codeValues: [
+            { code: 'ST', description: 'Ship To', included: true },
+            { code: 'BT', description: 'Bill To', included: true },
+          ],
+        },
+        { id: 'n102', position: 2, name: 'Name', dataType: 'AN', minLength: 1, maxLength: 60, usage: 'O' },
+      ],
+    };
+
+    it('lists coded elements of the segment', () => {
+      render(<VariantEditor {...defaultProps} segments={[segment]} />);
+
+      expect(screen.getByText('Code Overrides')).toBeInTheDocument();
+      expect(screen.getByLabelText('Override N101 codes')).not.toBeChecked();
+      expect(screen.queryByLabelText('Override N102 codes')).not.toBeInTheDocument();
+    });
+
+    it('copies the element codes when an override is enabled', () => {
+      render(<VariantEditor {...defaultProps} segments={[segment]} />);
+
+      fireEvent.click(screen.getByLabelText('Override N101 codes'));
+
+      expect(defaultProps.onUpdate).toHaveBeenCalledWith({ codeOverrides: { n101: segment.elements[0].codeValues } });
+    });
+
+    it('excludes a code for this variant', () => {
+      const variant: Variant = { ...defaultVariant, codeOverrides: { n101: segment.elements[0].codeValues! } };
+      render(<VariantEditor {...defaultProps} variant={variant} segments={[segment]} />);
+
+      fireEvent.click(screen.getByLabelText('Include N101 BT'));
+
+      expect(defaultProps.onUpdate).toHaveBeenCalledWith({
+        codeOverrides: {
+          n101: [
+            { code: 'ST', description: 'Ship To', included: true },
+            { code: 'BT', description: 'Bill To', included: false },
+          ],
+        },
+      });
+    });
+
+    it('clears the override when disabled', () => {
+      const variant: Variant = { ...defaultVariant, codeOverrides: { n101: segment.elements[0].codeValues! } };
+      render(<VariantEditor {...defaultProps} variant={variant} segments={[segment]} />);
+
+      fireEvent.click(screen.getByLabelText('Override N101 codes'));
+
+      expect(defaultProps.onUpdate).toHaveBeenCalledWith({ codeOverrides: undefined });
+    });
+
+    it('enables an element override for this variant', () => {
+      render(<VariantEditor {...defaultProps} segments={[segment]} />);
+
+      fireEvent.click(screen.getByLabelText('Override N102'));
+
+      expect(defaultProps.onUpdate).toHaveBeenCalledWith({ elementOverrides: { n102: {} } });
+    });
+
+    it('edits element override fields', () => {
+      const variant: Variant = { ...defaultVariant, elementOverrides: { n102: { usage: 'M' } } };
+      render(<VariantEditor {...defaultProps} variant={variant} segments={[segment]} />);
+
+      fireEvent.change(screen.getByLabelText('N102 max length'), { target: { value: '35' } });
+      fireEvent.change(screen.getByLabelText('N102 fixed value'), { target: { value: 'ACME' } });
+
+      expect(defaultProps.onUpdate).toHaveBeenCalledWith({ elementOverrides: { n102: { usage: 'M', maxLength: 35 } } });
+      expect(defaultProps.onUpdate).toHaveBeenCalledWith({ elementOverrides: { n102: { usage: 'M', fixedValue: 'ACME' } } });
+    });
+
+    it('picks the discriminator element from the segment', () => {
+      const variant: Variant = { ...defaultVariant, discriminators: [{ elementId: '', operator: 'equals', values: [''] }] };
+      render(<VariantEditor {...defaultProps} variant={variant} segments={[segment]} />);
+
+      expect(screen.queryByPlaceholderText('Element ID')).not.toBeInTheDocument();
+      fireEvent.change(screen.getByLabelText('Element'), { target: { value: 'N101' } });
+
+      expect(defaultProps.onUpdate).toHaveBeenCalledWith({
+        discriminators: [{ elementId: 'N101', operator: 'equals', values: [''] }],
+      });
+    });
+
+    it('selects discriminator values from the element codes', () => {
+      const variant: Variant = { ...defaultVariant, discriminators: [{ elementId: 'N101', operator: 'one-of', values: ['ST'] }] };
+      render(<VariantEditor {...defaultProps} variant={variant} segments={[segment]} />);
+
+      expect(screen.getByLabelText('N101 value ST')).toBeChecked();
+      fireEvent.click(screen.getByLabelText('N101 value BT'));
+
+      expect(defaultProps.onUpdate).toHaveBeenCalledWith({
+        discriminators: [{ elementId: 'N101', operator: 'one-of', values: ['ST', 'BT'] }],
+      });
+    });
+
+    it('flags rules on missing elements and unknown codes', () => {
+      const variant: Variant = {
+        ...defaultVariant,
+        discriminators: [
+          { elementId: 'N105', operator: 'equals', values: ['ST'] },
+          { elementId: 'N101', operator: 'equals', values: ['XX'] },
+        ],
+      };
+      render(<VariantEditor {...defaultProps} variant={variant} segments={[segment]} />);
+
+      expect(screen.getByText('N105 is not an element of N1')).toBeInTheDocument();
+      expect(screen.getByText('XX is not a code of N101')).toBeInTheDocument();
+      expect(screen.getByText('N105 (not found)')).toBeInTheDocument();
+    });
+  });
+});
+
+describe('VariantConflicts', () => {
+  it('lists variant warnings', () => {
+    render(
+      <VariantConflicts
+        conflicts={[{ kind: 'overlap', variantIds: ['a', 'b'], message: 'A and B both match N101=ST' }]}
+      />
+    );
+
+    expect(screen.getByText('A and B both match N101=ST')).toHaveClass('validation-issue', 'warning');
+  });
+
+  it('renders nothing without conflicts', () => {
+    const { container } = render(<VariantConflicts conflicts={[]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
 });
@@ -0,0 +1,197 @@
+/**
+ * Annotated Example Component
+ * Renders an example interchange segment by segment, linked to the specification tree
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Specification, Element, UsageType } from '../../shared/models/edi-types';
+import { annotateInterchange, AnnotatedSegment, AnnotatedValue } from '../../shared/utils/x12-annotator';
+import { TreeSelection } from './TreeNavigation';
+
+interface AnnotatedExampleProps {
+  specification: Specification;
+  content: string;
+  onSelect?: (selection: TreeSelection) => void;
+}
+
+type HoverTarget =
+  | { kind: 'segment'; segment: AnnotatedSegment }
+  | { kind: 'element'; segment: AnnotatedSegment; element: AnnotatedValue; composite?: AnnotatedValue };
+
+const USAGE_LABELS: Record<UsageType, string> = {
+  M: 'Mandatory',
+  O: 'Optional',
+  C: 'Conditional',
+};
+
+const USAGE_CLASSES: Record<UsageType, string> = {
+  M: 'mandatory',
+  O: 'optional',
+  C: 'conditional',
+};
+
+function segmentState(segment: AnnotatedSegment): string {
+  if (segment.control) return 'control';
+  if (!segment.spec) return 'unknown';
+  return segment.issues.some(i => i.severity === 'error') ? 'invalid' : '';
+}
+
+function elementRef(segmentId: string, position: number, componentPosition?: number): string {
+  const ref = `${segmentId}${String(position).padStart(2, '0')}`;
+  return componentPosition ? `${ref}-${componentPosition}` : ref;
+}
+
+export function AnnotatedExample({ specification, content, onSelect }: AnnotatedExampleProps) {
+  const [hovered, setHovered] = useState<HoverTarget | null>(null);
+  const annotated = useMemo(() => annotateInterchange(content, specification), [content, specification]);
+  const { delimiters } = annotated;
+
+  const selectElement = (element: Element | null) => {
+    if (element && onSelect) onSelect({ type: 'element', id: element.id });
+  };
+
+  const renderValue = (segment: AnnotatedSegment, element: AnnotatedValue, composite?: AnnotatedValue) => {
+    const invalid = element.issues.some(i => i.severity === 'error');
+    return (
+      <span
+        className={`annotated-element ${element.spec ? '' : 'unknown'} ${invalid ? 'invalid' : ''}`}
+        onMouseEnter={e => {
+          e.stopPropagation();
+          setHovered({ kind: 'element', segment, element, composite });
+        }}
+        onClick={e => {
+          e.stopPropagation();
+          selectElement(element.spec);
+        }}
+        data-ref={elementRef(segment.segment.id, composite?.position ?? element.position, composite ? element.position : undefined)}
+      >
+        {element.value}
+      </span>
+    );
+  };
+
+  return (
+    <div className="annotated-example-container">
+      <div className="annotated-example font-mono" onMouseLeave={() => setHovered(null)}>
+        {annotated.segments.map(segment => (
+          <div key={segment.segment.index} className={`annotated-segment ${segmentState(segment)}`}>
+            <span
+              className="annotated-segment-id"
+              onMouseEnter={() => setHovered({ kind: 'segment', segment })}
+              onClick={() => segment.spec && onSelect?.({ type: 'segment', id: segment.spec.id })}
+            >
+              {segment.segment.id}
+            </span>
+            {segment.elements.map(element => (
+              <React.Fragment key={element.position}>
+                {delimiters.element}
+                {element.components.length > 0 ? (
+                  <span
+                    className="annotated-composite"
+                    onMouseEnter={() => setHovered({ kind: 'element', segment, element })}
+                    onClick={() => selectElement(element.spec)}
+                  >
+                    {element.components.map((component, i) => (
+                      <React.Fragment key={component.position}>
+                        {i > 0 && delimiters.component}
+                        {renderValue(segment, component, element)}
+                      </React.Fragment>
+                    ))}
+                  </span>
+                ) : (
+                  renderValue(segment, element)
+                )}
+              </React.Fragment>
+            ))}
+            {delimiters.segment}
+          </div>
+        ))}
+      </div>
+      <div className="annotation-details">
+        {hovered ? (
+          <HoverDetails target={hovered} />
+        ) : (
+          <span className="text-muted text-sm">
+            Hover over a segment or element for its specification details; click to show it in the structure.
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function IssueList({ issues }: { issues: AnnotatedValue['issues'] }) {
+  if (issues.length === 0) return null;
+  return (
+    <ul className="validation-list" style={{ marginTop: '6px' }}>
+      {issues.map((issue, i) => (
+        <li key={i} className={`validation-issue ${issue.severity}`}>
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function HoverDetails({ target }: { target: HoverTarget }) {
+  const { segment } = target;
+  const segmentId = segment.segment.id;
+
+  if (target.kind === 'segment') {
+    if (!segment.spec) {
+      return (
+        <div className="text-sm">
+          <strong>{segmentId}</strong>{' '}
+          {segment.control ? 'Envelope or control segment' : 'Not expected at this position in the specification'}
+          <IssueList issues={segment.issues} />
+        </div>
+      );
+    }
+    const { spec } = segment;
+    return (
+      <div className="text-sm">
+        <strong>{spec.name}</strong> {spec.description}{' '}
+        <span className={`usage-badge ${USAGE_CLASSES[spec.usage]}`}>{USAGE_LABELS[spec.usage]}</span>
+        <div className="text-muted">
+          {segment.loopPath.length > 0 && `${segment.loopPath.join(' > ')} | `}
+          Max use {spec.maxUse}
+        </div>
+        <IssueList issues={segment.issues} />
+      </div>
+    );
+  }
+
+  const { element, composite } = target;
+  const ref = composite
+    ? elementRef(segmentId, composite.position, element.position)
+    : elementRef(segmentId, element.position);
+
+  if (!element.spec) {
+    return (
+      <div className="text-sm">
+        <strong>{ref}</strong> Not defined in the specification
+        <IssueList issues={element.issues} />
+      </div>
+    );
+  }
+
+  const { spec } = element;
+  const codes = (spec.codeValues || []).filter(cv => cv.included);
+  const code = codes.find(cv => cv.code === element.value);
+  const isComposite = !!spec.components && spec.components.length > 0;
+
+  return (
+    <div className="text-sm">
+      <strong>{ref}</strong> {spec.name}
+      {spec.referenceNumber && <span className="text-muted"> ({spec.referenceNumber})</span>}{' '}
+      <span className={`usage-badge ${USAGE_CLASSES[spec.usage]}`}>{USAGE_LABELS[spec.usage]}</span>
+      <div className="text-muted">
+        {isComposite ? 'Composite' : `${spec.dataType} ${spec.minLength}/${spec.maxLength}`}
+        {code && ` | ${code.code} = ${code.description}`}
+        {!code && codes.length > 0 &&
+          ` | Codes: ${codes.slice(0, 8).map(cv => cv.code).join(', ')}${codes.length > 8 ? ', ...' : ''}`}
+      </div>
+      <IssueList issues={element.issues} />
+    </div>
+  );
+}
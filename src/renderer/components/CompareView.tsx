@@ -0,0 +1,102 @@
+/**
+ * Compare View Component
+ * Shows the structural differences between the open specification and a previous version
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Specification } from '../../shared/models/edi-types';
+import { diffSpecifications, ChangeKind } from '../../shared/utils/spec-diff';
+
+interface CompareViewProps {
+  specification: Specification;
+  comparison: { specification: Specification; fileName: string } | null;
+  onChooseFile: () => void;
+  onClear: () => void;
+}
+
+export function CompareView({ specification, comparison, onChooseFile, onClear }: CompareViewProps) {
+  const [kindFilter, setKindFilter] = useState<ChangeKind | 'all'>('all');
+
+  const diff = useMemo(
+    () => (comparison ? diffSpecifications(comparison.specification, specification) : null),
+    [comparison, specification]
+  );
+
+  const changes = diff ? diff.changes.filter(c => kindFilter === 'all' || c.kind === kindFilter) : [];
+
+  return (
+    <div className="editor">
+      <div className="card">
+        <div className="card-header">
+          <h3>Compare Versions</h3>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            {comparison && (
+              <button className="btn btn-secondary btn-sm" onClick={onClear}>
+                Clear
+              </button>
+            )}
+            <button className="btn btn-primary btn-sm" onClick={onChooseFile}>
+              {comparison ? 'Choose Another...' : 'Choose Previous Version...'}
+            </button>
+          </div>
+        </div>
+        <div className="card-body">
+          {!comparison || !diff ? (
+            <div className="welcome-screen" style={{ padding: '40px', minHeight: 'auto' }}>
+              <p>
+                Choose a previous version of this specification to see added, removed and changed loops,
+                segments, elements and codes.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between mb-4">
+                <p className="text-muted" style={{ margin: 0 }}>
+                  {comparison.fileName} (version {comparison.specification.metadata.version}) → version{' '}
+                  {specification.metadata.version}: {diff.summary.added} added, {diff.summary.removed} removed,{' '}
+                  {diff.summary.changed} changed
+                </p>
+                <select
+                  className="form-select"
+                  style={{ width: '140px', padding: '4px 8px' }}
+                  value={kindFilter}
+                  onChange={e => setKindFilter(e.target.value as ChangeKind | 'all')}
+                >
+                  <option value="all">All changes</option>
+                  <option value="added">Added</option>
+                  <option value="removed">Removed</option>
+                  <option value="changed">Changed</option>
+                </select>
+              </div>
+
+              {changes.length === 0 ? (
+                <p className="text-muted">No differences found.</p>
+              ) : (
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th style={{ width: '90px' }}>Change</th>
+                      <th>Location</th>
+                      <th>Description</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map((change, index) => (
+                      <tr key={index}>
+                        <td>
+                          <span className={`change-badge ${change.kind}`}>{change.kind}</span>
+                        </td>
+                        <td className="font-mono">{change.path.join(' › ')}</td>
+                        <td>{change.description}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
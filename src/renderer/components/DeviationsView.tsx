@@ -0,0 +1,100 @@
+/**
+ * Deviations View Component
+ * Lists every place the guide departs from the base X12 standard
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Specification } from '../../shared/models/edi-types';
+import { findDeviations, DeviationKind } from '../../shared/utils/deviations';
+import { TreeSelection } from './TreeNavigation';
+
+interface DeviationsViewProps {
+  specification: Specification;
+  onSelect: (selection: TreeSelection) => void;
+}
+
+const KIND_LABELS: Record<DeviationKind, string> = {
+  usage: 'Usage',
+  repeat: 'Repeat',
+  'code-excluded': 'Codes excluded',
+  'code-added': 'Codes added',
+};
+
+export function DeviationsView({ specification, onSelect }: DeviationsViewProps) {
+  const [kindFilter, setKindFilter] = useState<DeviationKind | 'all'>('all');
+
+  const deviations = useMemo(() => findDeviations(specification), [specification]);
+  const visible = deviations.filter(d => kindFilter === 'all' || d.kind === kindFilter);
+
+  return (
+    <div className="editor">
+      <div className="card">
+        <div className="card-header">
+          <h3>Differences from the X12 Standard</h3>
+        </div>
+        <div className="card-body">
+          {!specification.metadata.baseSpecReference && deviations.length === 0 ? (
+            <div className="welcome-screen" style={{ padding: '40px', minHeight: 'auto' }}>
+              <p>
+                This specification has no base standard to compare against. Import from OpenEDI or OpenAPI to track
+                usage, repeat and code list changes against the X12 standard.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between mb-4">
+                <p className="text-muted" style={{ margin: 0 }}>
+                  {specification.metadata.baseSpecReference && `Compared with ${specification.metadata.baseSpecReference}: `}
+                  {deviations.length} {deviations.length === 1 ? 'difference' : 'differences'}
+                </p>
+                <select
+                  className="form-select"
+                  style={{ width: '160px', padding: '4px 8px' }}
+                  value={kindFilter}
+                  onChange={e => setKindFilter(e.target.value as DeviationKind | 'all')}
+                >
+                  <option value="all">All differences</option>
+                  {(Object.keys(KIND_LABELS) as DeviationKind[]).map(kind => (
+                    <option key={kind} value={kind}>
+                      {KIND_LABELS[kind]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {visible.length === 0 ? (
+                <p className="text-muted">No differences from the standard.</p>
+              ) : (
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th style={{ width: '120px' }}>Type</th>
+                      <th>Location</th>
+                      <th>Description</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visible.map((deviation, index) => (
+                      <tr
+                        key={index}
+                        style={{ cursor: 'pointer' }}
+                        title="Show in structure"
+                        onClick={() => onSelect({ type: deviation.target, id: deviation.nodeId })}
+                      >
+                        <td>
+                          <span className={`change-badge ${deviation.kind}`}>{KIND_LABELS[deviation.kind]}</span>
+                        </td>
+                        <td className="font-mono">{deviation.path.join(' › ')}</td>
+                        <td>{deviation.description}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,23 +5,33 @@
 
 import React, { useCallback, useState } from 'react';
 import { Specification, Loop, Segment, Element, CodeValue } from '../../shared/models/edi-types';
+import { v4 as uuidv4 } from 'uuid';
 import { UsageSelect } from './UsageSelect';
 
 interface ElementEditorProps {
   element: Element;
   path: string[];
   specification: Specification;
-  onUpdate: (updater: (spec: Specification) => Specification) => void;
+  onUpdate: (updater: (spec: Specification) => Specification, label?: string) => void;
 }
 
 export function ElementEditor({ element, path, specification, onUpdate }: ElementEditorProps) {
   const updateElement = useCallback(
-    (updates: Partial<Element>) => {
+    (updates: Partial<Element>, label?: string) => {
       onUpdate(spec => {
+        // Element ids after the segment id: [element] or [composite, component]
+        const updateInElements = (elements: Element[], ids: string[]): Element[] => {
+          return elements.map(el => {
+            if (el.id !== ids[0]) return el;
+            if (ids.length === 1) return { ...el, ...updates };
+            return { ...el, components: updateInElements(el.components || [], ids.slice(1)) };
+          });
+        };
+
         const updateInLoops = (loops: Loop[], targetPath: string[], depth: number): Loop[] => {
           return loops.map(loop => {
             if (loop.id === targetPath[depth]) {
-              if (depth === targetPath.length - 3) {
+              if (loop.segments.some(seg => seg.id === targetPath[depth + 1])) {
                 // We're at the loop containing the segment
                 return {
                   ...loop,
@@ -29,9 +39,7 @@ export function ElementEditor({ element, path, specification, onUpdate }: Elemen
                     if (seg.id === targetPath[depth + 1]) {
                       return {
                         ...seg,
-                        elements: seg.elements.map(el =>
-                          el.id === targetPath[depth + 2] ? { ...el, ...updates } : el
-                        ),
+                        elements: updateInElements(seg.elements, targetPath.slice(depth + 2)),
                       };
                     }
                     return seg;
@@ -47,17 +55,52 @@ export function ElementEditor({ element, path, specification, onUpdate }: Elemen
           });
         };
         return { ...spec, loops: updateInLoops(spec.loops, path, 0) };
-      });
+      }, label);
     },
     [onUpdate, path]
   );
 
+  const isComponent = findParentSegment(specification, path)?.elements.every(el => el.id !== element.id) ?? false;
+
+  const handleAddComponent = useCallback(() => {
+    const components = element.components || [];
+    const newComponent: Element = {
+      id: uuidv4(),
+      position: components.length > 0 ? Math.max(...components.map(c => c.position)) + 1 : 1,
+      name: 'New Component',
+      dataType: 'AN',
+      minLength: 1,
+      maxLength: 50,
+      usage: 'O',
+    };
+    updateElement({ components: [...components, newComponent] }, `Add component to ${element.name}`);
+  }, [element.name, element.components, updateElement]);
+
+  const handleUpdateComponent = useCallback(
+    (componentId: string, updates: Partial<Element>) => {
+      const components = (element.components || []).map(c =>
+        c.id === componentId ? { ...c, ...updates } : c
+      );
+      updateElement({ components });
+    },
+    [element.components, updateElement]
+  );
+
+  const handleDeleteComponent = useCallback(
+    (componentId: string) => {
+      const components = (element.components || []).filter(c => c.id !== componentId);
+      updateElement({ components: components.length > 0 ? components : undefined }, 'Delete component');
+    },
+    [element.components, updateElement]
+  );
+
   const handleToggleCode = useCallback(
     (codeValue: string) => {
       const codeValues = (element.codeValues || []).map(c =>
         c.code === codeValue ? { ...c, included: !c.included } : c
       );
-      updateElement({ codeValues });
+      const wasIncluded = element.codeValues?.find(c => c.code === codeValue)?.included;
+      updateElement({ codeValues }, `${wasIncluded ? 'Exclude' : 'Include'} code ${codeValue}`);
     },
     [element.codeValues, updateElement]
   );
@@ -79,7 +122,7 @@ export function ElementEditor({ element, path, specification, onUpdate }: Elemen
       included: true,
       isCustomDescription: true,
     };
-    updateElement({ codeValues: [...(element.codeValues || []), newCode] });
+    updateElement({ codeValues: [...(element.codeValues || []), newCode] }, 'Add code');
   }, [element.codeValues, updateElement]);
 
   const handleUpdateCode = useCallback(
@@ -95,19 +138,19 @@ export function ElementEditor({ element, path, specification, onUpdate }: Elemen
   const handleDeleteCode = useCallback(
     (index: number) => {
       const codeValues = (element.codeValues || []).filter((_, i) => i !== index);
-      updateElement({ codeValues });
+      updateElement({ codeValues }, 'Delete code');
     },
     [element.codeValues, updateElement]
   );
 
   const handleSelectAllCodes = useCallback(() => {
     const codeValues = (element.codeValues || []).map(c => ({ ...c, included: true }));
-    updateElement({ codeValues });
+    updateElement({ codeValues }, 'Include all codes');
   }, [element.codeValues, updateElement]);
 
   const handleDeselectAllCodes = useCallback(() => {
     const codeValues = (element.codeValues || []).map(c => ({ ...c, included: false }));
-    updateElement({ codeValues });
+    updateElement({ codeValues }, 'Exclude all codes');
   }, [element.codeValues, updateElement]);
 
   const [codeFilter, setCodeFilter] = useState('');
@@ -134,7 +177,7 @@ export function ElementEditor({ element, path, specification, onUpdate }: Elemen
         <div className="card-body">
           <div className="section">
             <h4 className="section-title">Basic Properties</h4>
-            <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '16px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 2fr', gap: '16px' }}>
               <div className="form-group">
                 <label className="form-label">Position</label>
                 <input
@@ -145,6 +188,16 @@ export function ElementEditor({ element, path, specification, onUpdate }: Elemen
                   min={1}
                 />
               </div>
+              <div className="form-group">
+                <label className="form-label">Reference Number</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={element.referenceNumber || ''}
+                  onChange={e => updateElement({ referenceNumber: e.target.value.trim() || undefined })}
+                  placeholder={element.components ? 'e.g., C003' : 'e.g., 98'}
+                />
+              </div>
               <div className="form-group">
                 <label className="form-label">Name</label>
                 <input
@@ -246,6 +299,48 @@ export function ElementEditor({ element, path, specification, onUpdate }: Elemen
             </div>
           </div>
 
+          {!isComponent && (
+            <div className="section">
+              <div className="flex items-center justify-between mb-4">
+                <h4 className="section-title" style={{ marginBottom: 0, borderBottom: 'none', paddingBottom: 0 }}>
+                  Components ({(element.components || []).length})
+                </h4>
+                <button className="btn btn-secondary btn-sm" onClick={handleAddComponent}>
+                  + Add Component
+                </button>
+              </div>
+              {element.components && element.components.length > 0 ? (
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th style={{ width: '50px' }}>Pos</th>
+                      <th>Name</th>
+                      <th style={{ width: '80px' }}>Type</th>
+                      <th style={{ width: '100px' }}>Length</th>
+                      <th style={{ width: '80px' }}>Usage</th>
+                      <th style={{ width: '60px' }}>Codes</th>
+                      <th style={{ width: '60px' }}></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {element.components.map(component => (
+                      <ComponentRow
+                        key={component.id}
+                        component={component}
+                        onUpdate={updates => handleUpdateComponent(component.id, updates)}
+                        onDelete={() => handleDeleteComponent(component.id)}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-muted text-sm">
+                  Add components to describe a composite element (e.g., C003 Composite Medical Procedure Identifier).
+                </p>
+              )}
+            </div>
+          )}
+
           {(element.codeValues && element.codeValues.length > 0) || element.dataType === 'ID' ? (
             <div className="section">
               <div className="flex items-center justify-between mb-4">
@@ -337,3 +432,107 @@ export function ElementEditor({ element, path, specification, onUpdate }: Elemen
     </div>
   );
 }
+
+function findParentSegment(specification: Specification, path: string[]): Segment | null {
+  for (const id of path) {
+    const segment = findSegmentById(specification.loops, id);
+    if (segment) return segment;
+  }
+  return null;
+}
+
+function findSegmentById(loops: Loop[], segmentId: string): Segment | null {
+  for (const loop of loops) {
+    const segment = loop.segments.find(s => s.id === segmentId);
+    if (segment) return segment;
+    const nested = findSegmentById(loop.loops, segmentId);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+interface ComponentRowProps {
+  component: Element;
+  onUpdate: (updates: Partial<Element>) => void;
+  onDelete: () => void;
+}
+
+function ComponentRow({ component, onUpdate, onDelete }: ComponentRowProps) {
+  return (
+    <tr>
+      <td>
+        <input
+          type="number"
+          className="form-input"
+          style={{ width: '50px', padding: '4px 8px' }}
+          value={component.position}
+          onChange={e => onUpdate({ position: parseInt(e.target.value) || 1 })}
+          min={1}
+        />
+      </td>
+      <td>
+        <input
+          type="text"
+          className="form-input"
+          style={{ padding: '4px 8px' }}
+          value={component.name}
+          onChange={e => onUpdate({ name: e.target.value })}
+        />
+      </td>
+      <td>
+        <select
+          className="form-select"
+          style={{ padding: '4px 8px' }}
+          value={component.dataType}
+          onChange={e => onUpdate({ dataType: e.target.value })}
+        >
+          <option value="AN">AN</option>
+          <option value="ID">ID</option>
+          <option value="N0">N0</option>
+          <option value="N2">N2</option>
+          <option value="R">R</option>
+          <option value="DT">DT</option>
+          <option value="TM">TM</option>
+        </select>
+      </td>
+      <td>
+        <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+          <input
+            type="number"
+            className="form-input"
+            style={{ width: '45px', padding: '4px 8px' }}
+            value={component.minLength}
+            onChange={e => onUpdate({ minLength: parseInt(e.target.value) || 0 })}
+            min={0}
+          />
+          -
+          <input
+            type="number"
+            className="form-input"
+            style={{ width: '45px', padding: '4px 8px' }}
+            value={component.maxLength}
+            onChange={e => onUpdate({ maxLength: parseInt(e.target.value) || 1 })}
+            min={1}
+          />
+        </div>
+      </td>
+      <td>
+        <UsageSelect
+          value={component.usage}
+          onChange={usage => onUpdate({ usage })}
+          compact
+        />
+      </td>
+      <td style={{ textAlign: 'center' }}>
+        {component.codeValues && component.codeValues.length > 0 ? (
+          <span className="text-sm text-muted">{component.codeValues.filter(c => c.included).length}</span>
+        ) : '-'}
+      </td>
+      <td>
+        <button className="btn btn-secondary btn-sm btn-icon" onClick={onDelete} title="Delete component">
+          ×
+        </button>
+      </td>
+    </tr>
+  );
+}
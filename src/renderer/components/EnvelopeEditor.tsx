@@ -0,0 +1,224 @@
+/**
+ * Envelope Editor Component
+ * Edits the ISA/GS interchange envelope requirements of a specification
+ */
+
+import React from 'react';
+import { Specification, Envelope } from '../../shared/models/edi-types';
+import {
+  ENVELOPE_FIELDS,
+  ENVELOPE_DELIMITERS,
+  EnvelopeField,
+  createDefaultEnvelope,
+  describeDelimiter,
+  usesRepetitionSeparator,
+  validateEnvelope,
+} from '../../shared/utils/envelope';
+
+interface EnvelopeEditorProps {
+  specification: Specification;
+  onUpdate: (updater: (spec: Specification) => Specification, label?: string) => void;
+  packageEnvelope?: Envelope; // The open package's shared envelope as applied to this transaction set
+}
+
+export function EnvelopeEditor({ specification, onUpdate, packageEnvelope }: EnvelopeEditorProps) {
+  const { envelope } = specification;
+
+  if (packageEnvelope) {
+    return (
+      <div className="editor">
+        <div className="welcome-screen">
+          <h2>Shared package envelope</h2>
+          <p>This transaction set uses the interchange envelope of its package. Edit it on the Package tab.</p>
+          <p className="text-muted text-sm">
+            GS01 {packageEnvelope.functionalIdentifierCode || '(none)'} and GS08 {packageEnvelope.versionCode} are
+            taken from this transaction set.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!envelope) {
+    return (
+      <div className="editor">
+        <div className="welcome-screen">
+          <h2>No envelope requirements</h2>
+          <p>
+            Document the ISA/GS values, identifiers and delimiters partners must use when sending this transaction
+            set.
+          </p>
+          <button
+            className="btn btn-primary"
+            onClick={() =>
+              onUpdate(spec => ({ ...spec, envelope: createDefaultEnvelope(spec.metadata) }), 'Add envelope requirements')
+            }
+          >
+            Add Envelope Requirements
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const updateEnvelope = (updates: Partial<Envelope>, label?: string) => {
+    onUpdate(spec => ({
+      ...spec,
+      envelope: spec.envelope ? { ...spec.envelope, ...updates } : spec.envelope,
+    }), label);
+  };
+
+  const handleRemove = () => {
+    if (!confirm('Are you sure you want to remove the envelope requirements?')) return;
+    onUpdate(spec => ({ ...spec, envelope: undefined }), 'Remove envelope requirements');
+  };
+
+  return (
+    <div className="editor">
+      <div className="card">
+        <div className="card-header">
+          <h3>Interchange Envelope</h3>
+          <button className="btn btn-danger btn-sm" onClick={handleRemove}>
+            Remove Envelope
+          </button>
+        </div>
+        <div className="card-body">
+          <EnvelopeForm envelope={envelope} onChange={updateEnvelope} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface EnvelopeFormProps {
+  envelope: Envelope;
+  onChange: (updates: Partial<Envelope>) => void;
+  excludeFields?: Array<keyof Envelope>; // Fields another editor owns, e.g. GS01 in a package
+}
+
+// The envelope sections shared by the specification and package editors
+export function EnvelopeForm({ envelope, onChange, excludeFields = [] }: EnvelopeFormProps) {
+  const problems = validateEnvelope(envelope);
+  const fields = ENVELOPE_FIELDS.filter(f => !excludeFields.includes(f.key));
+  const delimiters = ENVELOPE_DELIMITERS.filter(
+    delimiter => delimiter.key !== 'repetitionSeparator' || usesRepetitionSeparator(envelope)
+  );
+
+  return (
+    <>
+      {problems.length > 0 && (
+        <div className="section">
+          <h4 className="section-title">Problems ({problems.length})</h4>
+          <ul className="validation-list">
+            {problems.map((problem, i) => (
+              <li key={i} className="validation-issue warning">
+                {problem}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="section">
+        <h4 className="section-title">ISA - Interchange Control Header</h4>
+        <EnvelopeFieldGrid
+          fields={fields.filter(f => f.segment === 'ISA')}
+          envelope={envelope}
+          onChange={onChange}
+        />
+      </div>
+
+      <div className="section">
+        <h4 className="section-title">GS - Functional Group Header</h4>
+        <EnvelopeFieldGrid
+          fields={fields.filter(f => f.segment === 'GS')}
+          envelope={envelope}
+          onChange={onChange}
+        />
+      </div>
+
+      <div className="section">
+        <h4 className="section-title">Delimiters</h4>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '16px' }}>
+          {delimiters.map(delimiter => (
+            <div key={delimiter.key} className="form-group">
+              <label className="form-label">{delimiter.name}</label>
+              <input
+                type="text"
+                className="form-input"
+                value={envelope[delimiter.key]}
+                maxLength={1}
+                onChange={e => onChange({ [delimiter.key]: e.target.value })}
+                aria-label={delimiter.name}
+              />
+              <span className="form-hint">{describeDelimiter(envelope[delimiter.key])}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="section">
+        <h4 className="section-title">Notes</h4>
+        <div className="form-group">
+          <textarea
+            className="form-textarea"
+            value={envelope.notes || ''}
+            onChange={e => onChange({ notes: e.target.value || undefined })}
+            placeholder="Control number rules, GE/IEA requirements, one transaction set per group..."
+          />
+        </div>
+      </div>
+    </>
+  );
+}
+
+interface EnvelopeFieldGridProps {
+  fields: EnvelopeField[];
+  envelope: Envelope;
+  onChange: (updates: Partial<Envelope>) => void;
+}
+
+function EnvelopeFieldGrid({ fields, envelope, onChange }: EnvelopeFieldGridProps) {
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
+      {fields.map(field => {
+        const label = `${field.refDes} ${field.name}`;
+        const value = envelope[field.key] || '';
+        return (
+          <div key={field.key} className="form-group">
+            <label className="form-label">{label}</label>
+            {field.options ? (
+              <select
+                className="form-select"
+                value={value}
+                onChange={e => onChange({ [field.key]: e.target.value })}
+                aria-label={label}
+              >
+                {!field.options.some(o => o.value === value) && <option value={value}>{value || '(none)'}</option>}
+                {field.options.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                className="form-input"
+                value={value}
+                maxLength={field.maxLength}
+                onChange={e => onChange({ [field.key]: e.target.value })}
+                aria-label={label}
+              />
+            )}
+            <span className="form-hint">
+              {field.minLength === field.maxLength
+                ? `${field.maxLength} characters${field.fixedLength ? ', space padded' : ''}`
+                : `${field.minLength}-${field.maxLength} characters`}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
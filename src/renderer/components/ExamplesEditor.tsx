@@ -3,16 +3,28 @@
  * Manages EDI example samples for the specification appendix
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import { Specification, ExampleEDI } from '../../shared/models/edi-types';
+import { validateInterchange, ValidationResult } from '../../shared/utils/x12-validator';
+import { generateSampleX12, SampleScope } from '../../shared/utils/x12-generator';
+import { AnnotatedExample } from './AnnotatedExample';
+import { TreeSelection } from './TreeNavigation';
 import { v4 as uuidv4 } from 'uuid';
 
 interface ExamplesEditorProps {
   specification: Specification;
-  onUpdate: (updater: (spec: Specification) => Specification) => void;
+  onUpdate: (updater: (spec: Specification) => Specification, label?: string) => void;
+  onSelect?: (selection: TreeSelection) => void;
 }
 
-export function ExamplesEditor({ specification, onUpdate }: ExamplesEditorProps) {
+const SAMPLE_TITLES: Record<SampleScope, string> = {
+  mandatory: 'Sample (mandatory segments only)',
+  all: 'Sample (all segments)',
+};
+
+export function ExamplesEditor({ specification, onUpdate, onSelect }: ExamplesEditorProps) {
+  const [sampleScope, setSampleScope] = useState<SampleScope>('mandatory');
+
   const handleAddExample = useCallback(() => {
     const newExample: ExampleEDI = {
       id: uuidv4(),
@@ -23,9 +35,22 @@ export function ExamplesEditor({ specification, onUpdate }: ExamplesEditorProps)
     onUpdate(spec => ({
       ...spec,
       examples: [...spec.examples, newExample],
-    }));
+    }), 'Add example');
   }, [specification.examples.length, onUpdate]);
 
+  const handleGenerateSample = useCallback(() => {
+    const newExample: ExampleEDI = {
+      id: uuidv4(),
+      title: SAMPLE_TITLES[sampleScope],
+      description: 'Generated from the specification',
+      content: generateSampleX12(specification, { scope: sampleScope }),
+    };
+    onUpdate(spec => ({
+      ...spec,
+      examples: [...spec.examples, newExample],
+    }), 'Generate sample');
+  }, [specification, sampleScope, onUpdate]);
+
   const handleUpdateExample = useCallback(
     (exampleId: string, updates: Partial<ExampleEDI>) => {
       onUpdate(spec => ({
@@ -44,7 +69,7 @@ export function ExamplesEditor({ specification, onUpdate }: ExamplesEditorProps)
       onUpdate(spec => ({
         ...spec,
         examples: spec.examples.filter(ex => ex.id !== exampleId),
-      }));
+      }), 'Delete example');
     },
     [onUpdate]
   );
@@ -62,7 +87,7 @@ export function ExamplesEditor({ specification, onUpdate }: ExamplesEditorProps)
         [newExamples[index], newExamples[newIndex]] = [newExamples[newIndex], newExamples[index]];
 
         return { ...spec, examples: newExamples };
-      });
+      }, 'Move example');
     },
     [onUpdate]
   );
@@ -72,14 +97,30 @@ export function ExamplesEditor({ specification, onUpdate }: ExamplesEditorProps)
       <div className="card">
         <div className="card-header">
           <h3>EDI Examples</h3>
-          <button className="btn btn-primary btn-sm" onClick={handleAddExample}>
-            + Add Example
-          </button>
+          <div className="flex gap-2">
+            <select
+              className="form-select"
+              style={{ padding: '4px 8px', width: 'auto' }}
+              value={sampleScope}
+              onChange={e => setSampleScope(e.target.value as SampleScope)}
+              aria-label="Sample scope"
+            >
+              <option value="mandatory">Mandatory segments only</option>
+              <option value="all">All segments</option>
+            </select>
+            <button className="btn btn-secondary btn-sm" onClick={handleGenerateSample}>
+              Generate Sample
+            </button>
+            <button className="btn btn-primary btn-sm" onClick={handleAddExample}>
+              + Add Example
+            </button>
+          </div>
         </div>
         <div className="card-body">
           <p className="text-muted mb-4">
             Add example EDI transactions to include in the specification appendix.
             Examples help trading partners understand expected message formats.
+            Generate Sample builds a complete interchange from the specification as a starting point.
           </p>
 
           {specification.examples.length === 0 ? (
@@ -94,7 +135,9 @@ export function ExamplesEditor({ specification, onUpdate }: ExamplesEditorProps)
                   example={example}
                   index={index}
                   total={specification.examples.length}
+                  specification={specification}
                   onUpdate={updates => handleUpdateExample(example.id, updates)}
+                  onSelect={onSelect}
                   onDelete={() => handleDeleteExample(example.id)}
                   onMoveUp={() => handleMoveExample(example.id, 'up')}
                   onMoveDown={() => handleMoveExample(example.id, 'down')}
@@ -112,7 +155,9 @@ interface ExampleCardProps {
   example: ExampleEDI;
   index: number;
   total: number;
+  specification: Specification;
   onUpdate: (updates: Partial<ExampleEDI>) => void;
+  onSelect?: (selection: TreeSelection) => void;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
@@ -122,11 +167,22 @@ function ExampleCard({
   example,
   index,
   total,
+  specification,
   onUpdate,
+  onSelect,
   onDelete,
   onMoveUp,
   onMoveDown,
 }: ExampleCardProps) {
+  // Results are kept with the specification they were checked against, so any edit hides them
+  const [validated, setValidated] = useState<{ specification: Specification; result: ValidationResult } | null>(null);
+  const [annotated, setAnnotated] = useState(false);
+  const validation = validated?.specification === specification ? validated.result : null;
+
+  const handleValidate = () => {
+    setValidated({ specification, result: validateInterchange(example.content, specification) });
+  };
+
   return (
     <div className="card" style={{ boxShadow: 'none', border: '1px solid var(--color-border)' }}>
       <div className="card-header" style={{ backgroundColor: 'var(--color-bg-alt)' }}>
@@ -142,6 +198,20 @@ function ExampleCard({
           />
         </div>
         <div className="flex gap-2">
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={() => setAnnotated(!annotated)}
+            disabled={!annotated && !example.content.trim()}
+          >
+            {annotated ? 'Edit' : 'Annotate'}
+          </button>
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={handleValidate}
+            disabled={!example.content.trim()}
+          >
+            Validate
+          </button>
           <button
             className="btn btn-secondary btn-sm btn-icon"
             onClick={onMoveUp}
@@ -176,25 +246,64 @@ function ExampleCard({
         </div>
         <div className="form-group">
           <label className="form-label">EDI Content</label>
-          <textarea
-            className="form-textarea font-mono"
-            style={{ minHeight: '200px', fontSize: '12px', lineHeight: 1.4 }}
-            value={example.content}
-            onChange={e => onUpdate({ content: e.target.value })}
-            placeholder="ISA*00*          *00*          *ZZ*SENDERID       *ZZ*RECEIVERID     *230101*1200*^*00501*000000001*0*P*:~
+          {annotated ? (
+            <AnnotatedExample specification={specification} content={example.content} onSelect={onSelect} />
+          ) : (
+            <>
+              <textarea
+                className="form-textarea font-mono"
+                style={{ minHeight: '200px', fontSize: '12px', lineHeight: 1.4 }}
+                value={example.content}
+                onChange={e => onUpdate({ content: e.target.value })}
+                placeholder="ISA*00*          *00*          *ZZ*SENDERID       *ZZ*RECEIVERID     *230101*1200*^*00501*000000001*0*P*:~
 GS*IN*SENDERID*RECEIVERID*20230101*1200*1*X*005010~
 ST*810*0001~
 ...
 SE*10*0001~
 GE*1*1~
 IEA*1*000000001~"
-            spellCheck={false}
-          />
-          <span className="form-hint">
-            Enter the complete EDI interchange (ISA through IEA). Content will be preserved exactly as entered.
-          </span>
+                spellCheck={false}
+              />
+              <span className="form-hint">
+                Enter the complete EDI interchange (ISA through IEA). Content will be preserved exactly as entered.
+              </span>
+            </>
+          )}
         </div>
+        {validation && <ValidationResults result={validation} />}
       </div>
     </div>
   );
 }
+
+function ValidationResults({ result }: { result: ValidationResult }) {
+  if (result.issues.length === 0) {
+    return <p className="validation-summary valid">No issues found. This example conforms to the specification.</p>;
+  }
+
+  const errorCount = result.issues.filter(i => i.severity === 'error').length;
+  const warningCount = result.issues.length - errorCount;
+
+  return (
+    <div>
+      <p className={`validation-summary ${result.valid ? 'valid' : 'invalid'}`}>
+        {errorCount} error(s), {warningCount} warning(s)
+      </p>
+      <ul className="validation-list">
+        {result.issues.map((issue, i) => (
+          <li key={i} className={`validation-issue ${issue.severity}`}>
+            <span className="font-mono text-sm">
+              {issue.segmentIndex >= 0 && `#${issue.segmentIndex + 1} `}
+              {issue.segmentId}
+              {issue.elementPosition !== undefined && String(issue.elementPosition).padStart(2, '0')}
+            </span>
+            {issue.loopPath.length > 0 && (
+              <span className="text-muted text-sm"> [{issue.loopPath.join(' > ')}]</span>
+            )}
+            <span> {issue.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
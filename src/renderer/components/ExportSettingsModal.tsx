@@ -0,0 +1,120 @@
+/**
+ * Export Settings Modal
+ * Dialog for choosing optional PDF sections before export
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Specification, PDFExportOptions } from '../../shared/models/edi-types';
+import { findDeviations } from '../../shared/utils/deviations';
+import { findVariantConflicts } from '../../shared/utils/variants';
+
+interface ExportSettingsModalProps {
+  specification: Specification;
+  comparison: { specification: Specification; fileName: string } | null;
+  onClose: () => void;
+  onExport: (options: PDFExportOptions) => void;
+}
+
+export function ExportSettingsModal({ specification, comparison, onClose, onExport }: ExportSettingsModalProps) {
+  const deviationCount = useMemo(() => findDeviations(specification).length, [specification]);
+  const variantConflicts = useMemo(() => findVariantConflicts(specification), [specification]);
+  const [includeChangeSummary, setIncludeChangeSummary] = useState(!!comparison);
+  const [includeDeviations, setIncludeDeviations] = useState(false);
+  const [annotateExamples, setAnnotateExamples] = useState(false);
+  const hasExamples = specification.examples.length > 0;
+
+  const handleExport = () => {
+    onExport({
+      previousVersion: includeChangeSummary && comparison ? comparison.specification : undefined,
+      includeDeviations: includeDeviations && deviationCount > 0,
+      annotateExamples: annotateExamples && hasExamples,
+    });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Export PDF</h3>
+          <button className="btn btn-secondary btn-sm btn-icon" onClick={onClose}>
+            ×
+          </button>
+        </div>
+        <div className="modal-body">
+          {variantConflicts.length > 0 && (
+            <div className="form-group">
+              <label className="form-label">Variant Warnings</label>
+              <ul className="validation-list">
+                {variantConflicts.flatMap(report =>
+                  report.conflicts.map((conflict, i) => (
+                    <li key={`${report.nodeId}-${i}`} className="validation-issue warning">
+                      {report.label}: {conflict.message}
+                    </li>
+                  ))
+                )}
+              </ul>
+              <span className="form-hint">Readers may not be able to tell which variant applies. You can still export.</span>
+            </div>
+          )}
+          <div className="form-group">
+            <label style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+              <input
+                type="checkbox"
+                checked={includeChangeSummary}
+                disabled={!comparison}
+                onChange={e => setIncludeChangeSummary(e.target.checked)}
+              />
+              Append Summary of Changes
+            </label>
+            <span className="form-hint">
+              {comparison
+                ? `Compared with ${comparison.fileName} (version ${comparison.specification.metadata.version})`
+                : 'Load a previous version on the Compare tab to include a summary of changes'}
+            </span>
+          </div>
+          <div className="form-group">
+            <label style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+              <input
+                type="checkbox"
+                checked={includeDeviations}
+                disabled={deviationCount === 0}
+                onChange={e => setIncludeDeviations(e.target.checked)}
+              />
+              Append Differences from the X12 Standard
+            </label>
+            <span className="form-hint">
+              {deviationCount > 0
+                ? `${deviationCount} ${deviationCount === 1 ? 'difference' : 'differences'} from the base standard`
+                : 'No differences from the base standard'}
+            </span>
+          </div>
+          <div className="form-group">
+            <label className="form-label">Examples</label>
+            <select
+              className="form-select"
+              value={annotateExamples ? 'annotated' : 'plain'}
+              disabled={!hasExamples}
+              onChange={e => setAnnotateExamples(e.target.value === 'annotated')}
+            >
+              <option value="plain">Plain EDI text</option>
+              <option value="annotated">Annotated with segment and element details</option>
+            </select>
+            <span className="form-hint">
+              {hasExamples
+                ? 'Annotated examples follow each segment with its name and key element values'
+                : 'This specification has no examples'}
+            </span>
+          </div>
+        </div>
+        <div className="modal-footer">
+          <button className="btn btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={handleExport}>
+            Export PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
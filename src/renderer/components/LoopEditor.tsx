@@ -6,19 +6,20 @@
 import React, { useCallback } from 'react';
 import { Specification, Loop, Segment, Variant, UsageType } from '../../shared/models/edi-types';
 import { v4 as uuidv4 } from 'uuid';
+import { analyzeVariants } from '../../shared/utils/variants';
 import { UsageSelect } from './UsageSelect';
-import { VariantEditor } from './VariantEditor';
+import { VariantEditor, VariantConflicts } from './VariantEditor';
 
 interface LoopEditorProps {
   loop: Loop;
   path: string[];
   specification: Specification;
-  onUpdate: (updater: (spec: Specification) => Specification) => void;
+  onUpdate: (updater: (spec: Specification) => Specification, label?: string) => void;
 }
 
 export function LoopEditor({ loop, path, specification, onUpdate }: LoopEditorProps) {
   const updateLoop = useCallback(
-    (updates: Partial<Loop>) => {
+    (updates: Partial<Loop>, label?: string) => {
       onUpdate(spec => {
         const updateLoopInTree = (loops: Loop[], targetPath: string[], depth: number): Loop[] => {
           return loops.map(l => {
@@ -35,7 +36,7 @@ export function LoopEditor({ loop, path, specification, onUpdate }: LoopEditorPr
           });
         };
         return { ...spec, loops: updateLoopInTree(spec.loops, path, 0) };
-      });
+      }, label);
     },
     [onUpdate, path]
   );
@@ -50,8 +51,8 @@ export function LoopEditor({ loop, path, specification, onUpdate }: LoopEditorPr
       maxUse: 1,
       elements: [],
     };
-    updateLoop({ segments: [...loop.segments, newSegment] });
-  }, [loop.segments, updateLoop]);
+    updateLoop({ segments: [...loop.segments, newSegment] }, `Add segment to ${loop.name}`);
+  }, [loop.name, loop.segments, updateLoop]);
 
   const handleAddNestedLoop = useCallback(() => {
     const newLoop: Loop = {
@@ -64,8 +65,8 @@ export function LoopEditor({ loop, path, specification, onUpdate }: LoopEditorPr
       segments: [],
       loops: [],
     };
-    updateLoop({ loops: [...loop.loops, newLoop] });
-  }, [loop.loops, updateLoop]);
+    updateLoop({ loops: [...loop.loops, newLoop] }, `Add loop to ${loop.name}`);
+  }, [loop.name, loop.loops, updateLoop]);
 
   const handleAddVariant = useCallback(() => {
     const newVariant: Variant = {
@@ -73,7 +74,7 @@ export function LoopEditor({ loop, path, specification, onUpdate }: LoopEditorPr
       label: 'New Variant',
       discriminators: [],
     };
-    updateLoop({ variants: [...(loop.variants || []), newVariant] });
+    updateLoop({ variants: [...(loop.variants || []), newVariant] }, 'Add variant');
   }, [loop.variants, updateLoop]);
 
   const handleUpdateVariant = useCallback(
@@ -88,8 +89,9 @@ export function LoopEditor({ loop, path, specification, onUpdate }: LoopEditorPr
 
   const handleDeleteVariant = useCallback(
     (variantId: string) => {
+      const variant = (loop.variants || []).find(v => v.id === variantId);
       const variants = (loop.variants || []).filter(v => v.id !== variantId);
-      updateLoop({ variants });
+      updateLoop({ variants }, `Delete variant ${variant?.label ?? ''}`.trim());
     },
     [loop.variants, updateLoop]
   );
@@ -110,17 +112,19 @@ export function LoopEditor({ loop, path, specification, onUpdate }: LoopEditorPr
         });
       };
       return { ...spec, loops: deleteFromLoops(spec.loops, path, 0) };
-    });
-  }, [onUpdate, path]);
+    }, `Delete loop ${loop.name}`);
+  }, [onUpdate, path, loop.name]);
 
   const handleDeleteSegment = useCallback((segmentId: string) => {
     if (!confirm('Are you sure you want to delete this segment?')) return;
-    updateLoop({ segments: loop.segments.filter(s => s.id !== segmentId) });
+    const segment = loop.segments.find(s => s.id === segmentId);
+    updateLoop({ segments: loop.segments.filter(s => s.id !== segmentId) }, `Delete segment ${segment?.name ?? ''}`.trim());
   }, [loop.segments, updateLoop]);
 
   const handleDeleteNestedLoop = useCallback((loopId: string) => {
     if (!confirm('Are you sure you want to delete this nested loop?')) return;
-    updateLoop({ loops: loop.loops.filter(l => l.id !== loopId) });
+    const nested = loop.loops.find(l => l.id === loopId);
+    updateLoop({ loops: loop.loops.filter(l => l.id !== loopId) }, `Delete loop ${nested?.name ?? ''}`.trim());
   }, [loop.loops, updateLoop]);
 
   // Drag and drop state
@@ -150,16 +154,16 @@ export function LoopEditor({ loop, path, specification, onUpdate }: LoopEditorPr
       const newSegments = [...loop.segments];
       const [removed] = newSegments.splice(sourceIndex, 1);
       newSegments.splice(targetIndex, 0, removed);
-      updateLoop({ segments: newSegments });
+      updateLoop({ segments: newSegments }, `Reorder segments in ${loop.name}`);
     } else {
       const newLoops = [...loop.loops];
       const [removed] = newLoops.splice(sourceIndex, 1);
       newLoops.splice(targetIndex, 0, removed);
-      updateLoop({ loops: newLoops });
+      updateLoop({ loops: newLoops }, `Reorder loops in ${loop.name}`);
     }
 
     dragItem.current = null;
-  }, [loop.segments, loop.loops, updateLoop]);
+  }, [loop.name, loop.segments, loop.loops, updateLoop]);
 
   return (
     <div className="editor">
@@ -270,10 +274,12 @@ export function LoopEditor({ loop, path, specification, onUpdate }: LoopEditorPr
                 + Add Variant
               </button>
             </div>
+            <VariantConflicts conflicts={analyzeVariants(loop.variants || [], loop.segments[0])} />
             {(loop.variants || []).map(variant => (
               <VariantEditor
                 key={variant.id}
                 variant={variant}
+                segments={loop.segments}
                 onUpdate={updates => handleUpdateVariant(variant.id, updates)}
                 onDelete={() => handleDeleteVariant(variant.id)}
               />
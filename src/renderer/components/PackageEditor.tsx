@@ -0,0 +1,244 @@
+/**
+ * Package Editor Component
+ * Edits the metadata shared by every transaction set in a package
+ */
+
+import React from 'react';
+import { SpecificationPackage, Contact, Envelope } from '../../shared/models/edi-types';
+import { createDefaultEnvelope } from '../../shared/utils/envelope';
+import { formatTransactionSetLabel, PER_TRANSACTION_ENVELOPE_FIELDS } from '../../shared/utils/spec-package';
+import { EnvelopeForm } from './EnvelopeEditor';
+import { v4 as uuidv4 } from 'uuid';
+
+interface PackageEditorProps {
+  pkg: SpecificationPackage;
+  onUpdate: (updater: (pkg: SpecificationPackage) => SpecificationPackage) => void;
+}
+
+export function PackageEditor({ pkg, onUpdate }: PackageEditorProps) {
+  const contacts = pkg.contacts || [];
+
+  const updatePackage = (updates: Partial<SpecificationPackage>) => {
+    onUpdate(current => ({ ...current, ...updates }));
+  };
+
+  const handleAddContact = () => {
+    const newContact: Contact = { id: uuidv4(), name: '' };
+    updatePackage({ contacts: [...contacts, newContact] });
+  };
+
+  const handleUpdateContact = (contactId: string, updates: Partial<Contact>) => {
+    updatePackage({ contacts: contacts.map(c => (c.id === contactId ? { ...c, ...updates } : c)) });
+  };
+
+  const handleDeleteContact = (contactId: string) => {
+    updatePackage({ contacts: contacts.filter(c => c.id !== contactId) });
+  };
+
+  // Starts from the first transaction set's envelope so its sender and receiver IDs carry over
+  const handleAddEnvelope = () => {
+    const [first] = pkg.specifications;
+    updatePackage({ envelope: { ...(first.envelope || createDefaultEnvelope(first.metadata)) } });
+  };
+
+  const handleUpdateEnvelope = (updates: Partial<Envelope>) => {
+    onUpdate(current => ({
+      ...current,
+      envelope: current.envelope ? { ...current.envelope, ...updates } : current.envelope,
+    }));
+  };
+
+  const handleRemoveEnvelope = () => {
+    if (!confirm('Are you sure you want to remove the shared envelope?')) return;
+    updatePackage({ envelope: undefined });
+  };
+
+  return (
+    <div className="editor">
+      <div className="card">
+        <div className="card-header">
+          <h3>Package</h3>
+        </div>
+        <div className="card-body">
+          <div className="section">
+            <h4 className="section-title">Basic Information</h4>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
+              <div className="form-group">
+                <label className="form-label">Package Name</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={pkg.name}
+                  onChange={e => updatePackage({ name: e.target.value })}
+                />
+              </div>
+              <div className="form-group">
+                <label className="form-label">Trading Partner</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={pkg.partner || ''}
+                  onChange={e => updatePackage({ partner: e.target.value || undefined })}
+                  placeholder="Partner name or identifier"
+                />
+                <span className="form-hint">Applies to every transaction set in the package.</span>
+              </div>
+            </div>
+            <div className="form-group">
+              <label className="form-label">Description</label>
+              <textarea
+                className="form-textarea"
+                value={pkg.description || ''}
+                onChange={e => updatePackage({ description: e.target.value || undefined })}
+                placeholder="Describe the trading relationship covered by this package..."
+              />
+            </div>
+          </div>
+
+          <div className="section">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="section-title" style={{ marginBottom: 0, borderBottom: 'none', paddingBottom: 0 }}>
+                Contacts ({contacts.length})
+              </h4>
+              <button className="btn btn-secondary btn-sm" onClick={handleAddContact}>
+                + Add Contact
+              </button>
+            </div>
+            {contacts.length > 0 ? (
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Role</th>
+                    <th>Email</th>
+                    <th style={{ width: '150px' }}>Phone</th>
+                    <th style={{ width: '50px' }}></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {contacts.map(contact => (
+                    <ContactRow
+                      key={contact.id}
+                      contact={contact}
+                      onUpdate={updates => handleUpdateContact(contact.id, updates)}
+                      onDelete={() => handleDeleteContact(contact.id)}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-muted text-sm">
+                Add the people partners should reach about this integration. Contacts are printed on the cover of
+                the package PDF.
+              </p>
+            )}
+          </div>
+
+          <div className="section">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="section-title" style={{ marginBottom: 0, borderBottom: 'none', paddingBottom: 0 }}>
+                Interchange Envelope
+              </h4>
+              {pkg.envelope ? (
+                <button className="btn btn-danger btn-sm" onClick={handleRemoveEnvelope}>
+                  Remove Envelope
+                </button>
+              ) : (
+                <button className="btn btn-secondary btn-sm" onClick={handleAddEnvelope}>
+                  + Add Shared Envelope
+                </button>
+              )}
+            </div>
+            {pkg.envelope ? (
+              <>
+                <p className="text-muted text-sm">
+                  Replaces the envelope of every transaction set. GS01 and GS08 are still taken from each
+                  transaction set.
+                </p>
+                <EnvelopeForm
+                  envelope={pkg.envelope}
+                  onChange={handleUpdateEnvelope}
+                  excludeFields={PER_TRANSACTION_ENVELOPE_FIELDS}
+                />
+              </>
+            ) : (
+              <p className="text-muted text-sm">
+                Each transaction set uses its own envelope. Add a shared envelope when the partner uses the same
+                ISA/GS settings for every transaction set.
+              </p>
+            )}
+          </div>
+
+          <div className="section">
+            <h4 className="section-title">Transaction Sets ({pkg.specifications.length})</h4>
+            <ul className="text-sm" style={{ margin: 0, paddingLeft: '20px' }}>
+              {pkg.specifications.map(spec => (
+                <li key={spec.id}>
+                  {formatTransactionSetLabel(spec)} <span className="text-muted">({spec.metadata.name})</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ContactRowProps {
+  contact: Contact;
+  onUpdate: (updates: Partial<Contact>) => void;
+  onDelete: () => void;
+}
+
+function ContactRow({ contact, onUpdate, onDelete }: ContactRowProps) {
+  return (
+    <tr>
+      <td>
+        <input
+          type="text"
+          className="form-input"
+          style={{ padding: '4px 8px' }}
+          value={contact.name}
+          onChange={e => onUpdate({ name: e.target.value })}
+          placeholder="Name"
+        />
+      </td>
+      <td>
+        <input
+          type="text"
+          className="form-input"
+          style={{ padding: '4px 8px' }}
+          value={contact.role || ''}
+          onChange={e => onUpdate({ role: e.target.value || undefined })}
+          placeholder="e.g., EDI Coordinator"
+        />
+      </td>
+      <td>
+        <input
+          type="email"
+          className="form-input"
+          style={{ padding: '4px 8px' }}
+          value={contact.email || ''}
+          onChange={e => onUpdate({ email: e.target.value || undefined })}
+          placeholder="Email"
+        />
+      </td>
+      <td>
+        <input
+          type="tel"
+          className="form-input"
+          style={{ padding: '4px 8px' }}
+          value={contact.phone || ''}
+          onChange={e => onUpdate({ phone: e.target.value || undefined })}
+          placeholder="Phone"
+        />
+      </td>
+      <td>
+        <button className="btn btn-secondary btn-sm btn-icon" onClick={onDelete} title="Delete contact">
+          ×
+        </button>
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Package Sidebar Component
+ * Lists the transaction sets of a package and switches between them
+ */
+
+import React from 'react';
+import { SpecificationPackage } from '../../shared/models/edi-types';
+
+interface PackageSidebarProps {
+  pkg: SpecificationPackage;
+  activeSpecificationId: string;
+  onSelect: (specificationId: string) => void;
+  onAdd: () => void;
+  onRemove: (specificationId: string) => void;
+}
+
+export function PackageSidebar({ pkg, activeSpecificationId, onSelect, onAdd, onRemove }: PackageSidebarProps) {
+  return (
+    <div className="package-sidebar">
+      <div className="flex items-center justify-between" style={{ padding: '0 16px 4px' }}>
+        <span className="text-sm text-muted">{pkg.name}</span>
+        <button className="btn btn-secondary btn-sm" onClick={onAdd} title="Add a transaction set to the package">
+          + Add
+        </button>
+      </div>
+      {pkg.specifications.map(spec => {
+        const isActive = spec.id === activeSpecificationId;
+        return (
+          <div
+            key={spec.id}
+            className={`tree-item-header ${isActive ? 'selected' : ''}`}
+            style={{ margin: '0 8px' }}
+            onClick={() => onSelect(spec.id)}
+            role="button"
+            aria-current={isActive ? 'true' : undefined}
+          >
+            <span className="tree-icon loop">{spec.metadata.transactionSet}</span>
+            <span className="tree-item-name">{spec.metadata.transactionSetName}</span>
+            {pkg.specifications.length > 1 && (
+              <button
+                className="btn btn-secondary btn-sm btn-icon"
+                style={{ marginLeft: 'auto' }}
+                onClick={e => {
+                  e.stopPropagation();
+                  onRemove(spec.id);
+                }}
+                title={`Remove ${spec.metadata.transactionSet} from the package`}
+              >
+                ×
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,21 +4,23 @@
  */
 
 import React, { useCallback } from 'react';
-import { Specification, Loop, Segment, Element, Variant, UsageType } from '../../shared/models/edi-types';
+import { Specification, Loop, Segment, Element, Variant, UsageType, SyntaxRule, SyntaxRuleType } from '../../shared/models/edi-types';
 import { v4 as uuidv4 } from 'uuid';
+import { SYNTAX_RULE_TYPES, describeSyntaxRule, formatSyntaxRule } from '../../shared/utils/syntax-rules';
+import { analyzeVariants } from '../../shared/utils/variants';
 import { UsageSelect } from './UsageSelect';
-import { VariantEditor } from './VariantEditor';
+import { VariantEditor, VariantConflicts } from './VariantEditor';
 
 interface SegmentEditorProps {
   segment: Segment;
   path: string[];
   specification: Specification;
-  onUpdate: (updater: (spec: Specification) => Specification) => void;
+  onUpdate: (updater: (spec: Specification) => Specification, label?: string) => void;
 }
 
 export function SegmentEditor({ segment, path, specification, onUpdate }: SegmentEditorProps) {
   const updateSegment = useCallback(
-    (updates: Partial<Segment>) => {
+    (updates: Partial<Segment>, label?: string) => {
       onUpdate(spec => {
         const updateInLoops = (loops: Loop[], targetPath: string[], depth: number): Loop[] => {
           return loops.map(loop => {
@@ -41,7 +43,7 @@ export function SegmentEditor({ segment, path, specification, onUpdate }: Segmen
           });
         };
         return { ...spec, loops: updateInLoops(spec.loops, path, 0) };
-      });
+      }, label);
     },
     [onUpdate, path]
   );
@@ -60,8 +62,8 @@ export function SegmentEditor({ segment, path, specification, onUpdate }: Segmen
       maxLength: 50,
       usage: 'O',
     };
-    updateSegment({ elements: [...segment.elements, newElement] });
-  }, [segment.elements, updateSegment]);
+    updateSegment({ elements: [...segment.elements, newElement] }, `Add element to ${segment.name}`);
+  }, [segment.name, segment.elements, updateSegment]);
 
   const handleUpdateElement = useCallback(
     (elementId: string, updates: Partial<Element>) => {
@@ -73,21 +75,95 @@ export function SegmentEditor({ segment, path, specification, onUpdate }: Segmen
     [segment.elements, updateSegment]
   );
 
-  const handleDeleteElement = useCallback(
+  const handleAddComponent = useCallback(
     (elementId: string) => {
-      const elements = segment.elements.filter(e => e.id !== elementId);
+      const elements = segment.elements.map(e => {
+        if (e.id !== elementId) return e;
+        const components = e.components || [];
+        const newComponent: Element = {
+          id: uuidv4(),
+          position: components.length > 0 ? Math.max(...components.map(c => c.position)) + 1 : 1,
+          name: 'New Component',
+          dataType: 'AN',
+          minLength: 1,
+          maxLength: 50,
+          usage: 'O',
+        };
+        return { ...e, components: [...components, newComponent] };
+      });
+      updateSegment({ elements }, 'Add component');
+    },
+    [segment.elements, updateSegment]
+  );
+
+  const handleUpdateComponent = useCallback(
+    (elementId: string, componentId: string, updates: Partial<Element>) => {
+      const elements = segment.elements.map(e =>
+        e.id === elementId
+          ? { ...e, components: (e.components || []).map(c => (c.id === componentId ? { ...c, ...updates } : c)) }
+          : e
+      );
       updateSegment({ elements });
     },
     [segment.elements, updateSegment]
   );
 
+  const handleDeleteComponent = useCallback(
+    (elementId: string, componentId: string) => {
+      const elements = segment.elements.map(e => {
+        if (e.id !== elementId) return e;
+        const components = (e.components || []).filter(c => c.id !== componentId);
+        return { ...e, components: components.length > 0 ? components : undefined };
+      });
+      updateSegment({ elements }, 'Delete component');
+    },
+    [segment.elements, updateSegment]
+  );
+
+  const handleDeleteElement = useCallback(
+    (elementId: string) => {
+      const element = segment.elements.find(e => e.id === elementId);
+      const elements = segment.elements.filter(e => e.id !== elementId);
+      updateSegment({ elements }, `Delete element ${segment.name}${String(element?.position ?? '').padStart(2, '0')}`);
+    },
+    [segment.name, segment.elements, updateSegment]
+  );
+
+  const handleAddSyntaxRule = useCallback(() => {
+    const positions = segment.elements.slice(0, 2).map(e => e.position);
+    const newRule: SyntaxRule = {
+      id: uuidv4(),
+      type: 'P',
+      positions: positions.length === 2 ? positions : [1, 2],
+    };
+    updateSegment({ syntaxRules: [...(segment.syntaxRules || []), newRule] }, 'Add syntax note');
+  }, [segment.elements, segment.syntaxRules, updateSegment]);
+
+  const handleUpdateSyntaxRule = useCallback(
+    (ruleId: string, updates: Partial<SyntaxRule>) => {
+      const syntaxRules = (segment.syntaxRules || []).map(r =>
+        r.id === ruleId ? { ...r, ...updates } : r
+      );
+      updateSegment({ syntaxRules });
+    },
+    [segment.syntaxRules, updateSegment]
+  );
+
+  const handleDeleteSyntaxRule = useCallback(
+    (ruleId: string) => {
+      const syntaxRules = (segment.syntaxRules || []).filter(r => r.id !== ruleId);
+      updateSegment({ syntaxRules: syntaxRules.length > 0 ? syntaxRules : undefined }, 'Delete syntax note');
+    },
+    [segment.syntaxRules, updateSegment]
+  );
+
   const handleAddVariant = useCallback(() => {
     const newVariant: Variant = {
       id: uuidv4(),
       label: 'New Variant',
       discriminators: [],
     };
-    updateSegment({ variants: [...(segment.variants || []), newVariant] });
+    updateSegment({ variants: [...(segment.variants || []), newVariant] }, 'Add variant');
   }, [segment.variants, updateSegment]);
 
   const handleUpdateVariant = useCallback(
@@ -102,8 +178,9 @@ export function SegmentEditor({ segment, path, specification, onUpdate }: Segmen
 
   const handleDeleteVariant = useCallback(
     (variantId: string) => {
+      const variant = (segment.variants || []).find(v => v.id === variantId);
       const variants = (segment.variants || []).filter(v => v.id !== variantId);
-      updateSegment({ variants });
+      updateSegment({ variants }, `Delete variant ${variant?.label ?? ''}`.trim());
     },
     [segment.variants, updateSegment]
   );
@@ -130,8 +207,8 @@ export function SegmentEditor({ segment, path, specification, onUpdate }: Segmen
         });
       };
       return { ...spec, loops: deleteFromLoops(spec.loops, path, 0) };
-    });
-  }, [onUpdate, path]);
+    }, `Delete segment ${segment.name}`);
+  }, [onUpdate, path, segment.name]);
 
   // Drag and drop state for elements
   const dragItem = React.useRef<number | null>(null);
@@ -156,10 +233,10 @@ export function SegmentEditor({ segment, path, specification, onUpdate }: Segmen
     const newElements = [...segment.elements];
     const [removed] = newElements.splice(sourceIndex, 1);
     newElements.splice(targetIndex, 0, removed);
-    updateSegment({ elements: newElements });
+    updateSegment({ elements: newElements }, `Reorder elements in ${segment.name}`);
 
     dragItem.current = null;
-  }, [segment.elements, updateSegment]);
+  }, [segment.name, segment.elements, updateSegment]);
 
   return (
     <div className="editor">
@@ -277,10 +354,12 @@ export function SegmentEditor({ segment, path, specification, onUpdate }: Segmen
                 + Add Variant
               </button>
             </div>
+            <VariantConflicts conflicts={analyzeVariants(segment.variants || [], segment)} />
             {(segment.variants || []).map(variant => (
               <VariantEditor
                 key={variant.id}
                 variant={variant}
+                segments={[segment]}
                 onUpdate={updates => handleUpdateVariant(variant.id, updates)}
                 onDelete={() => handleDeleteVariant(variant.id)}
               />
@@ -302,6 +381,7 @@ export function SegmentEditor({ segment, path, specification, onUpdate }: Segmen
                   <th style={{ width: '30px' }}></th>
                   <th style={{ width: '50px' }}>Pos</th>
                   <th>Name</th>
+                  <th style={{ width: '70px' }}>Ref</th>
                   <th style={{ width: '80px' }}>Type</th>
                   <th style={{ width: '100px' }}>Length</th>
                   <th style={{ width: '80px' }}>Usage</th>
@@ -311,43 +391,215 @@ export function SegmentEditor({ segment, path, specification, onUpdate }: Segmen
               </thead>
               <tbody>
                 {segment.elements.map((element, index) => (
-                  <ElementRow
-                    key={element.id}
-                    element={element}
-                    index={index}
-                    onUpdate={updates => handleUpdateElement(element.id, updates)}
-                    onDelete={() => handleDeleteElement(element.id)}
-                    onDragStart={handleDragStart}
-                    onDragOver={handleDragOver}
-                    onDrop={handleDrop}
-                  />
+                  <React.Fragment key={element.id}>
+                    <ElementRow
+                      element={element}
+                      index={index}
+                      onUpdate={updates => handleUpdateElement(element.id, updates)}
+                      onDelete={() => handleDeleteElement(element.id)}
+                      onAddComponent={() => handleAddComponent(element.id)}
+                      onDragStart={handleDragStart}
+                      onDragOver={handleDragOver}
+                      onDrop={handleDrop}
+                    />
+                    {(element.components || []).map(component => (
+                      <ElementRow
+                        key={component.id}
+                        element={component}
+                        index={index}
+                        isComponent
+                        onUpdate={updates => handleUpdateComponent(element.id, component.id, updates)}
+                        onDelete={() => handleDeleteComponent(element.id, component.id)}
+                      />
+                    ))}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
           </div>
+
+          <div className="section">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="section-title" style={{ marginBottom: 0, borderBottom: 'none', paddingBottom: 0 }}>
+                Syntax Notes ({(segment.syntaxRules || []).length})
+              </h4>
+              <button className="btn btn-secondary btn-sm" onClick={handleAddSyntaxRule}>
+                + Add Syntax Note
+              </button>
+            </div>
+            {segment.syntaxRules && segment.syntaxRules.length > 0 ? (
+              segment.syntaxRules.map(rule => (
+                <SyntaxRuleRow
+                  key={rule.id}
+                  rule={rule}
+                  segment={segment}
+                  onUpdate={updates => handleUpdateSyntaxRule(rule.id, updates)}
+                  onDelete={() => handleDeleteSyntaxRule(rule.id)}
+                />
+              ))
+            ) : (
+              <p className="text-muted text-sm">
+                Add relational conditions between elements (e.g., P0304 paired, R0203 at least one required).
+              </p>
+            )}
+          </div>
         </div>
       </div>
     </div>
   );
 }
 
+interface SyntaxRuleRowProps {
+  rule: SyntaxRule;
+  segment: Segment;
+  onUpdate: (updates: Partial<SyntaxRule>) => void;
+  onDelete: () => void;
+}
+
+function SyntaxRuleRow({ rule, segment, onUpdate, onDelete }: SyntaxRuleRowProps) {
+  const knownPositions = new Set(segment.elements.map(e => e.position));
+  const missing = rule.positions.filter(p => !knownPositions.has(p));
+
+  const handlePositionChange = (index: number, position: number) => {
+    const positions = [...rule.positions];
+    positions[index] = position;
+    onUpdate({ positions });
+  };
+
+  const handleAddPosition = () => {
+    const next = segment.elements.find(e => !rule.positions.includes(e.position));
+    onUpdate({ positions: [...rule.positions, next ? next.position : Math.max(...rule.positions) + 1] });
+  };
+
+  const handleRemovePosition = (index: number) => {
+    onUpdate({ positions: rule.positions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="card" style={{ marginBottom: '8px', padding: '12px' }}>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+        <span className="font-mono" style={{ minWidth: '70px', fontWeight: 600 }}>{formatSyntaxRule(rule)}</span>
+        <select
+          className="form-select"
+          style={{ width: '160px', padding: '4px 8px' }}
+          value={rule.type}
+          onChange={e => onUpdate({ type: e.target.value as SyntaxRuleType })}
+        >
+          {(Object.keys(SYNTAX_RULE_TYPES) as SyntaxRuleType[]).map(type => (
+            <option key={type} value={type}>
+              {type} - {SYNTAX_RULE_TYPES[type]}
+            </option>
+          ))}
+        </select>
+        {rule.positions.map((position, index) => (
+          <div key={index} style={{ display: 'flex', gap: '2px', alignItems: 'center' }}>
+            <select
+              className="form-select"
+              style={{ width: '90px', padding: '4px 8px' }}
+              value={position}
+              onChange={e => handlePositionChange(index, parseInt(e.target.value))}
+              title={segment.elements.find(el => el.position === position)?.name}
+            >
+              {!knownPositions.has(position) && (
+                <option value={position}>{segment.name}{String(position).padStart(2, '0')} ?</option>
+              )}
+              {segment.elements.map(el => (
+                <option key={el.id} value={el.position}>
+                  {segment.name}{String(el.position).padStart(2, '0')}
+                </option>
+              ))}
+            </select>
+            {rule.positions.length > 2 && (
+              <button
+                className="btn btn-secondary btn-sm btn-icon"
+                onClick={() => handleRemovePosition(index)}
+                title="Remove position"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+        <button className="btn btn-secondary btn-sm" onClick={handleAddPosition} title="Add position">
+          +
+        </button>
+        <button
+          className="btn btn-secondary btn-sm btn-icon"
+          style={{ marginLeft: 'auto' }}
+          onClick={onDelete}
+          title="Delete syntax note"
+        >
+          ×
+        </button>
+      </div>
+      <p className="text-sm text-muted" style={{ marginTop: '8px', marginBottom: 0 }}>
+        {describeSyntaxRule(rule, segment.name)}
+      </p>
+      {missing.length > 0 && (
+        <p className="text-sm" style={{ marginTop: '4px', marginBottom: 0, color: 'var(--color-danger)' }}>
+          Position {missing.map(p => String(p).padStart(2, '0')).join(', ')} is not defined in this segment
+        </p>
+      )}
+    </div>
+  );
+}
+
 interface ElementRowProps {
   element: Element;
   index: number;
+  isComponent?: boolean;
   onUpdate: (updates: Partial<Element>) => void;
   onDelete: () => void;
-  onDragStart: (e: React.DragEvent, index: number) => void;
-  onDragOver: (e: React.DragEvent) => void;
-  onDrop: (e: React.DragEvent, index: number) => void;
+  onAddComponent?: () => void;
+  onDragStart?: (e: React.DragEvent, index: number) => void;
+  onDragOver?: (e: React.DragEvent) => void;
+  onDrop?: (e: React.DragEvent, index: number) => void;
 }
 
-function ElementRow({ element, index, onUpdate, onDelete, onDragStart, onDragOver, onDrop }: ElementRowProps) {
+function ElementRow({
+  element,
+  index,
+  isComponent,
+  onUpdate,
+  onDelete,
+  onAddComponent,
+  onDragStart,
+  onDragOver,
+  onDrop,
+}: ElementRowProps) {
+  if (isComponent) {
+    return (
+      <tr style={{ backgroundColor: 'var(--color-bg)' }}>
+        <td></td>
+        <td>
+          <div style={{ display: 'flex', gap: '4px', alignItems: 'center', color: '#718096' }}>
+            ↳
+            <input
+              type="number"
+              className="form-input"
+              style={{ width: '50px', padding: '4px 8px' }}
+              value={element.position}
+              onChange={e => onUpdate({ position: parseInt(e.target.value) || 1 })}
+              min={1}
+            />
+          </div>
+        </td>
+        <ElementFieldCells element={element} onUpdate={onUpdate} />
+        <td>
+          <button className="btn btn-secondary btn-sm btn-icon" onClick={onDelete} title="Delete component">
+            ×
+          </button>
+        </td>
+      </tr>
+    );
+  }
+
   return (
     <tr
       draggable
-      onDragStart={(e) => onDragStart(e, index)}
+      onDragStart={(e) => onDragStart?.(e, index)}
       onDragOver={onDragOver}
-      onDrop={(e) => onDrop(e, index)}
+      onDrop={(e) => onDrop?.(e, index)}
       style={{ cursor: 'grab' }}
     >
       <td style={{ cursor: 'grab', color: '#718096' }}>⋮⋮</td>
@@ -361,6 +613,29 @@ function ElementRow({ element, index, onUpdate, onDelete, onDragStart, onDragOve
           min={1}
         />
       </td>
+      <ElementFieldCells element={element} onUpdate={onUpdate} />
+      <td>
+        <div style={{ display: 'flex', gap: '4px' }}>
+          <button className="btn btn-secondary btn-sm btn-icon" onClick={onAddComponent} title="Add component">
+            +
+          </button>
+          <button className="btn btn-secondary btn-sm btn-icon" onClick={onDelete} title="Delete element">
+            ×
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+interface ElementFieldCellsProps {
+  element: Element;
+  onUpdate: (updates: Partial<Element>) => void;
+}
+
+function ElementFieldCells({ element, onUpdate }: ElementFieldCellsProps) {
+  return (
+    <>
       <td>
         <input
           type="text"
@@ -370,6 +645,16 @@ function ElementRow({ element, index, onUpdate, onDelete, onDragStart, onDragOve
           onChange={e => onUpdate({ name: e.target.value })}
         />
       </td>
+      <td>
+        <input
+          type="text"
+          className="form-input"
+          style={{ width: '60px', padding: '4px 8px' }}
+          value={element.referenceNumber || ''}
+          onChange={e => onUpdate({ referenceNumber: e.target.value.trim() || undefined })}
+          title="X12 data element reference number"
+        />
+      </td>
       <td>
         <select
           className="form-select"
@@ -419,11 +704,6 @@ function ElementRow({ element, index, onUpdate, onDelete, onDragStart, onDragOve
           <span className="text-sm text-muted">{element.codeValues.filter(c => c.included).length}</span>
         ) : '-'}
       </td>
-      <td>
-        <button className="btn btn-secondary btn-sm btn-icon" onClick={onDelete} title="Delete element">
-          ×
-        </button>
-      </td>
-    </tr>
+    </>
   );
 }
@@ -4,21 +4,44 @@
  */
 
 import React from 'react';
-import { Specification } from '../../shared/models/edi-types';
+import { Specification, Revision } from '../../shared/models/edi-types';
+import { v4 as uuidv4 } from 'uuid';
 
 interface SpecificationEditorProps {
   specification: Specification;
-  onUpdate: (updater: (spec: Specification) => Specification) => void;
+  onUpdate: (updater: (spec: Specification) => Specification, label?: string) => void;
+  packagePartner?: string; // The open package's partner, which replaces this specification's own
 }
 
-export function SpecificationEditor({ specification, onUpdate }: SpecificationEditorProps) {
+export function SpecificationEditor({ specification, onUpdate, packagePartner }: SpecificationEditorProps) {
   const { metadata } = specification;
 
-  const updateMetadata = (updates: Partial<typeof metadata>) => {
+  const updateMetadata = (updates: Partial<typeof metadata>, label?: string) => {
     onUpdate(spec => ({
       ...spec,
       metadata: { ...spec.metadata, ...updates },
-    }));
+    }), label);
+  };
+
+  const revisions = metadata.revisions || [];
+
+  const handleAddRevision = () => {
+    const newRevision: Revision = {
+      id: uuidv4(),
+      version: metadata.version,
+      date: new Date().toISOString().slice(0, 10),
+      description: '',
+    };
+    updateMetadata({ revisions: [...revisions, newRevision] }, 'Add revision');
+  };
+
+  const handleUpdateRevision = (revisionId: string, updates: Partial<Revision>) => {
+    updateMetadata({ revisions: revisions.map(r => (r.id === revisionId ? { ...r, ...updates } : r)) });
+  };
+
+  const handleDeleteRevision = (revisionId: string) => {
+    const remaining = revisions.filter(r => r.id !== revisionId);
+    updateMetadata({ revisions: remaining.length > 0 ? remaining : undefined }, 'Delete revision');
   };
 
   return (
@@ -96,11 +119,16 @@ export function SpecificationEditor({ specification, onUpdate }: SpecificationEd
               <input
                 type="text"
                 className="form-input"
-                value={metadata.partner || ''}
+                value={packagePartner ?? (metadata.partner || '')}
                 onChange={e => updateMetadata({ partner: e.target.value })}
                 placeholder="Partner name or identifier"
+                disabled={packagePartner !== undefined}
               />
-              <span className="form-hint">Optional. The trading partner this specification is intended for.</span>
+              <span className="form-hint">
+                {packagePartner !== undefined
+                  ? 'Shared by every transaction set in the package. Edit it on the Package tab.'
+                  : 'Optional. The trading partner this specification is intended for.'}
+              </span>
             </div>
           </div>
 
@@ -117,6 +145,45 @@ export function SpecificationEditor({ specification, onUpdate }: SpecificationEd
             </div>
           </div>
 
+          <div className="section">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="section-title" style={{ marginBottom: 0, borderBottom: 'none', paddingBottom: 0 }}>
+                Revision History ({revisions.length})
+              </h4>
+              <button className="btn btn-secondary btn-sm" onClick={handleAddRevision}>
+                + Add Revision
+              </button>
+            </div>
+            {revisions.length > 0 ? (
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th style={{ width: '90px' }}>Version</th>
+                    <th style={{ width: '150px' }}>Date</th>
+                    <th style={{ width: '160px' }}>Author</th>
+                    <th>Description of Change</th>
+                    <th style={{ width: '50px' }}></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {revisions.map(revision => (
+                    <RevisionRow
+                      key={revision.id}
+                      revision={revision}
+                      onUpdate={updates => handleUpdateRevision(revision.id, updates)}
+                      onDelete={() => handleDeleteRevision(revision.id)}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-muted text-sm">
+                Record each published version with its date, author and a description of what changed.
+                Revisions are printed after the title page of the PDF.
+              </p>
+            )}
+          </div>
+
           <div className="section">
             <h4 className="section-title">Document Information</h4>
             <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
@@ -180,6 +247,62 @@ export function SpecificationEditor({ specification, onUpdate }: SpecificationEd
   );
 }
 
+interface RevisionRowProps {
+  revision: Revision;
+  onUpdate: (updates: Partial<Revision>) => void;
+  onDelete: () => void;
+}
+
+function RevisionRow({ revision, onUpdate, onDelete }: RevisionRowProps) {
+  return (
+    <tr>
+      <td>
+        <input
+          type="text"
+          className="form-input"
+          style={{ padding: '4px 8px' }}
+          value={revision.version}
+          onChange={e => onUpdate({ version: e.target.value })}
+        />
+      </td>
+      <td>
+        <input
+          type="date"
+          className="form-input"
+          style={{ padding: '4px 8px' }}
+          value={revision.date}
+          onChange={e => onUpdate({ date: e.target.value })}
+        />
+      </td>
+      <td>
+        <input
+          type="text"
+          className="form-input"
+          style={{ padding: '4px 8px' }}
+          value={revision.author || ''}
+          onChange={e => onUpdate({ author: e.target.value || undefined })}
+          placeholder="Author"
+        />
+      </td>
+      <td>
+        <input
+          type="text"
+          className="form-input"
+          style={{ padding: '4px 8px' }}
+          value={revision.description}
+          onChange={e => onUpdate({ description: e.target.value })}
+          placeholder="Describe the change..."
+        />
+      </td>
+      <td>
+        <button className="btn btn-secondary btn-sm btn-icon" onClick={onDelete} title="Delete revision">
+          ×
+        </button>
+      </td>
+    </tr>
+  );
+}
+
 function StatCard({ label, value }: { label: string; value: number }) {
   return (
     <div style={{
@@ -3,8 +3,9 @@
  * Displays hierarchical structure of loops, segments, and elements
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useMemo } from 'react';
 import { Specification, Loop, Segment, Element } from '../../shared/models/edi-types';
+import { Deviation, findDeviations, groupDeviationsByNode } from '../../shared/utils/deviations';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface TreeSelection {
@@ -18,7 +19,7 @@ interface TreeNavigationProps {
   expandedNodes: Set<string>;
   onSelect: (selection: TreeSelection | null) => void;
   onToggleExpand: (nodeId: string) => void;
-  onUpdate: (updater: (spec: Specification) => Specification) => void;
+  onUpdate: (updater: (spec: Specification) => Specification, label?: string) => void;
 }
 
 export function TreeNavigation({
@@ -29,6 +30,8 @@ export function TreeNavigation({
   onToggleExpand,
   onUpdate,
 }: TreeNavigationProps) {
+  const deviations = useMemo(() => groupDeviationsByNode(findDeviations(specification)), [specification]);
+
   const handleAddLoop = useCallback(() => {
     const newLoop: Loop = {
       id: uuidv4(),
@@ -44,7 +47,7 @@ export function TreeNavigation({
     onUpdate(spec => ({
       ...spec,
       loops: [...spec.loops, newLoop],
-    }));
+    }), 'Add loop');
   }, [onUpdate]);
 
   return (
@@ -56,6 +59,7 @@ export function TreeNavigation({
           depth={0}
           index={index}
           selection={selection}
+          deviations={deviations}
           expandedNodes={expandedNodes}
           onSelect={onSelect}
           onToggleExpand={onToggleExpand}
@@ -77,10 +81,11 @@ interface LoopTreeItemProps {
   depth: number;
   index: number;
   selection: TreeSelection | null;
+  deviations: Map<string, Deviation[]>;
   expandedNodes: Set<string>;
   onSelect: (selection: TreeSelection | null) => void;
   onToggleExpand: (nodeId: string) => void;
-  onUpdate: (updater: (spec: Specification) => Specification) => void;
+  onUpdate: (updater: (spec: Specification) => Specification, label?: string) => void;
   parentPath: string[];
 }
 
@@ -89,6 +94,7 @@ function LoopTreeItem({
   depth,
   index,
   selection,
+  deviations,
   expandedNodes,
   onSelect,
   onToggleExpand,
@@ -121,6 +127,7 @@ function LoopTreeItem({
         </span>
         <span className="tree-icon loop">L</span>
         <span className="tree-item-name">{loop.name}</span>
+        <DeviationBadge deviations={deviations.get(loop.id)} />
         <span className="tree-item-meta">{loop.usage}</span>
       </div>
 
@@ -133,6 +140,7 @@ function LoopTreeItem({
               depth={depth + 1}
               index={segIndex}
               selection={selection}
+              deviations={deviations}
               expandedNodes={expandedNodes}
               onSelect={onSelect}
               onToggleExpand={onToggleExpand}
@@ -147,6 +155,7 @@ function LoopTreeItem({
               depth={depth + 1}
               index={loopIndex}
               selection={selection}
+              deviations={deviations}
               expandedNodes={expandedNodes}
               onSelect={onSelect}
               onToggleExpand={onToggleExpand}
@@ -165,10 +174,11 @@ interface SegmentTreeItemProps {
   depth: number;
   index: number;
   selection: TreeSelection | null;
+  deviations: Map<string, Deviation[]>;
   expandedNodes: Set<string>;
   onSelect: (selection: TreeSelection | null) => void;
   onToggleExpand: (nodeId: string) => void;
-  onUpdate: (updater: (spec: Specification) => Specification) => void;
+  onUpdate: (updater: (spec: Specification) => Specification, label?: string) => void;
   loopPath: string[];
 }
 
@@ -177,6 +187,7 @@ function SegmentTreeItem({
   depth,
   index,
   selection,
+  deviations,
   expandedNodes,
   onSelect,
   onToggleExpand,
@@ -207,6 +218,7 @@ function SegmentTreeItem({
         </span>
         <span className="tree-icon segment">S</span>
         <span className="tree-item-name">{segment.name}</span>
+        <DeviationBadge deviations={deviations.get(segment.id)} />
         <span className="tree-item-meta">{segment.usage}</span>
       </div>
 
@@ -219,7 +231,10 @@ function SegmentTreeItem({
               depth={depth + 1}
               index={elIndex}
               selection={selection}
+              deviations={deviations}
+              expandedNodes={expandedNodes}
               onSelect={onSelect}
+              onToggleExpand={onToggleExpand}
             />
           ))}
         </div>
@@ -233,34 +248,78 @@ interface ElementTreeItemProps {
   depth: number;
   index: number;
   selection: TreeSelection | null;
+  deviations: Map<string, Deviation[]>;
+  expandedNodes: Set<string>;
   onSelect: (selection: TreeSelection | null) => void;
+  onToggleExpand: (nodeId: string) => void;
 }
 
 function ElementTreeItem({
   element,
   depth,
   selection,
+  deviations,
+  expandedNodes,
   onSelect,
+  onToggleExpand,
 }: ElementTreeItemProps) {
+  const isExpanded = expandedNodes.has(element.id);
   const isSelected = selection?.type === 'element' && selection.id === element.id;
+  const hasComponents = !!element.components && element.components.length > 0;
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     onSelect({ type: 'element', id: element.id });
   };
 
+  const handleToggle = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onToggleExpand(element.id);
+  };
+
   return (
     <div className="tree-item" style={{ paddingLeft: depth * 16 }}>
       <div
         className={`tree-item-header ${isSelected ? 'selected' : ''}`}
         onClick={handleClick}
       >
-        <span className="tree-toggle" />
+        <span className="tree-toggle" onClick={handleToggle}>
+          {hasComponents ? (isExpanded ? '▼' : '▶') : ''}
+        </span>
         <span className="tree-item-name" style={{ fontSize: '12px', color: '#718096' }}>
           {String(element.position).padStart(2, '0')} - {element.name}
         </span>
+        <DeviationBadge deviations={deviations.get(element.id)} />
         <span className="tree-item-meta">{element.usage}</span>
       </div>
+
+      {isExpanded && hasComponents && (
+        <div className="tree-children">
+          {element.components!.map((component, compIndex) => (
+            <ElementTreeItem
+              key={component.id}
+              element={component}
+              depth={depth + 1}
+              index={compIndex}
+              selection={selection}
+              deviations={deviations}
+              expandedNodes={expandedNodes}
+              onSelect={onSelect}
+              onToggleExpand={onToggleExpand}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
+
+function DeviationBadge({ deviations }: { deviations?: Deviation[] }) {
+  if (!deviations || deviations.length === 0) return null;
+
+  return (
+    <span className="deviation-badge" title={deviations.map(d => d.description).join('\n')}>
+      Δ{deviations.length > 1 ? deviations.length : ''}
+    </span>
+  );
+}
@@ -4,17 +4,43 @@
  */
 
 import React, { useCallback } from 'react';
-import { Variant, DiscriminatorRule } from '../../shared/models/edi-types';
+import {
+  Variant,
+  DiscriminatorRule,
+  DiscriminatorOperator,
+  Segment,
+  CodeValue,
+  ElementOverride,
+  UsageType,
+} from '../../shared/models/edi-types';
 import { v4 as uuidv4 } from 'uuid';
 import { UsageSelect } from './UsageSelect';
+import {
+  listVariantElements,
+  listCodedElements,
+  setCodeOverride,
+  setElementOverride,
+  findDiscriminatorElement,
+  discriminatorCodes,
+  validateDiscriminators,
+  DISCRIMINATOR_OPERATORS,
+  operatorTakesValues,
+  isSingleValueOperator,
+  VariantElement,
+  DiscriminatorIssue,
+  VariantConflict,
+} from '../../shared/utils/variants';
 
 interface VariantEditorProps {
   variant: Variant;
+  segments?: Segment[]; // The segment, or the loop's segments, the variant refines; rules read the first
   onUpdate: (updates: Partial<Variant>) => void;
   onDelete: () => void;
 }
 
-export function VariantEditor({ variant, onUpdate, onDelete }: VariantEditorProps) {
+export function VariantEditor({ variant, segments = [], onUpdate, onDelete }: VariantEditorProps) {
+  const triggerSegment = segments[0];
+  const discriminatorIssues = triggerSegment ? validateDiscriminators(variant, triggerSegment) : [];
   const handleAddDiscriminator = useCallback(() => {
     const newRule: DiscriminatorRule = {
       elementId: '',
@@ -75,7 +101,7 @@ export function VariantEditor({ variant, onUpdate, onDelete }: VariantEditorProp
             </button>
           </div>
           <p className="text-sm text-muted mb-4">
-            Define conditions that identify when this variant applies.
+            Define conditions that identify when this variant applies. AND binds tighter than OR.
           </p>
 
           {variant.discriminators.length === 0 ? (
@@ -89,6 +115,9 @@ export function VariantEditor({ variant, onUpdate, onDelete }: VariantEditorProp
                   key={index}
                   rule={rule}
                   index={index}
+                  variant={variant}
+                  segment={triggerSegment}
+                  issues={discriminatorIssues.filter(issue => issue.index === index)}
                   onUpdate={updates => handleUpdateDiscriminator(index, updates)}
                   onDelete={() => handleDeleteDiscriminator(index)}
                 />
@@ -122,6 +151,10 @@ export function VariantEditor({ variant, onUpdate, onDelete }: VariantEditorProp
           </div>
         </div>
 
+        <CodeOverridesSection variant={variant} segments={segments} onUpdate={onUpdate} />
+
+        <ElementOverridesSection variant={variant} segments={segments} onUpdate={onUpdate} />
+
         <div className="section mt-4">
           <div className="form-group">
             <label className="form-label">Variant Comments</label>
@@ -139,59 +172,372 @@ export function VariantEditor({ variant, onUpdate, onDelete }: VariantEditorProp
   );
 }
 
+// Overlap and gap warnings for a segment's or loop's variants, from analyzeVariants
+export function VariantConflicts({ conflicts }: { conflicts: VariantConflict[] }) {
+  if (conflicts.length === 0) return null;
+  return (
+    <ul className="validation-list mb-4" aria-label="Variant warnings">
+      {conflicts.map((conflict, i) => (
+        <li key={i} className="validation-issue warning">
+          {conflict.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface CodeOverridesSectionProps {
+  variant: Variant;
+  segments: Segment[];
+  onUpdate: (updates: Partial<Variant>) => void;
+}
+
+function CodeOverridesSection({ variant, segments, onUpdate }: CodeOverridesSectionProps) {
+  const coded = listCodedElements(segments);
+  if (coded.length === 0) return null;
+
+  const overrides = variant.codeOverrides || {};
+
+  // Overrides keep the element's full code list with this variant's included flags
+  const handleToggleOverride = (item: VariantElement, enabled: boolean) => {
+    const codes = enabled ? (item.element.codeValues || []).map(cv => ({ ...cv })) : undefined;
+    onUpdate({ codeOverrides: setCodeOverride(variant, item.element.id, codes) });
+  };
+
+  const handleToggleCode = (item: VariantElement, code: string, included: boolean) => {
+    const current = overrides[item.element.id] || [];
+    const codes: CodeValue[] = (item.element.codeValues || []).map(cv => ({
+      ...cv,
+      included: cv.code === code ? included : !!current.find(o => o.code === cv.code)?.included,
+    }));
+    onUpdate({ codeOverrides: setCodeOverride(variant, item.element.id, codes) });
+  };
+
+  return (
+    <div className="section mt-4">
+      <h5 style={{ fontSize: '13px', fontWeight: 600, color: 'var(--color-secondary)', marginBottom: '8px' }}>
+        Code Overrides
+      </h5>
+      <p className="text-sm text-muted mb-4">
+        Narrow the code lists that apply when this variant is used.
+      </p>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        {coded.map(item => {
+          const override = overrides[item.element.id];
+          return (
+            <div
+              key={item.element.id}
+              style={{
+                padding: '8px',
+                backgroundColor: 'white',
+                borderRadius: 'var(--radius-sm)',
+                border: '1px solid var(--color-border)',
+              }}
+            >
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!override}
+                  onChange={e => handleToggleOverride(item, e.target.checked)}
+                  aria-label={`Override ${item.ref} codes`}
+                />
+                <strong className="font-mono">{item.ref}</strong> {item.element.name}
+              </label>
+              {override && (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 16px', marginTop: '6px', paddingLeft: '24px' }}>
+                  {(item.element.codeValues || []).map(cv => (
+                    <label key={cv.code} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={!!override.find(o => o.code === cv.code)?.included}
+                        onChange={e => handleToggleCode(item, cv.code, e.target.checked)}
+                        aria-label={`Include ${item.ref} ${cv.code}`}
+                      />
+                      <span className="font-mono">{cv.code}</span>
+                      <span className="text-muted">{cv.description}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface ElementOverridesSectionProps {
+  variant: Variant;
+  segments: Segment[];
+  onUpdate: (updates: Partial<Variant>) => void;
+}
+
+function ElementOverridesSection({ variant, segments, onUpdate }: ElementOverridesSectionProps) {
+  const elements = listVariantElements(segments);
+  if (elements.length === 0) return null;
+
+  const overrides = variant.elementOverrides || {};
+
+  const handleChange = (item: VariantElement, updates: Partial<ElementOverride>) => {
+    const override = { ...overrides[item.element.id], ...updates };
+    onUpdate({ elementOverrides: setElementOverride(variant, item.element.id, override) });
+  };
+
+  const handleToggle = (item: VariantElement, enabled: boolean) => {
+    onUpdate({ elementOverrides: setElementOverride(variant, item.element.id, enabled ? {} : undefined) });
+  };
+
+  const parseLength = (value: string) => (value === '' ? undefined : parseInt(value, 10) || 0);
+
+  return (
+    <div className="section mt-4">
+      <h5 style={{ fontSize: '13px', fontWeight: 600, color: 'var(--color-secondary)', marginBottom: '8px' }}>
+        Element Overrides
+      </h5>
+      <p className="text-sm text-muted mb-4">
+        Change element requirements while this variant applies. Empty fields keep the element's own values.
+      </p>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        {elements.map(item => {
+          const { element } = item;
+          const override = overrides[element.id];
+          return (
+            <div
+              key={element.id}
+              style={{
+                padding: '8px',
+                backgroundColor: 'white',
+                borderRadius: 'var(--radius-sm)',
+                border: '1px solid var(--color-border)',
+              }}
+            >
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!override}
+                  onChange={e => handleToggle(item, e.target.checked)}
+                  aria-label={`Override ${item.ref}`}
+                />
+                <strong className="font-mono">{item.ref}</strong> {element.name}
+              </label>
+              {override && (
+                <div
+                  style={{
+                    display: 'grid',
+                    gridTemplateColumns: '140px 80px 80px 1fr',
+                    gap: '8px',
+                    marginTop: '6px',
+                    paddingLeft: '24px',
+                  }}
+                >
+                  <select
+                    className="form-select"
+                    style={{ padding: '4px 8px' }}
+                    value={override.usage || ''}
+                    onChange={e => handleChange(item, { usage: (e.target.value || undefined) as UsageType | undefined })}
+                    aria-label={`${item.ref} usage`}
+                  >
+                    <option value="">Usage ({element.usage})</option>
+                    <option value="M">M - Mandatory</option>
+                    <option value="O">O - Optional</option>
+                    <option value="C">C - Conditional</option>
+                  </select>
+                  <input
+                    type="number"
+                    className="form-input"
+                    style={{ padding: '4px 8px' }}
+                    min={0}
+                    value={override.minLength ?? ''}
+                    onChange={e => handleChange(item, { minLength: parseLength(e.target.value) })}
+                    placeholder={`Min ${element.minLength}`}
+                    aria-label={`${item.ref} min length`}
+                  />
+                  <input
+                    type="number"
+                    className="form-input"
+                    style={{ padding: '4px 8px' }}
+                    min={0}
+                    value={override.maxLength ?? ''}
+                    onChange={e => handleChange(item, { maxLength: parseLength(e.target.value) })}
+                    placeholder={`Max ${element.maxLength}`}
+                    aria-label={`${item.ref} max length`}
+                  />
+                  <input
+                    type="text"
+                    className="form-input"
+                    style={{ padding: '4px 8px', fontFamily: 'var(--font-mono)' }}
+                    value={override.fixedValue || ''}
+                    onChange={e => handleChange(item, { fixedValue: e.target.value })}
+                    placeholder="Fixed value"
+                    aria-label={`${item.ref} fixed value`}
+                  />
+                  <input
+                    type="text"
+                    className="form-input"
+                    style={{ padding: '4px 8px', gridColumn: '1 / -1' }}
+                    value={override.comments || ''}
+                    onChange={e => handleChange(item, { comments: e.target.value })}
+                    placeholder="Comments for this variant..."
+                    aria-label={`${item.ref} comments`}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 interface DiscriminatorRuleRowProps {
   rule: DiscriminatorRule;
   index: number;
+  variant: Variant;
+  segment?: Segment; // Without a segment the element is typed as free text
+  issues: DiscriminatorIssue[];
   onUpdate: (updates: Partial<DiscriminatorRule>) => void;
   onDelete: () => void;
 }
 
-function DiscriminatorRuleRow({ rule, onUpdate, onDelete }: DiscriminatorRuleRowProps) {
+function DiscriminatorRuleRow({ rule, index, variant, segment, issues, onUpdate, onDelete }: DiscriminatorRuleRowProps) {
+  // Patterns may contain commas, so they are kept as a single value
+  const isPattern = rule.operator === 'matches';
+  const takesValues = operatorTakesValues(rule.operator);
+
   const handleValuesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const values = e.target.value.split(',').map(v => v.trim());
+    const values = isPattern ? [e.target.value] : e.target.value.split(',').map(v => v.trim());
     onUpdate({ values });
   };
 
+  const handleOperatorChange = (operator: DiscriminatorOperator) => {
+    if (!operatorTakesValues(operator)) {
+      onUpdate({ operator, values: [] });
+    } else if (isSingleValueOperator(operator)) {
+      onUpdate({ operator, values: rule.values.filter(v => v.trim()).slice(0, 1) });
+    } else {
+      onUpdate({ operator });
+    }
+  };
+
+  const elements = segment ? listVariantElements([segment]) : [];
+  const selected = segment ? findDiscriminatorElement(rule, segment) : undefined;
+  const codes =
+    selected && takesValues && !isPattern
+      ? discriminatorCodes(variant, selected.element).filter(cv => cv.included)
+      : [];
+
+  const handleToggleCode = (code: string, checked: boolean) => {
+    const current = rule.values.filter(v => v.trim() && v !== code);
+    if (isSingleValueOperator(rule.operator)) {
+      onUpdate({ values: checked ? [code] : [] });
+    } else {
+      onUpdate({ values: checked ? [...current, code] : current });
+    }
+  };
+
   return (
     <div
       style={{
-        display: 'flex',
-        gap: '8px',
-        alignItems: 'center',
         padding: '8px',
         backgroundColor: 'white',
         borderRadius: 'var(--radius-sm)',
         border: '1px solid var(--color-border)',
       }}
     >
-      <input
-        type="text"
-        className="form-input"
-        style={{ width: '100px', padding: '4px 8px' }}
-        value={rule.elementId}
-        onChange={e => onUpdate({ elementId: e.target.value })}
-        placeholder="Element ID"
-      />
-      <select
-        className="form-select"
-        style={{ width: '100px', padding: '4px 8px' }}
-        value={rule.operator}
-        onChange={e => onUpdate({ operator: e.target.value as 'equals' | 'one-of' })}
-      >
-        <option value="equals">=</option>
-        <option value="one-of">in</option>
-      </select>
-      <input
-        type="text"
-        className="form-input"
-        style={{ flex: 1, padding: '4px 8px', fontFamily: 'var(--font-mono)' }}
-        value={rule.values.join(', ')}
-        onChange={handleValuesChange}
-        placeholder={rule.operator === 'one-of' ? 'ST, BT, SU' : 'ST'}
-      />
-      <button className="btn btn-secondary btn-sm btn-icon" onClick={onDelete} title="Remove rule">
-        ×
-      </button>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        {index > 0 && (
+          <select
+            className="form-select"
+            style={{ width: '70px', padding: '4px 8px' }}
+            value={rule.connector || 'and'}
+            onChange={e => onUpdate({ connector: e.target.value as 'and' | 'or' })}
+            aria-label="Join with previous rule"
+          >
+            <option value="and">AND</option>
+            <option value="or">OR</option>
+          </select>
+        )}
+        {segment ? (
+          <select
+            className="form-select"
+            style={{ width: '200px', padding: '4px 8px' }}
+            value={selected ? selected.ref : rule.elementId}
+            onChange={e => onUpdate({ elementId: e.target.value })}
+            aria-label="Element"
+          >
+            <option value="">Select element...</option>
+            {rule.elementId && !selected && <option value={rule.elementId}>{rule.elementId} (not found)</option>}
+            {elements.map(item => (
+              <option key={item.element.id} value={item.ref}>
+                {item.ref} - {item.element.name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            className="form-input"
+            style={{ width: '100px', padding: '4px 8px' }}
+            value={rule.elementId}
+            onChange={e => onUpdate({ elementId: e.target.value })}
+            placeholder="Element ID"
+          />
+        )}
+        <select
+          className="form-select"
+          style={{ width: '100px', padding: '4px 8px' }}
+          value={rule.operator}
+          onChange={e => handleOperatorChange(e.target.value as DiscriminatorOperator)}
+        >
+          {DISCRIMINATOR_OPERATORS.map(op => (
+            <option key={op.value} value={op.value}>
+              {op.label}
+            </option>
+          ))}
+        </select>
+        {takesValues ? (
+          <input
+            type="text"
+            className="form-input"
+            style={{ flex: 1, padding: '4px 8px', fontFamily: 'var(--font-mono)' }}
+            value={isPattern ? rule.values[0] || '' : rule.values.join(', ')}
+            onChange={handleValuesChange}
+            placeholder={isPattern ? '[0-9]{9}' : isSingleValueOperator(rule.operator) ? 'ST' : 'ST, BT, SU'}
+          />
+        ) : (
+          <span style={{ flex: 1 }} />
+        )}
+        <button className="btn btn-secondary btn-sm btn-icon" onClick={onDelete} title="Remove rule">
+          ×
+        </button>
+      </div>
+      {selected && codes.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 16px', marginTop: '6px' }}>
+          {codes.map(cv => (
+            <label key={cv.code} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={rule.values.includes(cv.code)}
+                onChange={e => handleToggleCode(cv.code, e.target.checked)}
+                aria-label={`${selected.ref} value ${cv.code}`}
+              />
+              <span className="font-mono">{cv.code}</span>
+              <span className="text-muted">{cv.description}</span>
+            </label>
+          ))}
+        </div>
+      )}
+      {issues.length > 0 && (
+        <ul className="validation-list" style={{ marginTop: '6px' }}>
+          {issues.map((issue, i) => (
+            <li key={i} className="validation-issue warning">
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
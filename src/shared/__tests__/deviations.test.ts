@@ -0,0 +1,127 @@
+/**
+ * Tests for Base Spec Deviations
+ */
+
+import { findDeviations, groupDeviationsByNode } from '../utils/deviations';
+import { Specification, Loop, Segment, Element } from '../models/edi-types';
+import {
+  element as baseElement,
+  segment as baseSegment,
+  loop as baseLoop,
+  specification,
+} from './helpers/spec-fixtures';
+
+// Nodes as imported from the standard, which records its usage and repeats as the baseline
+const element = (position: number, overrides: Partial<Element> = {}): Element =>
+  baseElement(position, { baseUsage: 'O', ...overrides });
+
+const segment = (name: string, overrides: Partial<Segment> = {}): Segment =>
+  baseSegment(name, { baseUsage: 'O', baseMinUse: 0, baseMaxUse: 1, ...overrides });
+
+const loop = (name: string, overrides: Partial<Loop> = {}): Loop =>
+  baseLoop(name, { maxUse: 200, baseUsage: 'O', baseMinUse: 0, baseMaxUse: 200, ...overrides });
+
+const createSpecification = (loops: Loop[]): Specification => specification(loops, { name: 'Acme 850' });
+
+const entityCodes = [
+  { code: 'BT', description: 'Bill-to-Party', included: true },
+  { code: 'BY', description: 'Buying Party', included: true },
+  { code: 'SE', description: 'Selling Party', included: true },
+  { code: 'ST', description: 'Ship To', included: true },
+];
+
+describe('deviations', () => {
+  describe('findDeviations', () => {
+    it('should report nothing when the guide matches the standard', () => {
+      const spec = createSpecification([
+        loop('N1', { segments: [segment('N1', { elements: [element(1, { codeValues: entityCodes, baseCodes: entityCodes })] })] }),
+      ]);
+
+      expect(findDeviations(spec)).toEqual([]);
+    });
+
+    it('should ignore nodes without base values', () => {
+      const spec = createSpecification([
+        loop('ZZZ', { usage: 'M', baseUsage: undefined, baseMinUse: undefined, baseMaxUse: undefined }),
+      ]);
+
+      expect(findDeviations(spec)).toEqual([]);
+    });
+
+    it('should report tightened and relaxed usage', () => {
+      const spec = createSpecification([
+        loop('HEADER', {
+          segments: [
+            segment('REF', { usage: 'M' }),
+            segment('BEG', { usage: 'O', baseUsage: 'M', elements: [element(3, { usage: 'M' })] }),
+          ],
+        }),
+      ]);
+
+      expect(findDeviations(spec).map(d => [d.path.join('/'), d.description])).toEqual([
+        ['HEADER/REF', 'Usage tightened from O to M'],
+        ['HEADER/BEG', 'Usage relaxed from M to O'],
+        ['HEADER/BEG/BEG03', 'Usage tightened from O to M'],
+      ]);
+    });
+
+    it('should report changed repeats', () => {
+      const spec = createSpecification([loop('N1', { minUse: 1, maxUse: 2 })]);
+
+      expect(findDeviations(spec)).toEqual([
+        expect.objectContaining({ kind: 'repeat', standard: '0', guide: '1', description: 'Min use changed from 0 to 1' }),
+        expect.objectContaining({ kind: 'repeat', standard: '200', guide: '2', description: 'Max use changed from 200 to 2' }),
+      ]);
+    });
+
+    it('should report excluded and added codes', () => {
+      const codeValues = [
+        { code: 'BT', description: 'Bill-to-Party', included: false },
+        { code: 'BY', description: 'Buying Party', included: true },
+        { code: 'SE', description: 'Selling Party', included: true },
+        { code: 'ST', description: 'Ship To', included: true },
+        { code: 'ZZ', description: 'Partner Defined', included: true },
+      ];
+      const spec = createSpecification([
+        loop('N1', { segments: [segment('N1', { elements: [element(1, { codeValues, baseCodes: entityCodes })] })] }),
+      ]);
+
+      expect(findDeviations(spec).map(d => [d.kind, d.description])).toEqual([
+        ['code-excluded', 'Excluded 1 of 4 standard codes: BT'],
+        ['code-added', 'Added non-standard code: ZZ'],
+      ]);
+    });
+
+    it('should list kept codes when most standard codes are excluded', () => {
+      const codeValues = entityCodes.map(cv => ({ ...cv, included: cv.code === 'ST' }));
+      const spec = createSpecification([
+        loop('N1', { segments: [segment('N1', { elements: [element(1, { codeValues, baseCodes: entityCodes })] })] }),
+      ]);
+
+      expect(findDeviations(spec)[0].description).toBe('Restricted to 1 of 4 standard codes: ST');
+    });
+
+    it('should report composite components', () => {
+      const spec = createSpecification([
+        loop('2400', {
+          segments: [
+            segment('SV1', { elements: [element(1, { components: [element(1), element(2, { id: 'comp-2', usage: 'M' })] })] }),
+          ],
+        }),
+      ]);
+
+      expect(findDeviations(spec)).toEqual([
+        expect.objectContaining({ nodeId: 'comp-2', path: ['2400', 'SV1', 'SV101', 'SV101-2'] }),
+      ]);
+    });
+  });
+
+  describe('groupDeviationsByNode', () => {
+    it('should group deviations by node id', () => {
+      const spec = createSpecification([loop('N1', { usage: 'M', minUse: 1 })]);
+      const byNode = groupDeviationsByNode(findDeviations(spec));
+
+      expect(byNode.get('loop-N1')).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for Interchange Envelope
+ */
+
+import { createDefaultEnvelope, describeDelimiter, usesRepetitionSeparator, validateEnvelope } from '../utils/envelope';
+import { createEmptySpecification } from '../utils/openedi-importer';
+import { Envelope } from '../models/edi-types';
+
+function envelope(overrides: Partial<Envelope> = {}): Envelope {
+  return {
+    ...createDefaultEnvelope(createEmptySpecification('850').metadata),
+    senderId: 'ACME',
+    receiverId: 'RETAILER',
+    ...overrides,
+  };
+}
+
+describe('envelope', () => {
+  describe('createDefaultEnvelope', () => {
+    it('should derive the versions and functional identifier from the metadata', () => {
+      const metadata = { ...createEmptySpecification('856').metadata, ediVersion: '004010' };
+      const result = createDefaultEnvelope(metadata);
+
+      expect(result.functionalIdentifierCode).toBe('SH');
+      expect(result.interchangeVersion).toBe('00401');
+      expect(result.versionCode).toBe('004010');
+      expect(result.usageIndicator).toBe('T');
+      expect(result.segmentTerminator).toBe('~');
+    });
+
+    it('should leave the functional identifier empty for unknown transaction sets', () => {
+      expect(createDefaultEnvelope(createEmptySpecification('123').metadata).functionalIdentifierCode).toBe('');
+    });
+  });
+
+  describe('usesRepetitionSeparator', () => {
+    it('should only use ISA11 as a delimiter from version 00402', () => {
+      expect(usesRepetitionSeparator(envelope({ interchangeVersion: '00401' }))).toBe(false);
+      expect(usesRepetitionSeparator(envelope({ interchangeVersion: '00501' }))).toBe(true);
+    });
+  });
+
+  describe('describeDelimiter', () => {
+    it('should name common delimiters', () => {
+      expect(describeDelimiter('~')).toBe('~ (tilde)');
+      expect(describeDelimiter('\n')).toBe('newline');
+      expect(describeDelimiter('')).toBe('-');
+    });
+  });
+
+  describe('validateEnvelope', () => {
+    it('should accept the defaults', () => {
+      expect(validateEnvelope(envelope())).toEqual([]);
+    });
+
+    it('should report values longer than their element', () => {
+      const problems = validateEnvelope(envelope({ senderId: 'A'.repeat(16) }));
+
+      expect(problems).toEqual(['ISA06 Interchange Sender ID is longer than 15 characters']);
+    });
+
+    it('should report a GS08 version that does not match ISA12', () => {
+      const problems = validateEnvelope(envelope({ versionCode: '004010' }));
+
+      expect(problems).toEqual(['GS08 004010 does not match the ISA12 version 00501']);
+    });
+
+    it('should report duplicate and alphanumeric delimiters', () => {
+      const problems = validateEnvelope(envelope({ componentSeparator: '*', segmentTerminator: 'X' }));
+
+      expect(problems).toContain('Component Element Separator (ISA16) is the same as the Element Separator');
+      expect(problems).toContain('Segment Terminator must not be a letter, digit or space');
+    });
+
+    it('should ignore the repetition separator before 00402', () => {
+      const problems = validateEnvelope(
+        envelope({ interchangeVersion: '00401', versionCode: '004010', repetitionSeparator: '' })
+      );
+
+      expect(problems).toEqual([]);
+    });
+  });
+});
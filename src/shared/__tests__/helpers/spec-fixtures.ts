@@ -0,0 +1,55 @@
+/**
+ * Builders for the specification trees used by the shared module tests.
+ * Every node starts optional and single use; tests override what they check.
+ */
+
+import { Specification, SpecificationMetadata, Loop, Segment, Element } from '../../models/edi-types';
+
+export const element = (position: number, overrides: Partial<Element> = {}): Element => ({
+  id: `el-${position}`,
+  position,
+  name: `Element ${position}`,
+  dataType: 'AN',
+  minLength: 1,
+  maxLength: 30,
+  usage: 'O',
+  ...overrides,
+});
+
+export const segment = (name: string, overrides: Partial<Segment> = {}): Segment => ({
+  id: `seg-${name}`,
+  name,
+  description: name,
+  usage: 'O',
+  minUse: 0,
+  maxUse: 1,
+  elements: [],
+  ...overrides,
+});
+
+export const loop = (name: string, overrides: Partial<Loop> = {}): Loop => ({
+  id: `loop-${name}`,
+  name,
+  usage: 'O',
+  minUse: 0,
+  maxUse: 1,
+  segments: [],
+  loops: [],
+  ...overrides,
+});
+
+export const specification = (loops: Loop[], metadata: Partial<SpecificationMetadata> = {}): Specification => ({
+  id: 'spec-1',
+  metadata: {
+    name: 'Test 850',
+    version: '1.0',
+    transactionSet: '850',
+    transactionSetName: 'Purchase Order',
+    ediVersion: '005010',
+    createdDate: '2024-01-01T00:00:00Z',
+    modifiedDate: '2024-01-01T00:00:00Z',
+    ...metadata,
+  },
+  loops,
+  examples: [],
+});
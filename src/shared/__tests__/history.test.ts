@@ -0,0 +1,81 @@
+/**
+ * Tests for Edit History
+ */
+
+import {
+  createHistory,
+  recordChange,
+  undo,
+  redo,
+  undoLabel,
+  redoLabel,
+  COALESCE_WINDOW_MS,
+} from '../utils/history';
+
+describe('history', () => {
+  describe('recordChange', () => {
+    it('should push the previous state with its label', () => {
+      const history = recordChange(createHistory<string>(), 'a', 'Add loop', { now: 0 });
+
+      expect(history.past).toEqual([{ label: 'Add loop', snapshot: 'a', timestamp: 0 }]);
+      expect(undoLabel(history)).toBe('Add loop');
+    });
+
+    it('should clear redo entries when a new change is recorded', () => {
+      let history = recordChange(createHistory<string>(), 'a', 'Edit', { now: 0 });
+      history = undo(history, 'b')!.history;
+      expect(redoLabel(history)).toBe('Edit');
+
+      history = recordChange(history, 'a', 'Delete segment N1', { now: 10 });
+      expect(history.future).toEqual([]);
+    });
+
+    it('should coalesce consecutive edits with the same label within the window', () => {
+      let history = recordChange(createHistory<string>(), 'a', 'Edit', { coalesce: true, now: 0 });
+      history = recordChange(history, 'ab', 'Edit', { coalesce: true, now: COALESCE_WINDOW_MS - 1 });
+      history = recordChange(history, 'abc', 'Edit', { coalesce: true, now: COALESCE_WINDOW_MS * 3 });
+
+      expect(history.past.map(e => e.snapshot)).toEqual(['a', 'abc']);
+    });
+
+    it('should not coalesce edits with different labels', () => {
+      let history = recordChange(createHistory<string>(), 'a', 'Edit', { coalesce: true, now: 0 });
+      history = recordChange(history, 'b', 'Delete element', { coalesce: true, now: 1 });
+
+      expect(history.past).toHaveLength(2);
+    });
+
+    it('should drop the oldest entries beyond the maximum depth', () => {
+      let history = createHistory<number>();
+      for (let i = 0; i < 5; i++) {
+        history = recordChange(history, i, `Change ${i}`, { now: i, maxDepth: 3 });
+      }
+
+      expect(history.past.map(e => e.snapshot)).toEqual([2, 3, 4]);
+    });
+  });
+
+  describe('undo and redo', () => {
+    it('should restore previous and next states in order', () => {
+      let history = recordChange(createHistory<string>(), 'v1', 'Add segment', { now: 0 });
+      history = recordChange(history, 'v2', 'Delete segment N1', { now: 1 });
+
+      const first = undo(history, 'v3')!;
+      expect(first.snapshot).toBe('v2');
+      expect(first.label).toBe('Delete segment N1');
+
+      const second = undo(first.history, first.snapshot)!;
+      expect(second.snapshot).toBe('v1');
+      expect(undo(second.history, second.snapshot)).toBeNull();
+
+      const again = redo(second.history, second.snapshot)!;
+      expect(again.snapshot).toBe('v2');
+      expect(redoLabel(again.history)).toBe('Delete segment N1');
+      expect(undoLabel(again.history)).toBe('Add segment');
+    });
+
+    it('should return null when there is nothing to redo', () => {
+      expect(redo(createHistory<string>(), 'v1')).toBeNull();
+    });
+  });
+});
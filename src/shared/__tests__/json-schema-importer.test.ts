@@ -0,0 +1,147 @@
+/**
+ * Tests for JSON Schema Importer
+ */
+
+import { isJSONSchemaFormat, importJSONSchemaSpec } from '../utils/json-schema-importer';
+import { parseAndImportSpec } from '../utils/openedi-importer';
+
+const jsonSchema850 = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'X12 005010 850 Purchase Order',
+  type: 'object',
+  required: ['beginning_segment_for_purchase_order_BEG'],
+  properties: {
+    beginning_segment_for_purchase_order_BEG: { $ref: '#/definitions/BEG' },
+    party_identification_N1_loop: {
+      type: 'array',
+      maxItems: 200,
+      items: {
+        type: 'object',
+        required: ['party_identification_N1'],
+        properties: {
+          party_identification_N1: {
+            type: 'object',
+            title: 'Party Identification',
+            required: ['entity_identifier_code_01'],
+            properties: {
+              entity_identifier_code_01: { type: 'string', enum: ['BT', 'ST'] },
+              name_02: { type: 'string', minLength: 1, maxLength: 60 },
+            },
+          },
+        },
+      },
+    },
+  },
+  definitions: {
+    BEG: {
+      type: 'object',
+      title: 'Beginning Segment for Purchase Order',
+      required: ['BEG01', 'BEG03'],
+      properties: {
+        BEG01: {
+          title: 'Transaction Set Purpose Code',
+          oneOf: [
+            { const: '00', title: 'Original' },
+            { const: '05', title: 'Replace' },
+          ],
+        },
+        BEG03: { type: 'string', minLength: 1, maxLength: 22 },
+        BEG05: { type: 'string', format: 'date' },
+        BEG06: { type: 'number' },
+      },
+    },
+  },
+};
+
+describe('json-schema-importer', () => {
+  describe('isJSONSchemaFormat', () => {
+    it('should detect JSON Schema documents but not OpenAPI ones', () => {
+      expect(isJSONSchemaFormat(jsonSchema850)).toBe(true);
+      expect(isJSONSchemaFormat({ openapi: '3.0.1', components: {} })).toBe(false);
+      expect(isJSONSchemaFormat({ transactionSets: [] })).toBe(false);
+    });
+  });
+
+  describe('importJSONSchemaSpec', () => {
+    it('should read the transaction set and version from the title', () => {
+      const spec = importJSONSchemaSpec(jsonSchema850);
+
+      expect(spec.metadata).toEqual(
+        expect.objectContaining({
+          transactionSet: '850',
+          ediVersion: '005010',
+          transactionSetName: 'X12 005010 850 Purchase Order',
+          baseSpecReference: 'JSONSchema/005010/850',
+        })
+      );
+      expect(spec.loops[0].name).toBe('TS850');
+    });
+
+    it('should resolve segment references and read element types and codes', () => {
+      const [beg] = importJSONSchemaSpec(jsonSchema850).loops[0].segments;
+
+      expect(beg).toEqual(
+        expect.objectContaining({ name: 'BEG', description: 'Beginning Segment for Purchase Order', usage: 'M' })
+      );
+      expect(beg.elements.map(e => [e.position, e.name, e.dataType, e.usage])).toEqual([
+        [1, 'Transaction Set Purpose Code', 'ID', 'M'],
+        [3, 'BEG03', 'AN', 'M'],
+        [5, 'BEG05', 'DT', 'O'],
+        [6, 'BEG06', 'R', 'O'],
+      ]);
+      expect(beg.elements[0].codeValues).toEqual([
+        { code: '00', description: 'Original', included: true },
+        { code: '05', description: 'Replace', included: true },
+      ]);
+    });
+
+    it('should convert arrays of objects into loops with maxItems repeats', () => {
+      const [n1Loop] = importJSONSchemaSpec(jsonSchema850).loops[0].loops;
+
+      expect(n1Loop).toEqual(expect.objectContaining({ name: 'N1', usage: 'O', minUse: 0, maxUse: 200 }));
+      expect(n1Loop.segments[0]).toEqual(expect.objectContaining({ name: 'N1', usage: 'M' }));
+      expect(n1Loop.segments[0].elements.map(e => [e.position, e.name, e.maxLength])).toEqual([
+        [1, 'Entity Identifier Code', 0],
+        [2, 'Name', 60],
+      ]);
+    });
+
+    it('should stop at loops that reference themselves', () => {
+      const hlLoop = { type: 'array', items: { $ref: '#/definitions/HL' } };
+      const spec = importJSONSchemaSpec({
+        title: 'X12 005010 856 Ship Notice',
+        type: 'object',
+        properties: { HL_Loop: hlLoop },
+        definitions: {
+          HL: {
+            type: 'object',
+            required: ['HL'],
+            properties: {
+              HL: { type: 'object', properties: { HL01: { type: 'string' }, HL03: { type: 'string' } } },
+              HL_Loop: hlLoop,
+            },
+          },
+        },
+      });
+
+      const [hl] = spec.loops[0].loops;
+      expect(hl.name).toBe('HL');
+      expect(hl.segments.map(segment => segment.name)).toEqual(['HL']);
+      expect(hl.loops).toEqual([]);
+    });
+
+    it('should reject schemas without a transaction set id', () => {
+      expect(() => importJSONSchemaSpec({ ...jsonSchema850, title: 'Purchase Order' })).toThrow(
+        'Could not determine the transaction set'
+      );
+    });
+  });
+
+  describe('parseAndImportSpec', () => {
+    it('should route JSON Schema documents to the JSON Schema importer', () => {
+      const spec = parseAndImportSpec(JSON.stringify(jsonSchema850));
+
+      expect(spec.metadata.baseSpecReference).toBe('JSONSchema/005010/850');
+    });
+  });
+});
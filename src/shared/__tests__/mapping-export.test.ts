@@ -0,0 +1,100 @@
+/**
+ * Tests for Mapping Spreadsheet Export
+ */
+
+import { buildMappingSheets, toCSV, MAPPING_COLUMNS, CODE_COLUMNS } from '../utils/mapping-export';
+import { Specification } from '../models/edi-types';
+import { element, segment, loop, specification } from './helpers/spec-fixtures';
+
+const createSpecification = (): Specification =>
+  specification([
+    loop('HEADER', {
+      usage: 'M',
+      minUse: 1,
+      loops: [
+        loop('N1', {
+          maxUse: 200,
+          segments: [
+            segment('N1', {
+              description: 'Party Identification',
+              usage: 'M',
+              minUse: 1,
+              elements: [
+                element(1, {
+                  name: 'Entity Identifier Code',
+                  dataType: 'ID',
+                  minLength: 2,
+                  maxLength: 3,
+                  usage: 'M',
+                  codeValues: [
+                    { code: 'ST', description: 'Ship To', included: true },
+                    { code: 'BT', description: 'Bill To', included: false },
+                    { code: 'BY', description: 'Buying Party', included: true },
+                  ],
+                }),
+                element(2, { name: 'Name', comments: 'Send the store name, e.g. "Main St"' }),
+              ],
+            }),
+          ],
+        }),
+      ],
+    }),
+    loop('DETAIL', {
+      usage: 'M',
+      minUse: 1,
+      segments: [
+        segment('SV1', {
+          description: 'Professional Service',
+          usage: 'M',
+          minUse: 1,
+          elements: [element(1, { name: 'Composite Medical Procedure', components: [element(1), element(2)] })],
+        }),
+      ],
+    }),
+  ]);
+
+describe('mapping-export', () => {
+  describe('buildMappingSheets', () => {
+    it('should build one row per element with loop paths', () => {
+      const { elements } = buildMappingSheets(createSpecification());
+
+      expect(elements[0]).toEqual(MAPPING_COLUMNS);
+      expect(elements[1]).toEqual([
+        'HEADER/N1', 'N1', 'N101', 'Entity Identifier Code', 'ID', '2', '3', 'M', 'ST, BY', '',
+      ]);
+      expect(elements[2][2]).toBe('N102');
+      expect(elements[2][9]).toBe('Send the store name, e.g. "Main St"');
+    });
+
+    it('should list composite components beneath the composite', () => {
+      const { elements } = buildMappingSheets(createSpecification());
+
+      expect(elements.slice(3).map(row => [row[2], row[4]])).toEqual([
+        ['SV101', 'Composite'],
+        ['SV101-1', 'AN'],
+        ['SV101-2', 'AN'],
+      ]);
+    });
+
+    it('should list included codes only', () => {
+      const { codes } = buildMappingSheets(createSpecification());
+
+      expect(codes).toEqual([
+        CODE_COLUMNS,
+        ['HEADER/N1', 'N101', 'Entity Identifier Code', 'ST', 'Ship To'],
+        ['HEADER/N1', 'N101', 'Entity Identifier Code', 'BY', 'Buying Party'],
+      ]);
+    });
+  });
+
+  describe('toCSV', () => {
+    it('should quote fields containing commas, quotes and newlines', () => {
+      const csv = toCSV([
+        ['a', 'b,c'],
+        ['say "hi"', 'line1\nline2'],
+      ]);
+
+      expect(csv).toBe('a,"b,c"\r\n"say ""hi""","line1\nline2"\r\n');
+    });
+  });
+});
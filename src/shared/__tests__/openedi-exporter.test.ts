@@ -0,0 +1,264 @@
+/**
+ * Tests for OpenEDI Specification Exporter
+ */
+
+import { exportOpenAPISpec, exportOpenAPIJson, elementPropertyKey } from '../utils/openedi-exporter';
+import { parseAndImportSpec } from '../utils/openedi-importer';
+import { Specification, Loop, Element } from '../models/edi-types';
+
+const section = (name: string, overrides: Partial<Loop>): Loop => ({
+  id: `loop-${name}`,
+  name,
+  usage: 'M',
+  minUse: 1,
+  maxUse: 1,
+  segments: [],
+  loops: [],
+  ...overrides,
+});
+
+const openAPIFixture = {
+  openapi: '3.0.1',
+  info: { title: 'X12 850', version: '1.0' },
+  components: {
+    schemas: {
+      TS850: {
+        'x-openedi-message-id': '850',
+        required: ['BEG'],
+        properties: {
+          BEG: { $ref: '#/components/schemas/BEG' },
+          N1: { $ref: '#/components/schemas/N1' },
+          SV1: { $ref: '#/components/schemas/SV1' },
+        },
+      },
+      BEG: {
+        'x-openedi-segment-id': 'BEG',
+        required: ['TransactionSetPurposeCode_01', 'PurchaseOrderNumber_03'],
+        properties: {
+          TransactionSetPurposeCode_01: {
+            type: 'string',
+            format: 'X12_ID',
+            minLength: 2,
+            maxLength: 2,
+            allOf: [{ $ref: '#/components/schemas/X12_ID_353' }],
+          },
+          PurchaseOrderNumber_03: { type: 'string', format: 'X12_AN', minLength: 1, maxLength: 22 },
+          Date_05: { type: 'string', format: 'X12_DT', minLength: 8, maxLength: 8 },
+        },
+      },
+      X12_ID_353: { type: 'string', enum: ['00', '01', '05'] },
+      N1: {
+        'x-openedi-segment-id': 'N1',
+        'x-openedi-syntax': ['R0203', 'P0304'],
+        properties: {
+          EntityIdentifierCode_01: { type: 'string', format: 'X12_ID', minLength: 2, maxLength: 3 },
+          Name_02: { type: 'string', format: 'X12_AN', minLength: 1, maxLength: 60 },
+        },
+      },
+      SV1: {
+        'x-openedi-segment-id': 'SV1',
+        properties: {
+          CompositeMedicalProcedureIdentifier_01: { $ref: '#/components/schemas/C003' },
+          LineItemChargeAmount_02: { type: 'string', format: 'X12_R', maxLength: 18 },
+        },
+      },
+      C003: {
+        'x-openedi-composite-id': 'C003',
+        required: ['ProductServiceIDQualifier_01'],
+        properties: {
+          ProductServiceIDQualifier_01: { type: 'string', format: 'X12_ID', minLength: 2, maxLength: 2 },
+          ProductServiceID_02: { type: 'string', format: 'X12_AN', minLength: 1, maxLength: 48 },
+        },
+      },
+    },
+  },
+};
+
+// Ids and timestamps are regenerated on every import
+function normalize(spec: Specification): unknown {
+  return JSON.parse(
+    JSON.stringify({ ...spec, metadata: { ...spec.metadata, createdDate: '', modifiedDate: '' } }, (key, value) =>
+      key === 'id' ? undefined : value
+    )
+  );
+}
+
+const importFixture = () => parseAndImportSpec(JSON.stringify(openAPIFixture));
+
+describe('openedi-exporter', () => {
+  describe('elementPropertyKey', () => {
+    it('should build PascalCase keys with a two-digit position', () => {
+      const element = { name: 'Product/Service ID Qualifier', position: 1 } as Element;
+
+      expect(elementPropertyKey(element)).toBe('ProductServiceIDQualifier_01');
+    });
+  });
+
+  describe('exportOpenAPISpec', () => {
+    it('should round-trip import, export and import without changes', () => {
+      const imported = importFixture();
+      const reimported = parseAndImportSpec(exportOpenAPIJson(imported));
+
+      expect(normalize(reimported)).toEqual(normalize(imported));
+    });
+
+    it('should round-trip nested loops and repeats', () => {
+      const imported = importFixture();
+      const [beg, n1] = imported.loops[0].segments;
+      beg.maxUse = beg.baseMaxUse = 5;
+      imported.loops[0].segments = [beg];
+      imported.loops[0].loops.push({
+        id: 'loop-n1',
+        name: 'N1',
+        description: 'Party Identification',
+        usage: 'O',
+        baseUsage: 'O',
+        minUse: 0,
+        maxUse: 200,
+        baseMinUse: 0,
+        baseMaxUse: 200,
+        segments: [n1],
+        loops: [],
+      });
+
+      const reimported = parseAndImportSpec(exportOpenAPIJson(imported));
+
+      expect(normalize(reimported)).toEqual(normalize(imported));
+    });
+
+    it('should be stable across repeated exports', () => {
+      const first = exportOpenAPISpec(importFixture());
+      const second = exportOpenAPISpec(parseAndImportSpec(JSON.stringify(first)));
+
+      expect(second).toEqual(first);
+    });
+
+    it('should write the transaction set and segment extensions', () => {
+      const result = exportOpenAPISpec(importFixture());
+      const schemas = result.components!.schemas!;
+
+      expect(schemas.TS850).toEqual(
+        expect.objectContaining({ 'x-openedi-message-id': '850', required: ['BEG'] })
+      );
+      expect(Object.keys(schemas.TS850.properties!)).toEqual(['BEG', 'N1', 'SV1']);
+      expect(schemas.N1['x-openedi-syntax']).toEqual(['R0203', 'P0304']);
+      expect(schemas.SV101['x-openedi-composite-id']).toBe('C003');
+      expect(schemas.TS850['x-openedi-message-version']).toBe('005010');
+    });
+
+    it('should write element reference numbers and code descriptions', () => {
+      const spec = importFixture();
+      const [beg] = spec.loops[0].segments;
+      beg.elements[0].codeValues = [
+        { code: '00', description: 'Original', included: true },
+        { code: '05', description: 'Replace', included: true },
+      ];
+      beg.elements[1].referenceNumber = '324';
+
+      const schemas = exportOpenAPISpec(spec).components!.schemas!;
+
+      expect(schemas.BEG.properties!.TransactionSetPurposeCode_01['x-openedi-element-id']).toBe('353');
+      expect(schemas.BEG.properties!.PurchaseOrderNumber_03['x-openedi-element-id']).toBe('324');
+      expect(schemas.X12_ID_BEG01['x-enum-descriptions']).toEqual(['Original', 'Replace']);
+      expect(schemas.X12_ID_BEG03).toBeUndefined();
+    });
+
+    it('should reflect tightened usage and excluded codes', () => {
+      const spec = importFixture();
+      const [beg, n1] = spec.loops[0].segments;
+      n1.usage = 'M';
+      beg.elements[2].usage = 'M';
+      beg.elements[0].codeValues = beg.elements[0].codeValues!.map(cv => ({ ...cv, included: cv.code !== '01' }));
+
+      const schemas = exportOpenAPISpec(spec).components!.schemas!;
+
+      expect(schemas.TS850.required).toEqual(['BEG', 'N1']);
+      expect(schemas.BEG.required).toEqual(['TransactionSetPurposeCode_01', 'PurchaseOrderNumber_03', 'Date_05']);
+      expect(schemas.X12_ID_BEG01.enum).toEqual(['00', '05']);
+    });
+
+    it('should write repeating segments and nested loops as arrays', () => {
+      const spec = importFixture();
+      const n1Loop: Loop = {
+        id: 'loop-n1',
+        name: 'N1',
+        description: 'Party Identification',
+        usage: 'O',
+        minUse: 0,
+        maxUse: 200,
+        segments: [{ ...spec.loops[0].segments[1], usage: 'M' }],
+        loops: [],
+      };
+      spec.loops[0].segments[0].maxUse = 5;
+      spec.loops[0].loops.push(n1Loop);
+
+      const schemas = exportOpenAPISpec(spec).components!.schemas!;
+
+      expect(schemas.TS850.properties!.BEG).toEqual({ type: 'array', items: { $ref: '#/components/schemas/BEG' }, maxItems: 5 });
+      expect(schemas.TS850.properties!.Loop_N1).toEqual({
+        type: 'array',
+        items: { $ref: '#/components/schemas/Loop_N1' },
+        maxItems: 200,
+      });
+      expect(schemas.Loop_N1).toEqual(
+        expect.objectContaining({ 'x-openedi-loop-id': 'N1', required: ['N1'], description: 'Party Identification' })
+      );
+    });
+
+    it('should suffix differently constrained copies of a segment', () => {
+      const spec = importFixture();
+      const [, n1] = spec.loops[0].segments;
+      spec.loops[0].loops.push({
+        id: 'loop-n1',
+        name: 'N1',
+        usage: 'O',
+        minUse: 0,
+        maxUse: 1,
+        segments: [{ ...n1, elements: [{ ...n1.elements[0], usage: 'M' }] }],
+        loops: [],
+      });
+
+      const schemas = exportOpenAPISpec(spec).components!.schemas!;
+
+      expect(schemas.N1.required).toBeUndefined();
+      expect(schemas.N1_2.required).toEqual(['EntityIdentifierCode_01']);
+      expect(schemas.Loop_N1.properties!.N1).toEqual({ $ref: '#/components/schemas/N1_2' });
+    });
+
+    it('should keep segments and loops in document order across HEADER, DETAIL and SUMMARY sections', () => {
+      const [beg, n1] = importFixture().loops[0].segments;
+      const spec: Specification = {
+        ...importFixture(),
+        loops: [
+          section('HEADER', {
+            segments: [{ ...beg, name: 'ST' }, beg],
+            loops: [section('N1', { maxUse: 200, segments: [n1] })],
+          }),
+          section('DETAIL', { loops: [section('PO1', { maxUse: 100, segments: [{ ...beg, name: 'PO1' }] })] }),
+          section('SUMMARY', { segments: [{ ...beg, name: 'CTT' }, { ...beg, name: 'SE' }] }),
+        ],
+      };
+
+      const properties = exportOpenAPISpec(spec).components!.schemas!.TS850.properties!;
+
+      expect(Object.keys(properties)).toEqual(['ST', 'BEG', 'Loop_N1', 'Loop_PO1', 'CTT', 'SE']);
+    });
+
+    it('should keep an optional single-use loop as a loop so its mandatory segments stay optional', () => {
+      const [beg] = importFixture().loops[0].segments;
+      const spec: Specification = {
+        ...importFixture(),
+        loops: [
+          section('HEADER', { segments: [beg] }),
+          section('AMT', { usage: 'O', minUse: 0, segments: [{ ...beg, name: 'AMT', usage: 'M' }] }),
+        ],
+      };
+
+      const schemas = exportOpenAPISpec(spec).components!.schemas!;
+
+      expect(Object.keys(schemas.TS850.properties!)).toEqual(['BEG', 'Loop_AMT']);
+      expect(schemas.TS850.required).toEqual(['BEG']);
+      expect(schemas.Loop_AMT.required).toEqual(['AMT']);
+    });
+  });
+});
@@ -5,6 +5,7 @@
 import {
   importOpenEDISpec,
   parseOpenEDIJson,
+  parseAndImportSpec,
   createEmptySpecification,
   TRANSACTION_SET_TEMPLATES,
 } from '../utils/openedi-importer';
@@ -186,6 +187,97 @@ describe('openedi-importer', () => {
       expect(element.codeValues![0].included).toBe(true);
     });
 
+    it('should convert composite elements with their components', () => {
+      const openEDI: OpenEDITransactionSet = {
+        TransactionSetId: '837',
+        Name: 'Health Care Claim',
+        Version: '005010',
+        Loops: [
+          {
+            Id: '2400',
+            Name: 'Service Line',
+            Req: 'M',
+            Max: 50,
+            Segments: [
+              {
+                Id: 'SV1',
+                Name: 'Professional Service',
+                Req: 'M',
+                Max: 1,
+                Elements: [
+                  {
+                    Id: 'C003',
+                    Name: 'Composite Medical Procedure Identifier',
+                    DataType: '',
+                    MinLength: 0,
+                    MaxLength: 0,
+                    Req: 'M',
+                    Components: [
+                      { Id: '235', Name: 'Product/Service ID Qualifier', DataType: 'ID', MinLength: 2, MaxLength: 2, Req: 'M', Codes: [{ Code: 'HC', Description: 'HCPCS Codes' }] },
+                      { Id: '234', Name: 'Product/Service ID', DataType: 'AN', MinLength: 1, MaxLength: 48, Req: 'M' },
+                      { Id: '1339', Name: 'Procedure Modifier', DataType: 'AN', MinLength: 2, MaxLength: 2, Req: 'O' },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const result = importOpenEDISpec(openEDI);
+      const composite = result.loops[0].segments[0].elements[0];
+
+      expect(composite.components).toHaveLength(3);
+      expect(composite.components!.map(c => c.position)).toEqual([1, 2, 3]);
+      expect(composite.components![0].codeValues![0].code).toBe('HC');
+      expect(composite.components![2].usage).toBe('O');
+    });
+
+    it('should keep element reference numbers but not reference designators', () => {
+      const openEDI: OpenEDITransactionSet = {
+        TransactionSetId: '837',
+        Name: 'Health Care Claim',
+        Version: '005010',
+        Loops: [
+          {
+            Id: '2400',
+            Name: 'Service Line',
+            Req: 'M',
+            Max: 50,
+            Segments: [
+              {
+                Id: 'SV1',
+                Name: 'Professional Service',
+                Req: 'M',
+                Max: 1,
+                Elements: [
+                  {
+                    Id: 'C003',
+                    Name: 'Composite Medical Procedure Identifier',
+                    DataType: '',
+                    MinLength: 0,
+                    MaxLength: 0,
+                    Req: 'M',
+                    Components: [
+                      { Id: '235', Name: 'Product/Service ID Qualifier', DataType: 'ID', MinLength: 2, MaxLength: 2, Req: 'M' },
+                    ],
+                  },
+                  { Id: 'SV102', Name: 'Line Item Charge Amount', DataType: 'R', MinLength: 1, MaxLength: 18, Req: 'M' },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const [composite, amount] = importOpenEDISpec(openEDI).loops[0].segments[0].elements;
+
+      expect(composite.referenceNumber).toBe('C003');
+      expect(composite.components![0].referenceNumber).toBe('235');
+      expect(amount.referenceNumber).toBeUndefined();
+    });
+
     it('should handle usage types correctly', () => {
       const testCases = [
         { input: 'M', expected: 'M' },
@@ -303,6 +395,205 @@ describe('openedi-importer', () => {
     });
   });
 
+  describe('parseAndImportSpec', () => {
+    it('should import composite element references from the OpenAPI format', () => {
+      const openAPI = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            TS837: {
+              'x-openedi-message-id': '837',
+              required: ['SV1'],
+              properties: { SV1: { $ref: '#/components/schemas/SV1' } },
+            },
+            SV1: {
+              'x-openedi-segment-id': 'SV1',
+              required: ['CompositeMedicalProcedureIdentifier_01'],
+              properties: {
+                CompositeMedicalProcedureIdentifier_01: { $ref: '#/components/schemas/C003' },
+                LineItemChargeAmount_02: { type: 'string', format: 'X12_R', maxLength: 18 },
+              },
+            },
+            C003: {
+              'x-openedi-composite-id': 'C003',
+              required: ['ProductServiceIDQualifier_01'],
+              properties: {
+                ProductServiceIDQualifier_01: { type: 'string', format: 'X12_ID', minLength: 2, maxLength: 2 },
+                ProductServiceID_02: { type: 'string', minLength: 1, maxLength: 48 },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parseAndImportSpec(JSON.stringify(openAPI));
+      const [composite, amount] = result.loops[0].segments[0].elements;
+
+      expect(composite.usage).toBe('M');
+      expect(composite.components).toHaveLength(2);
+      expect(composite.components![0]).toEqual(
+        expect.objectContaining({ position: 1, dataType: 'ID', usage: 'M', name: 'Product Service I D Qualifier' })
+      );
+      expect(composite.components![1].maxLength).toBe(48);
+      expect(amount.components).toBeUndefined();
+    });
+
+    it('should preserve nested loops and repeats from the OpenAPI format', () => {
+      const openAPI = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            TS850: {
+              'x-openedi-message-id': '850',
+              required: ['BEG', 'Loop_PO1'],
+              properties: {
+                BEG: { $ref: '#/components/schemas/BEG' },
+                REF: { type: 'array', items: { $ref: '#/components/schemas/REF' }, maxItems: 12 },
+                Loop_N1: { type: 'array', items: { $ref: '#/components/schemas/Loop_N1' }, maxItems: 200 },
+                Loop_PO1: { type: 'array', items: { $ref: '#/components/schemas/Loop_PO1' }, minItems: 1 },
+              },
+            },
+            BEG: { 'x-openedi-segment-id': 'BEG', properties: { PurchaseOrderNumber_03: { type: 'string' } } },
+            REF: { 'x-openedi-segment-id': 'REF', properties: { ReferenceIdentification_02: { type: 'string' } } },
+            N1: { 'x-openedi-segment-id': 'N1', properties: { Name_02: { type: 'string' } } },
+            PO1: { 'x-openedi-segment-id': 'PO1', properties: { QuantityOrdered_02: { type: 'string' } } },
+            PID: { 'x-openedi-segment-id': 'PID', properties: { Description_05: { type: 'string' } } },
+            Loop_N1: {
+              'x-openedi-loop-id': 'N1',
+              description: 'Party Identification',
+              required: ['N1'],
+              properties: { N1: { $ref: '#/components/schemas/N1' } },
+            },
+            Loop_PO1: {
+              'x-openedi-loop-id': 'PO1',
+              required: ['PO1'],
+              properties: {
+                PO1: { $ref: '#/components/schemas/PO1' },
+                Loop_PID: { type: 'array', items: { $ref: '#/components/schemas/Loop_PID' }, maxItems: 1000 },
+              },
+            },
+            Loop_PID: {
+              'x-openedi-loop-id': 'PID',
+              properties: { PID: { $ref: '#/components/schemas/PID' } },
+            },
+          },
+        },
+      };
+
+      const [transaction] = parseAndImportSpec(JSON.stringify(openAPI)).loops;
+
+      expect(transaction.segments.map(s => [s.name, s.usage, s.maxUse])).toEqual([
+        ['BEG', 'M', 1],
+        ['REF', 'O', 12],
+      ]);
+      expect(transaction.loops.map(l => [l.name, l.usage, l.minUse, l.maxUse, l.baseMaxUse])).toEqual([
+        ['N1', 'O', 0, 200, 200],
+        ['PO1', 'M', 1, 99999, 99999],
+      ]);
+      expect(transaction.loops[0].description).toBe('Party Identification');
+      expect(transaction.loops[0].segments[0]).toEqual(expect.objectContaining({ name: 'N1', usage: 'M' }));
+
+      const [pidLoop] = transaction.loops[1].loops;
+      expect(pidLoop).toEqual(expect.objectContaining({ name: 'PID', maxUse: 1000 }));
+      expect(pidLoop.segments.map(s => s.name)).toEqual(['PID']);
+    });
+
+    it('should import element ids, names, code descriptions and the version', () => {
+      const openAPI = {
+        openapi: '3.0.1',
+        info: { title: 'X12 004010 850', version: '1.0' },
+        components: {
+          schemas: {
+            TS850: {
+              'x-openedi-message-id': '850',
+              'x-openedi-message-standard': 'X12',
+              description: 'Purchase Order',
+              properties: { N1: { $ref: '#/components/schemas/N1' } },
+            },
+            N1: {
+              'x-openedi-segment-id': 'N1',
+              description: 'Party Identification',
+              properties: {
+                EntityIdentifierCode_01: {
+                  type: 'string',
+                  description: 'Entity Identifier Code',
+                  allOf: [{ $ref: '#/components/schemas/X12_ID_98' }],
+                },
+                Name_02: { type: 'string', description: 'Name', 'x-openedi-element-id': '93' },
+                IdentificationCodeQualifier_03: {
+                  type: 'string',
+                  allOf: [{ $ref: '#/components/schemas/X12_ID_N103' }],
+                },
+              },
+            },
+            X12_ID_98: {
+              type: 'string',
+              enum: ['BT', 'ST'],
+              'x-enum-descriptions': ['Bill-to-Party', 'Ship To'],
+            },
+            X12_ID_N103: {
+              type: 'string',
+              enum: ['1', '92'],
+              description: '1 - D-U-N-S Number, Dun & Bradstreet\n92 - Assigned by Buyer or Buyer\'s Agent',
+            },
+          },
+        },
+      };
+
+      const result = parseAndImportSpec(JSON.stringify(openAPI));
+      const [n1] = result.loops[0].segments;
+
+      expect(result.metadata).toEqual(
+        expect.objectContaining({
+          ediVersion: '004010',
+          transactionSetName: 'Purchase Order',
+          baseSpecReference: 'EdiNation/X12/004010/850',
+        })
+      );
+      expect(n1.description).toBe('Party Identification');
+      expect(n1.elements.map(e => [e.name, e.referenceNumber])).toEqual([
+        ['Entity Identifier Code', '98'],
+        ['Name', '93'],
+        ['Identification Code Qualifier', undefined],
+      ]);
+      expect(n1.elements[0].codeValues!.map(cv => cv.description)).toEqual(['Bill-to-Party', 'Ship To']);
+      expect(n1.elements[2].codeValues!.map(cv => cv.description)).toEqual([
+        'D-U-N-S Number, Dun & Bradstreet',
+        "Assigned by Buyer or Buyer's Agent",
+      ]);
+    });
+
+    it('should import syntax notes from x-openedi-syntax', () => {
+      const openAPI = {
+        openapi: '3.0.1',
+        components: {
+          schemas: {
+            TS850: {
+              'x-openedi-message-id': '850',
+              properties: { N1: { $ref: '#/components/schemas/N1' } },
+            },
+            N1: {
+              'x-openedi-segment-id': 'N1',
+              'x-openedi-syntax': ['R0203', 'P0304', 'bogus'],
+              properties: {
+                EntityIdentifierCode_01: { type: 'string' },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parseAndImportSpec(JSON.stringify(openAPI));
+      const rules = result.loops[0].segments[0].syntaxRules!;
+
+      expect(rules.map(r => [r.type, r.positions])).toEqual([
+        ['R', [2, 3]],
+        ['P', [3, 4]],
+      ]);
+      expect(rules[0].id).toBeDefined();
+    });
+  });
+
   describe('createEmptySpecification', () => {
     it('should create empty specification with known transaction set', () => {
       const result = createEmptySpecification('810', undefined, '005010');
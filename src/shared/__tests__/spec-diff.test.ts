@@ -0,0 +1,135 @@
+/**
+ * Tests for Specification Diff
+ */
+
+import { diffSpecifications } from '../utils/spec-diff';
+import { Specification, Loop } from '../models/edi-types';
+import { element, segment, loop, specification } from './helpers/spec-fixtures';
+
+const createSpecification = (loops: Loop[], version = '1.2'): Specification =>
+  specification(loops, { name: 'Acme 850', version });
+
+// The same tree as a separate import produces it: equal structure, new ids
+const reassignIds = (loops: Loop[]): Loop[] =>
+  loops.map(l => ({
+    ...l,
+    id: `${l.id}-copy`,
+    segments: l.segments.map(s => ({ ...s, id: `${s.id}-copy`, elements: s.elements.map(e => ({ ...e, id: `${e.id}-copy` })) })),
+    loops: reassignIds(l.loops),
+  }));
+
+const n1Segment = () =>
+  segment('N1', {
+    usage: 'M',
+    minUse: 1,
+    elements: [
+      element(1, {
+        dataType: 'ID',
+        codeValues: [
+          { code: 'ST', description: 'Ship To', included: true },
+          { code: 'BT', description: 'Bill To', included: true },
+        ],
+      }),
+      element(2),
+    ],
+  });
+
+const buildTree = () => [
+  loop('HEADER', {
+    segments: [segment('BEG', { usage: 'M', minUse: 1 })],
+    loops: [loop('N1', { maxUse: 5, segments: [n1Segment()] })],
+  }),
+];
+
+describe('spec-diff', () => {
+  describe('diffSpecifications', () => {
+    it('should report no changes for structurally identical specs with different ids', () => {
+      const result = diffSpecifications(createSpecification(buildTree()), createSpecification(reassignIds(buildTree())));
+
+      expect(result.changes).toEqual([]);
+      expect(result.summary).toEqual({ added: 0, removed: 0, changed: 0 });
+    });
+
+    it('should report metadata changes', () => {
+      const result = diffSpecifications(createSpecification(buildTree(), '1.2'), createSpecification(buildTree(), '1.3'));
+
+      expect(result.changes).toEqual([
+        expect.objectContaining({ kind: 'changed', target: 'metadata', field: 'version', before: '1.2', after: '1.3' }),
+      ]);
+    });
+
+    it('should report added and removed loops, segments and elements', () => {
+      const after = buildTree();
+      after[0].segments.push(segment('REF'));
+      after[0].loops[0].segments[0].elements.pop();
+      after.push(loop('SUMMARY'));
+      const result = diffSpecifications(createSpecification(buildTree()), createSpecification(after));
+
+      expect(result.changes.map(c => [c.kind, c.target, c.path.join('/')])).toEqual([
+        ['added', 'segment', 'HEADER/REF'],
+        ['removed', 'element', 'HEADER/N1/N1/N102'],
+        ['added', 'loop', 'SUMMARY'],
+      ]);
+      expect(result.summary).toEqual({ added: 2, removed: 1, changed: 0 });
+    });
+
+    it('should report changed usage, repeats and lengths', () => {
+      const after = buildTree();
+      after[0].loops[0].maxUse = 2;
+      after[0].loops[0].segments[0].elements[1] = element(2, { usage: 'M', maxLength: 60 });
+      const result = diffSpecifications(createSpecification(buildTree()), createSpecification(after));
+
+      expect(result.changes.map(c => [c.path.join('/'), c.field, c.before, c.after])).toEqual([
+        ['HEADER/N1', 'maxUse', '5', '2'],
+        ['HEADER/N1/N1/N102', 'maxLength', '30', '60'],
+        ['HEADER/N1/N1/N102', 'usage', 'O', 'M'],
+      ]);
+    });
+
+    it('should report included, excluded, added and removed codes', () => {
+      const after = buildTree();
+      const n101 = after[0].loops[0].segments[0].elements[0];
+      n101.codeValues = [
+        { code: 'ST', description: 'Ship To', included: false },
+        { code: 'SF', description: 'Ship From', included: true },
+      ];
+      const result = diffSpecifications(createSpecification(buildTree()), createSpecification(after));
+
+      expect(result.changes.map(c => c.description)).toEqual([
+        'Code ST excluded',
+        'Code BT (Bill To) removed',
+        'Code SF (Ship From) added',
+      ]);
+    });
+
+    it('should report edited comments', () => {
+      const after = buildTree();
+      after[0].segments[0].comments = 'Send the PO number from the ERP';
+      const result = diffSpecifications(createSpecification(buildTree()), createSpecification(after));
+
+      expect(result.changes).toEqual([
+        expect.objectContaining({ field: 'comments', before: '(none)', after: 'Send the PO number from the ERP' }),
+      ]);
+    });
+
+    it('should match repeated loops by occurrence', () => {
+      const before = createSpecification([loop('N1', { usage: 'M' }), loop('N1')]);
+      const after = createSpecification([loop('N1', { usage: 'M' }), loop('N1', { usage: 'C' })]);
+      const result = diffSpecifications(before, after);
+
+      expect(result.changes).toEqual([expect.objectContaining({ path: ['N1'], field: 'usage', before: 'O', after: 'C' })]);
+    });
+
+    it('should compare composite components', () => {
+      const before = createSpecification([
+        loop('2400', { segments: [segment('SV1', { elements: [element(1, { components: [element(1), element(2)] })] })] }),
+      ]);
+      const after = createSpecification([
+        loop('2400', { segments: [segment('SV1', { elements: [element(1, { components: [element(1, { usage: 'M' })] })] })] }),
+      ]);
+      const result = diffSpecifications(before, after);
+
+      expect(result.changes.map(c => c.path.join('/'))).toEqual(['2400/SV1/SV101/SV101-1', '2400/SV1/SV101/SV101-2']);
+    });
+  });
+});
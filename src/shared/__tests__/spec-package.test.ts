@@ -0,0 +1,114 @@
+/**
+ * Tests for Specification Packages
+ */
+
+import {
+  isSpecificationPackage,
+  createPackage,
+  addSpecification,
+  replaceSpecification,
+  removeSpecification,
+  applyPackageMetadata,
+  formatTransactionSetLabel,
+} from '../utils/spec-package';
+import { createEmptySpecification } from '../utils/openedi-importer';
+import { createDefaultEnvelope } from '../utils/envelope';
+import { Specification } from '../models/edi-types';
+
+function spec(transactionSet: string, id: string, partner?: string): Specification {
+  const created = createEmptySpecification(transactionSet);
+  return { ...created, id, metadata: { ...created.metadata, partner } };
+}
+
+describe('spec-package', () => {
+  describe('isSpecificationPackage', () => {
+    it('should tell packages from single specifications', () => {
+      const single = spec('850', 'po');
+
+      expect(isSpecificationPackage(createPackage(single))).toBe(true);
+      expect(isSpecificationPackage(single)).toBe(false);
+      expect(isSpecificationPackage(null)).toBe(false);
+    });
+  });
+
+  describe('createPackage', () => {
+    it('should start with the specification and share its partner', () => {
+      const pkg = createPackage(spec('850', 'po', 'Acme Corp'));
+
+      expect(pkg.name).toBe('Acme Corp EDI Guide');
+      expect(pkg.partner).toBe('Acme Corp');
+      expect(pkg.specifications.map(s => s.id)).toEqual(['po']);
+      expect(pkg.contacts).toEqual([]);
+    });
+
+    it('should use the given name', () => {
+      expect(createPackage(spec('850', 'po'), 'Retail Suite').name).toBe('Retail Suite');
+    });
+  });
+
+  describe('package membership', () => {
+    it('should add, replace and remove specifications without mutating the package', () => {
+      const pkg = createPackage(spec('850', 'po'));
+      const withAsn = addSpecification(pkg, spec('856', 'asn'));
+      const renamed = { ...withAsn.specifications[1], metadata: { ...withAsn.specifications[1].metadata, name: 'ASN' } };
+      const replaced = replaceSpecification(withAsn, renamed);
+      const removed = removeSpecification(replaced, 'po');
+
+      expect(pkg.specifications).toHaveLength(1);
+      expect(withAsn.specifications.map(s => s.id)).toEqual(['po', 'asn']);
+      expect(replaced.specifications[1].metadata.name).toBe('ASN');
+      expect(removed.specifications.map(s => s.id)).toEqual(['asn']);
+    });
+  });
+
+  describe('applyPackageMetadata', () => {
+    it('should apply the shared partner', () => {
+      const pkg = { ...createPackage(spec('850', 'po')), partner: 'Acme Corp' };
+
+      expect(applyPackageMetadata(pkg, spec('810', 'inv', 'Old Name')).metadata.partner).toBe('Acme Corp');
+    });
+
+    it('should keep the specification partner when the package has none', () => {
+      const pkg = createPackage(spec('850', 'po'));
+      const invoice = spec('810', 'inv', 'Own Partner');
+
+      expect(applyPackageMetadata(pkg, invoice)).toBe(invoice);
+    });
+
+    it('should apply the shared envelope but keep GS01 and GS08 per transaction set', () => {
+      const order = spec('850', 'po');
+      const envelope = { ...createDefaultEnvelope(order.metadata), senderId: 'ACME', usageIndicator: 'P' };
+      const pkg = { ...createPackage(order), envelope };
+      const created = spec('810', 'inv');
+      const invoice = {
+        ...created,
+        envelope: { ...createDefaultEnvelope(created.metadata), senderId: 'OLD', versionCode: '004010' },
+      };
+
+      const applied = applyPackageMetadata(pkg, invoice);
+
+      expect(applied.envelope).toMatchObject({
+        senderId: 'ACME',
+        usageIndicator: 'P',
+        functionalIdentifierCode: 'IN',
+        versionCode: '004010',
+      });
+    });
+
+    it('should derive GS01 and GS08 for a transaction set without its own envelope', () => {
+      const order = spec('850', 'po');
+      const pkg = { ...createPackage(order), envelope: { ...createDefaultEnvelope(order.metadata), senderId: 'ACME' } };
+
+      const applied = applyPackageMetadata(pkg, spec('810', 'inv'));
+
+      expect(applied.envelope?.senderId).toBe('ACME');
+      expect(applied.envelope?.functionalIdentifierCode).toBe('IN');
+    });
+  });
+
+  describe('formatTransactionSetLabel', () => {
+    it('should combine the transaction set and its name', () => {
+      expect(formatTransactionSetLabel(spec('850', 'po'))).toBe('850 - Purchase Order');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for X12 Syntax Notes
+ */
+
+import {
+  formatSyntaxRule,
+  parseSyntaxRule,
+  describeSyntaxRule,
+  evaluateSyntaxRule,
+} from '../utils/syntax-rules';
+import { SyntaxRule, SyntaxRuleType } from '../models/edi-types';
+
+const rule = (type: SyntaxRuleType, positions: number[]): SyntaxRule => ({ id: 'rule-1', type, positions });
+
+const presence = (...positions: number[]) => (position: number) => positions.includes(position);
+
+describe('syntax-rules', () => {
+  describe('formatSyntaxRule', () => {
+    it('should format type and two-digit positions', () => {
+      expect(formatSyntaxRule(rule('P', [4, 5]))).toBe('P0405');
+      expect(formatSyntaxRule(rule('L', [10, 4, 5]))).toBe('L100405');
+    });
+  });
+
+  describe('parseSyntaxRule', () => {
+    it('should parse X12 syntax note codes', () => {
+      expect(parseSyntaxRule('C0506')).toEqual({ type: 'C', positions: [5, 6] });
+      expect(parseSyntaxRule(' r020305 ')).toEqual({ type: 'R', positions: [2, 3, 5] });
+    });
+
+    it('should reject malformed codes', () => {
+      expect(parseSyntaxRule('X0102')).toBeNull();
+      expect(parseSyntaxRule('P01')).toBeNull();
+      expect(parseSyntaxRule('P012')).toBeNull();
+    });
+  });
+
+  describe('describeSyntaxRule', () => {
+    it('should describe each rule type with element references', () => {
+      expect(describeSyntaxRule(rule('P', [3, 4]), 'N1')).toBe('If either N103 or N104 is present, then the other is required.');
+      expect(describeSyntaxRule(rule('R', [2, 3]), 'N1')).toBe('At least one of N102 or N103 is required.');
+      expect(describeSyntaxRule(rule('E', [1, 2, 3]), 'PER')).toBe('Only one of PER01, PER02 or PER03 may be present.');
+      expect(describeSyntaxRule(rule('C', [5, 6]), 'PER')).toBe('If PER05 is present, then PER06 is required.');
+      expect(describeSyntaxRule(rule('L', [1, 2, 3]), 'REF')).toBe('If REF01 is present, then at least one of REF02 or REF03 is required.');
+    });
+  });
+
+  describe('evaluateSyntaxRule', () => {
+    it('should require all or none of paired elements', () => {
+      expect(evaluateSyntaxRule(rule('P', [3, 4]), presence())).toBe(true);
+      expect(evaluateSyntaxRule(rule('P', [3, 4]), presence(3, 4))).toBe(true);
+      expect(evaluateSyntaxRule(rule('P', [3, 4]), presence(3))).toBe(false);
+    });
+
+    it('should require at least one element', () => {
+      expect(evaluateSyntaxRule(rule('R', [2, 3]), presence(3))).toBe(true);
+      expect(evaluateSyntaxRule(rule('R', [2, 3]), presence(1))).toBe(false);
+    });
+
+    it('should allow at most one excluded element', () => {
+      expect(evaluateSyntaxRule(rule('E', [2, 3]), presence(2))).toBe(true);
+      expect(evaluateSyntaxRule(rule('E', [2, 3]), presence(2, 3))).toBe(false);
+    });
+
+    it('should require the others when the first conditional element is present', () => {
+      expect(evaluateSyntaxRule(rule('C', [5, 6, 7]), presence(6))).toBe(true);
+      expect(evaluateSyntaxRule(rule('C', [5, 6, 7]), presence(5, 6, 7))).toBe(true);
+      expect(evaluateSyntaxRule(rule('C', [5, 6, 7]), presence(5, 6))).toBe(false);
+    });
+
+    it('should require one of the others when the first list conditional element is present', () => {
+      expect(evaluateSyntaxRule(rule('L', [1, 2, 3]), presence(1, 3))).toBe(true);
+      expect(evaluateSyntaxRule(rule('L', [1, 2, 3]), presence(2))).toBe(true);
+      expect(evaluateSyntaxRule(rule('L', [1, 2, 3]), presence(1))).toBe(false);
+    });
+  });
+});
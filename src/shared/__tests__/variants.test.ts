@@ -0,0 +1,385 @@
+/**
+ * Tests for Variant Utilities
+ */
+
+import {
+  listVariantElements,
+  listCodedElements,
+  setCodeOverride,
+  describeCodeOverrides,
+  setElementOverride,
+  applyVariant,
+  hasElementOverrides,
+  findDiscriminatorElement,
+  validateDiscriminators,
+  groupDiscriminators,
+  formatDiscriminators,
+  matchesDiscriminator,
+  matchesVariant,
+  analyzeVariants,
+  findVariantConflicts,
+} from '../utils/variants';
+import { Segment, Variant, DiscriminatorRule, Specification } from '../models/edi-types';
+
+const createSegment = (): Segment => ({
+  id: 'seg-n1',
+  name: 'N1',
+  description: 'Party Identification',
+  usage: 'M',
+  minUse: 1,
+  maxUse: 1,
+  elements: [
+    {
+      id: 'n101',
+      position: 1,
+      name: 'Entity Identifier Code',
+      dataType: 'ID',
+      minLength: 2,
+      maxLength: 3,
+      usage: 'M',
+      codeValues: [
+        { code: 'ST', description: 'Ship To', included: true },
+        { code: 'BT', description: 'Bill To', included: true },
+      ],
+    },
+    { id: 'n102', position: 2, name: 'Name', dataType: 'AN', minLength: 1, maxLength: 60, usage: 'O' },
+    {
+      id: 'n110',
+      position: 10,
+      name: 'Composite',
+      dataType: 'AN',
+      minLength: 1,
+      maxLength: 10,
+      usage: 'O',
+      components: [
+        {
+          id: 'n110-1',
+          position: 1,
+          name: 'Qualifier',
+          dataType: 'ID',
+          minLength: 2,
+          maxLength: 2,
+          usage: 'M',
+          codeValues: [{ code: 'ZZ', description: 'Mutually Defined', included: true }],
+        },
+      ],
+    },
+  ],
+});
+
+const variant: Variant = { id: 'var-1', label: 'Ship To', discriminators: [] };
+
+describe('variants', () => {
+  describe('listVariantElements', () => {
+    it('should list elements and components with reference designators', () => {
+      expect(listVariantElements([createSegment()]).map(e => e.ref)).toEqual(['N101', 'N102', 'N110', 'N110-1']);
+    });
+  });
+
+  describe('listCodedElements', () => {
+    it('should only list elements with code values', () => {
+      expect(listCodedElements([createSegment()]).map(e => e.element.id)).toEqual(['n101', 'n110-1']);
+    });
+  });
+
+  describe('setCodeOverride', () => {
+    it('should add and remove element overrides', () => {
+      const codes = [{ code: 'ST', description: 'Ship To', included: true }];
+      const overrides = setCodeOverride(variant, 'n101', codes);
+
+      expect(overrides).toEqual({ n101: codes });
+      expect(setCodeOverride({ ...variant, codeOverrides: overrides }, 'n101', undefined)).toBeUndefined();
+    });
+  });
+
+  describe('describeCodeOverrides', () => {
+    it('should resolve overrides to reference designators and skip stale element ids', () => {
+      const withOverrides: Variant = {
+        ...variant,
+        codeOverrides: {
+          n101: [{ code: 'ST', description: 'Ship To', included: true }],
+          removed: [{ code: 'XX', description: 'Gone', included: true }],
+        },
+      };
+
+      const described = describeCodeOverrides(withOverrides, [createSegment()]);
+
+      expect(described.map(d => d.ref)).toEqual(['N101']);
+      expect(described[0].codes[0].code).toBe('ST');
+    });
+  });
+
+  describe('setElementOverride', () => {
+    it('should drop empty fields and clear the last override', () => {
+      const overrides = setElementOverride(variant, 'n102', { usage: 'M', fixedValue: '', comments: undefined });
+
+      expect(overrides).toEqual({ n102: { usage: 'M' } });
+      expect(setElementOverride({ ...variant, elementOverrides: overrides }, 'n102', undefined)).toBeUndefined();
+    });
+  });
+
+  describe('applyVariant', () => {
+    it('should apply element overrides and code overrides', () => {
+      const withOverrides: Variant = {
+        ...variant,
+        elementOverrides: { n102: { usage: 'M', minLength: 2, maxLength: 35, comments: 'Warehouse name' } },
+        codeOverrides: { 'n110-1': [{ code: 'ZZ', description: 'Mutually Defined', included: false }] },
+      };
+
+      const segment = applyVariant(createSegment(), withOverrides);
+
+      expect(segment.elements[1]).toMatchObject({ usage: 'M', minLength: 2, maxLength: 35, comments: 'Warehouse name' });
+      expect(segment.elements[2].components![0].codeValues![0].included).toBe(false);
+      expect(segment.elements[0]).toEqual(createSegment().elements[0]);
+    });
+
+    it('should narrow codes to a fixed value and note it', () => {
+      const withOverrides: Variant = { ...variant, elementOverrides: { n101: { fixedValue: 'ST' } } };
+
+      const n101 = applyVariant(createSegment(), withOverrides).elements[0];
+
+      expect(n101.codeValues!.map(cv => cv.code)).toEqual(['ST']);
+      expect(n101.comments).toBe('Fixed value: ST');
+    });
+  });
+
+  describe('hasElementOverrides', () => {
+    it('should detect overrides on elements and components of the segment', () => {
+      expect(hasElementOverrides(variant, createSegment())).toBe(false);
+      expect(hasElementOverrides({ ...variant, elementOverrides: { 'n110-1': { usage: 'O' } } }, createSegment())).toBe(true);
+      expect(hasElementOverrides({ ...variant, elementOverrides: { other: { usage: 'O' } } }, createSegment())).toBe(false);
+    });
+
+    it('should ignore overrides that are switched on but empty', () => {
+      expect(hasElementOverrides({ ...variant, elementOverrides: { 'n110-1': {} } }, createSegment())).toBe(false);
+    });
+  });
+
+  describe('findDiscriminatorElement', () => {
+    it('should match reference designators regardless of case', () => {
+      const rule = { elementId: 'n110-1', operator: 'equals' as const, values: ['ZZ'] };
+
+      expect(findDiscriminatorElement(rule, createSegment())?.element.id).toBe('n110-1');
+      expect(findDiscriminatorElement({ ...rule, elementId: 'N105' }, createSegment())).toBeUndefined();
+    });
+  });
+
+  describe('validateDiscriminators', () => {
+    it('should accept rules on existing elements with included codes', () => {
+      const withRules: Variant = {
+        ...variant,
+        discriminators: [
+          { elementId: 'N101', operator: 'one-of', values: ['ST', 'BT'] },
+          { elementId: 'N102', operator: 'equals', values: ['Anything'] },
+        ],
+      };
+
+      expect(validateDiscriminators(withRules, createSegment())).toEqual([]);
+    });
+
+    it('should flag missing elements, unknown positions and unknown codes', () => {
+      const withRules: Variant = {
+        ...variant,
+        discriminators: [
+          { elementId: '', operator: 'equals', values: [''] },
+          { elementId: 'N105', operator: 'equals', values: ['ST'] },
+          { elementId: 'N101', operator: 'equals', values: ['XX'] },
+        ],
+      };
+
+      expect(validateDiscriminators(withRules, createSegment())).toEqual([
+        { index: 0, message: 'Choose the element this rule checks' },
+        { index: 1, message: 'N105 is not an element of N1' },
+        { index: 2, message: 'XX is not a code of N101' },
+      ]);
+    });
+
+    it('should flag codes excluded by the element or the variant code override', () => {
+      const withRules: Variant = {
+        ...variant,
+        discriminators: [{ elementId: 'N101', operator: 'one-of', values: ['ST', 'BT'] }],
+        codeOverrides: {
+          n101: [
+            { code: 'ST', description: 'Ship To', included: true },
+            { code: 'BT', description: 'Bill To', included: false },
+          ],
+        },
+      };
+
+      expect(validateDiscriminators(withRules, createSegment())).toEqual([
+        { index: 0, message: 'BT is excluded from the N101 code list' },
+      ]);
+    });
+  });
+
+  describe('discriminator operators', () => {
+    const refRules: DiscriminatorRule[] = [
+      { elementId: 'REF01', operator: 'one-of', values: ['BM', 'PK'] },
+      { elementId: 'REF03', operator: 'absent', values: [] },
+      { elementId: 'REF02', operator: 'present', values: [], connector: 'or' },
+    ];
+
+    it('should split rules into OR groups', () => {
+      expect(groupDiscriminators(refRules).map(group => group.length)).toEqual([2, 1]);
+    });
+
+    it('should format rules with AND binding tighter than OR', () => {
+      expect(formatDiscriminators(refRules)).toBe('REF01 in (BM, PK) AND REF03 absent OR REF02 present');
+      expect(
+        formatDiscriminators([
+          { elementId: 'N101', operator: 'not-equals', values: ['ST'] },
+          { elementId: 'N103', operator: 'not-in', values: ['1', '9'] },
+          { elementId: 'N104', operator: 'matches', values: ['[0-9]{9}'] },
+        ])
+      ).toBe('N101 != ST AND N103 not in (1, 9) AND N104 matches [0-9]{9}');
+    });
+
+    it('should evaluate each operator against an element value', () => {
+      const rule = (operator: DiscriminatorRule['operator'], values: string[] = []): DiscriminatorRule => ({
+        elementId: 'N101',
+        operator,
+        values,
+      });
+
+      expect(matchesDiscriminator(rule('equals', ['ST']), 'ST')).toBe(true);
+      expect(matchesDiscriminator(rule('one-of', ['ST', 'BT']), 'SU')).toBe(false);
+      expect(matchesDiscriminator(rule('not-equals', ['ST']), 'BT')).toBe(true);
+      expect(matchesDiscriminator(rule('not-in', ['ST', 'BT']), 'BT')).toBe(false);
+      expect(matchesDiscriminator(rule('present'), '')).toBe(false);
+      expect(matchesDiscriminator(rule('absent'), undefined)).toBe(true);
+      expect(matchesDiscriminator(rule('matches', ['[0-9]{9}']), '123456789')).toBe(true);
+      expect(matchesDiscriminator(rule('matches', ['[0-9]{9}']), '1234567890')).toBe(false);
+      expect(matchesDiscriminator(rule('matches', ['[']), '[')).toBe(false);
+    });
+
+    it('should select a variant when any OR group matches', () => {
+      const refVariant: Variant = { ...variant, discriminators: refRules };
+      const values = (map: Record<string, string>) => (ref: string) => map[ref];
+
+      expect(matchesVariant(refVariant, values({ REF01: 'BM' }))).toBe(true);
+      expect(matchesVariant(refVariant, values({ REF01: 'BM', REF03: 'X' }))).toBe(false);
+      expect(matchesVariant(refVariant, values({ REF01: 'ZZ', REF02: '123' }))).toBe(true);
+      expect(matchesVariant(variant, values({ REF01: 'BM' }))).toBe(false);
+    });
+
+    it('should validate patterns and skip values for presence checks', () => {
+      const withRules: Variant = {
+        ...variant,
+        discriminators: [
+          { elementId: 'N102', operator: 'matches', values: ['(abc'] },
+          { elementId: 'N101', operator: 'present', values: [] },
+          { elementId: 'N101', operator: 'not-in', values: ['XX'] },
+        ],
+      };
+
+      expect(validateDiscriminators(withRules, createSegment())).toEqual([
+        { index: 0, message: '(abc is not a valid pattern' },
+        { index: 2, message: 'XX is not a code of N101' },
+      ]);
+    });
+  });
+
+  describe('analyzeVariants', () => {
+    const partyVariant = (id: string, label: string, rules: DiscriminatorRule[]): Variant => ({
+      id,
+      label,
+      discriminators: rules,
+    });
+
+    it('should report nothing for variants that cover the code list without overlapping', () => {
+      const variants = [
+        partyVariant('st', 'Ship To', [{ elementId: 'N101', operator: 'equals', values: ['ST'] }]),
+        partyVariant('bt', 'Bill To', [{ elementId: 'N101', operator: 'equals', values: ['BT'] }]),
+      ];
+
+      expect(analyzeVariants(variants, createSegment())).toEqual([]);
+    });
+
+    it('should report variants matching the same data', () => {
+      const variants = [
+        partyVariant('st', 'Ship To', [{ elementId: 'N101', operator: 'equals', values: ['ST'] }]),
+        partyVariant('any', 'Any Party', [{ elementId: 'N101', operator: 'one-of', values: ['ST', 'BT'] }]),
+      ];
+
+      expect(analyzeVariants(variants, createSegment())).toEqual([
+        { kind: 'overlap', variantIds: ['st', 'any'], message: 'Ship To and Any Party both match N101=ST' },
+      ]);
+    });
+
+    it('should name unlabeled variants in overlap messages', () => {
+      const variants = [
+        partyVariant('st', 'Ship To', [{ elementId: 'N101', operator: 'equals', values: ['ST'] }]),
+        partyVariant('any', '', [{ elementId: 'N101', operator: 'one-of', values: ['ST', 'BT'] }]),
+      ];
+
+      expect(analyzeVariants(variants, createSegment())[0].message).toBe('Ship To and Unnamed variant both match N101=ST');
+    });
+
+    it('should report included codes that select no variant', () => {
+      const variants = [
+        partyVariant('st', 'Ship To', [{ elementId: 'N101', operator: 'equals', values: ['ST'] }]),
+        partyVariant('named', 'Named', [
+          { elementId: 'N101', operator: 'equals', values: ['ST'] },
+          { elementId: 'N102', operator: 'absent', values: [] },
+        ]),
+      ];
+
+      expect(analyzeVariants(variants, createSegment())).toEqual([
+        { kind: 'overlap', variantIds: ['st', 'named'], message: 'Ship To and Named both match N101=ST, N102 absent' },
+        { kind: 'gap', variantIds: [], message: 'No variant matches N101=BT' },
+      ]);
+    });
+
+    it('should report variants without rules and skip single variants', () => {
+      const variants = [
+        partyVariant('st', 'Ship To', [{ elementId: 'N101', operator: 'equals', values: ['ST'] }]),
+        partyVariant('empty', 'Fallback', []),
+      ];
+
+      expect(analyzeVariants(variants, createSegment())).toEqual([
+        expect.objectContaining({ kind: 'unconditional', variantIds: ['empty'] }),
+        expect.objectContaining({ kind: 'gap' }),
+      ]);
+      expect(analyzeVariants([variants[0]], createSegment())).toEqual([]);
+    });
+  });
+
+  describe('findVariantConflicts', () => {
+    it('should check loop variants against the first segment and segment variants against themselves', () => {
+      const overlapping: Variant[] = [
+        { id: 'a', label: 'A', discriminators: [{ elementId: 'N101', operator: 'equals', values: ['ST'] }] },
+        { id: 'b', label: 'B', discriminators: [{ elementId: 'N101', operator: 'not-equals', values: ['BT'] }] },
+      ];
+      const spec: Specification = {
+        id: 'spec-1',
+        metadata: {
+          name: 'Test',
+          version: '1.0',
+          transactionSet: '850',
+          transactionSetName: 'Purchase Order',
+          ediVersion: '005010',
+          createdDate: '2024-01-01T00:00:00Z',
+          modifiedDate: '2024-01-01T00:00:00Z',
+        },
+        loops: [
+          {
+            id: 'loop-n1',
+            name: 'N1',
+            usage: 'O',
+            minUse: 0,
+            maxUse: 200,
+            segments: [{ ...createSegment(), variants: overlapping }],
+            loops: [],
+            variants: overlapping,
+          },
+        ],
+        examples: [],
+      };
+
+      expect(findVariantConflicts(spec).map(r => [r.nodeId, r.label, r.conflicts[0].message])).toEqual([
+        ['loop-n1', 'Loop N1', 'A and B both match N101=ST'],
+        ['seg-n1', 'Segment N1', 'A and B both match N101=ST'],
+      ]);
+    });
+  });
+});
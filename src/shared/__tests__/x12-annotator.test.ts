@@ -0,0 +1,141 @@
+/**
+ * Tests for X12 Interchange Annotator
+ */
+
+import { annotateInterchange, explainSegment } from '../utils/x12-annotator';
+import { Specification } from '../models/edi-types';
+import { element, segment, loop, specification } from './helpers/spec-fixtures';
+
+const createSpecification = (): Specification =>
+  specification(
+    [
+      loop('2400', {
+        usage: 'M',
+        minUse: 1,
+        segments: [
+          segment('LX', { usage: 'M', minUse: 1, elements: [element(1, { id: 'lx01', usage: 'M', dataType: 'N0', maxLength: 6 })] }),
+          segment('SV1', {
+            usage: 'M',
+            minUse: 1,
+            elements: [
+              element(1, {
+                id: 'sv101',
+                usage: 'M',
+                components: [
+                  element(1, { id: 'sv101-1', usage: 'M', dataType: 'ID', minLength: 2, maxLength: 2, codeValues: [
+                    { code: 'HC', description: 'HCPCS Codes', included: true },
+                  ] }),
+                  element(2, { id: 'sv101-2', usage: 'M' }),
+                ],
+              }),
+              element(2, { id: 'sv102', usage: 'M', dataType: 'R', maxLength: 18 }),
+            ],
+          }),
+        ],
+      }),
+    ],
+    { name: 'Test 837', transactionSet: '837', transactionSetName: 'Health Care Claim' }
+  );
+
+const CONTENT = [
+  'ISA*00*          *00*          *ZZ*SENDER         *ZZ*RECEIVER       *240101*1200*^*00501*000000001*0*P*:~',
+  'GS*HC*SENDER*RECEIVER*20240101*1200*1*X*005010~',
+  'ST*837*0001~',
+  'LX*1~',
+  'SV1*XX:99213*ABC~',
+  'NTE*ADD*Note~',
+  'SE*5*0001~',
+  'GE*1*1~',
+  'IEA*1*000000001~',
+].join('\n');
+
+describe('x12-annotator', () => {
+  describe('annotateInterchange', () => {
+    it('should keep every segment in content order', () => {
+      const result = annotateInterchange(CONTENT, createSpecification());
+
+      expect(result.segments.map(s => s.segment.id)).toEqual(['ISA', 'GS', 'ST', 'LX', 'SV1', 'NTE', 'SE', 'GE', 'IEA']);
+      expect(result.delimiters.component).toBe(':');
+    });
+
+    it('should mark envelope and control segments the specification does not define', () => {
+      const result = annotateInterchange(CONTENT, createSpecification());
+
+      expect(result.segments.filter(s => s.control).map(s => s.segment.id)).toEqual(['ISA', 'GS', 'ST', 'SE', 'GE', 'IEA']);
+    });
+
+    it('should link segments and elements to the specification', () => {
+      const lx = annotateInterchange(CONTENT, createSpecification()).segments[3];
+
+      expect(lx.spec?.id).toBe('seg-LX');
+      expect(lx.loopPath).toEqual(['2400']);
+      expect(lx.elements[0]).toMatchObject({ position: 1, value: '1', components: [] });
+      expect(lx.elements[0].spec?.id).toBe('lx01');
+      expect(lx.issues).toEqual([]);
+    });
+
+    it('should split composites and attach issues to the element or component', () => {
+      const sv1 = annotateInterchange(CONTENT, createSpecification()).segments[4];
+
+      expect(sv1.elements[0].components.map(c => [c.value, c.spec?.id])).toEqual([
+        ['XX', 'sv101-1'],
+        ['99213', 'sv101-2'],
+      ]);
+      expect(sv1.elements[0].components[0].issues[0].rule).toBe('code-value');
+      expect(sv1.elements[0].components[1].issues).toEqual([]);
+      expect(sv1.elements[1].issues[0].rule).toBe('data-type');
+      expect(sv1.issues).toHaveLength(2);
+    });
+
+    it('should leave unexpected segments without a specification', () => {
+      const nte = annotateInterchange(CONTENT, createSpecification()).segments[5];
+
+      expect(nte.spec).toBeNull();
+      expect(nte.control).toBe(false);
+      expect(nte.elements.every(e => e.spec === null)).toBe(true);
+      expect(nte.issues[0].rule).toBe('unexpected-segment');
+    });
+  });
+
+  describe('explainSegment', () => {
+    it('should name the segment and list its element values with code descriptions', () => {
+      const spec = createSpecification();
+      const content = CONTENT.replace('SV1*XX:99213*ABC', 'SV1*HC:99213*125.5');
+      const segments = annotateInterchange(content, spec).segments;
+
+      expect(explainSegment(segments[3])).toBe('LX: LX01=1');
+      expect(explainSegment(segments[4])).toBe('SV1: SV101-1=HC HCPCS Codes, SV101-2=99213, SV102=125.5');
+    });
+
+    it('should explain control and unknown segments', () => {
+      const segments = annotateInterchange(CONTENT, createSpecification()).segments;
+
+      expect(explainSegment(segments[0])).toBe('ISA Interchange Control Header');
+      expect(explainSegment(segments[5])).toBe('NTE is not defined in this specification');
+    });
+
+    it('should keep coded values when limiting the element list', () => {
+      const spec = createSpecification();
+      const sv1 = spec.loops[0].segments[1];
+      sv1.description = 'Professional Service';
+      sv1.elements.push(
+        { id: 'sv103', position: 3, name: 'Unit', dataType: 'AN', minLength: 1, maxLength: 5, usage: 'O' },
+        { id: 'sv104', position: 4, name: 'Quantity', dataType: 'AN', minLength: 1, maxLength: 5, usage: 'O' },
+        {
+          id: 'sv105',
+          position: 5,
+          name: 'Facility Code',
+          dataType: 'AN',
+          minLength: 1,
+          maxLength: 2,
+          usage: 'O',
+          codeValues: [{ code: '11', description: 'Office', included: true }],
+        }
+      );
+      const content = CONTENT.replace('SV1*XX:99213*ABC', 'SV1*XX:1*2*B*C*11');
+      const segment = annotateInterchange(content, spec).segments[4];
+
+      expect(explainSegment(segment)).toBe('SV1 Professional Service: SV101-1=XX, SV101-2=1, SV102=2, SV105=11 Office');
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for Sample X12 Generator
+ */
+
+import { generateSampleX12 } from '../utils/x12-generator';
+import { validateInterchange } from '../utils/x12-validator';
+import { createDefaultEnvelope } from '../utils/envelope';
+import { Specification } from '../models/edi-types';
+import { element, segment, loop, specification } from './helpers/spec-fixtures';
+
+const createSpecification = (): Specification =>
+  specification([
+    loop('HEADER', {
+      usage: 'M',
+      minUse: 1,
+      segments: [
+        segment('ST', {
+          usage: 'M',
+          minUse: 1,
+          elements: [
+            element(1, { usage: 'M', dataType: 'ID', minLength: 3, maxLength: 3 }),
+            element(2, { usage: 'M', minLength: 4, maxLength: 9 }),
+          ],
+        }),
+        segment('BEG', {
+          usage: 'M',
+          minUse: 1,
+          elements: [
+            element(1, { usage: 'M', dataType: 'ID', minLength: 2, maxLength: 2, codeValues: [
+              { code: '01', description: 'Cancellation', included: false },
+              { code: '00', description: 'Original', included: true },
+            ] }),
+            element(2, { usage: 'M', dataType: 'ID', minLength: 2, maxLength: 2 }),
+            element(3, { usage: 'M', minLength: 1, maxLength: 22, example: { value: 'PO-1001' } }),
+            element(5, { usage: 'M', dataType: 'DT', minLength: 8, maxLength: 8 }),
+          ],
+        }),
+        segment('REF', {
+          maxUse: 2,
+          elements: [element(1, { usage: 'M', dataType: 'ID', minLength: 2, maxLength: 3 }), element(2), element(3)],
+          syntaxRules: [{ id: 'r1', type: 'R', positions: [2, 3] }],
+        }),
+      ],
+      loops: [
+        loop('N1', {
+          maxUse: 2,
+          segments: [
+            segment('N1', {
+              usage: 'M',
+              minUse: 1,
+              example: { value: 'N1*ST*Acme Warehouse~' },
+              elements: [element(1, { usage: 'M', dataType: 'ID', minLength: 2, maxLength: 3 }), element(2, { maxLength: 60 })],
+            }),
+          ],
+        }),
+      ],
+    }),
+    loop('DETAIL', {
+      usage: 'M',
+      minUse: 1,
+      loops: [
+        loop('PO1', {
+          usage: 'M',
+          minUse: 2,
+          maxUse: 100,
+          segments: [
+            segment('PO1', {
+              usage: 'M',
+              minUse: 1,
+              elements: [
+                element(1, { maxLength: 20 }),
+                element(2, { usage: 'M', dataType: 'R', maxLength: 15 }),
+                element(3, { usage: 'M', dataType: 'ID', minLength: 2, maxLength: 2, codeValues: [{ code: 'EA', description: 'Each', included: true }] }),
+                element(4, { dataType: 'N2', minLength: 3, maxLength: 10 }),
+              ],
+            }),
+          ],
+        }),
+      ],
+    }),
+    loop('SUMMARY', {
+      usage: 'M',
+      minUse: 1,
+      segments: [
+        segment('CTT', { elements: [element(1, { usage: 'M', dataType: 'N0', maxLength: 6 })] }),
+        segment('SE', {
+          usage: 'M',
+          minUse: 1,
+          elements: [element(1, { usage: 'M', dataType: 'N0', maxLength: 10 }), element(2, { usage: 'M', minLength: 4, maxLength: 9 })],
+        }),
+      ],
+    }),
+  ]);
+
+const DATE = new Date(2024, 2, 15, 9, 30);
+
+const lines = (content: string) => content.split('\n').map(line => line.replace(/~$/, ''));
+
+describe('x12-generator', () => {
+  describe('generateSampleX12', () => {
+    it('should generate only the required segments in mandatory scope', () => {
+      const content = generateSampleX12(createSpecification(), { scope: 'mandatory', date: DATE });
+
+      expect(lines(content).slice(2, -2)).toEqual([
+        'ST*850*0001',
+        'BEG*00*SA*PO-1001**20240315',
+        'PO1**1*EA',
+        'PO1**1*EA',
+        'CTT*1',
+        'SE*6*0001',
+      ]);
+    });
+
+    it('should generate every segment, loop and element in all scope', () => {
+      const content = generateSampleX12(createSpecification(), { scope: 'all', date: DATE });
+
+      expect(lines(content).slice(2, -2)).toEqual([
+        'ST*850*0001',
+        'BEG*00*SA*PO-1001**20240315',
+        'REF*SAM*SAMPLE*SAMPLE',
+        'N1*ST*Acme Warehouse',
+        'PO1*SAMPLE*1*EA*001',
+        'PO1*SAMPLE*1*EA*001',
+        'CTT*1',
+        'SE*8*0001',
+      ]);
+    });
+
+    it('should produce an interchange that passes validation', () => {
+      for (const scope of ['mandatory', 'all'] as const) {
+        const result = validateInterchange(generateSampleX12(createSpecification(), { scope, date: DATE }), createSpecification());
+
+        expect(result.issues).toEqual([]);
+      }
+    });
+
+    it('should satisfy syntax notes for optional elements', () => {
+      const spec = createSpecification();
+      spec.loops[0].segments[2] = { ...spec.loops[0].segments[2], usage: 'M', minUse: 1 };
+
+      const content = generateSampleX12(spec, { scope: 'mandatory', date: DATE });
+
+      expect(lines(content)).toContain('REF*SAM*SAMPLE');
+    });
+
+    it('should build the envelope from the envelope requirements', () => {
+      const spec = createSpecification();
+      spec.envelope = {
+        ...createDefaultEnvelope(spec.metadata),
+        senderId: 'ACME',
+        receiverId: 'RETAILER',
+        usageIndicator: 'P',
+        elementSeparator: '|',
+        componentSeparator: '>',
+        segmentTerminator: '~',
+      };
+
+      const content = generateSampleX12(spec, { scope: 'mandatory', date: DATE, controlNumber: 42 });
+      const [isa, gs] = lines(content);
+
+      expect(isa).toBe('ISA|00|          |00|          |ZZ|ACME           |ZZ|RETAILER       |240315|0930|^|00501|000000042|0|P|>');
+      expect(gs).toBe('GS|PO|ACME|RETAILER|20240315|0930|42|X|005010');
+      expect(lines(content).slice(-2)).toEqual(['GE|1|42', 'IEA|1|000000042']);
+      expect(validateInterchange(content, spec).issues).toEqual([]);
+    });
+
+    it('should add ST and SE when the specification does not define them', () => {
+      const spec = createSpecification();
+      spec.loops[0].segments.shift();
+      spec.loops[2].segments.pop();
+
+      const content = generateSampleX12(spec, { scope: 'mandatory', date: DATE });
+
+      expect(lines(content)[2]).toBe('ST*850*0001');
+      expect(lines(content)[lines(content).length - 3]).toBe('SE*6*0001');
+    });
+
+    it('should write summary segments after the nested loops of an imported transaction set loop', () => {
+      // The shape importers produce: one TS loop with ST, BEG, REF, CTT, SE and the nested loops after them
+      const sectioned = createSpecification();
+      const [header, detail, summary] = sectioned.loops;
+      const spec: Specification = {
+        ...sectioned,
+        loops: [
+          loop('TS850', {
+            usage: 'M',
+            minUse: 1,
+            segments: [...header.segments, ...summary.segments],
+            loops: [...header.loops, ...detail.loops],
+          }),
+        ],
+      };
+
+      const mandatory = generateSampleX12(spec, { scope: 'mandatory', date: DATE });
+      const all = generateSampleX12(spec, { scope: 'all', date: DATE });
+
+      expect(lines(all).slice(2, -2).map(line => line.split('*')[0])).toEqual(['ST', 'BEG', 'REF', 'N1', 'PO1', 'PO1', 'CTT', 'SE']);
+      expect(lines(all)[lines(all).length - 3]).toBe('SE*8*0001');
+      expect(validateInterchange(mandatory, spec).issues).toEqual([]);
+      expect(validateInterchange(all, spec).issues).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for X12 Interchange Parser
+ */
+
+import {
+  readDelimiters,
+  tokenizeX12,
+  splitComponents,
+  splitRepetitions,
+  parseX12,
+  triggerSegmentId,
+  DEFAULT_DELIMITERS,
+  X12LoopNode,
+  X12SegmentNode,
+} from '../utils/x12-parser';
+import { loop, segment, specification } from './helpers/spec-fixtures';
+
+const segments = (...names: string[]) => names.map(name => segment(name));
+
+const ISA_00501 = 'ISA*00*          *00*          *ZZ*SENDER         *ZZ*RECEIVER       *240101*1200*^*00501*000000001*0*P*>~';
+const ISA_00401 = 'ISA|00|          |00|          |ZZ|SENDER         |ZZ|RECEIVER       |240101|1200|U|00401|000000001|0|P|:\n';
+
+describe('x12-parser', () => {
+  describe('readDelimiters', () => {
+    it('should read element, component, repetition and segment delimiters from ISA', () => {
+      expect(readDelimiters(ISA_00501)).toEqual({ element: '*', component: '>', repetition: '^', segment: '~' });
+    });
+
+    it('should not treat an alphanumeric ISA11 as a repetition separator', () => {
+      expect(readDelimiters(ISA_00401)).toEqual({ element: '|', component: ':', repetition: undefined, segment: '\n' });
+    });
+
+    it('should fall back to default delimiters without an ISA segment', () => {
+      expect(readDelimiters('ST*850*0001~')).toEqual(DEFAULT_DELIMITERS);
+    });
+
+    it('should fall back to default delimiters for a truncated ISA segment', () => {
+      expect(readDelimiters('ISA*00*')).toEqual(DEFAULT_DELIMITERS);
+    });
+  });
+
+  describe('tokenizeX12', () => {
+    it('should split segments and elements with index and offset', () => {
+      const content = 'ST*850*0001~\nBEG*00*SA*PO1~\n';
+      const segments = tokenizeX12(content);
+
+      expect(segments).toHaveLength(2);
+      expect(segments[1]).toEqual({
+        index: 1,
+        id: 'BEG',
+        elements: ['00', 'SA', 'PO1'],
+        raw: 'BEG*00*SA*PO1',
+        offset: 13,
+      });
+      expect(content.substr(segments[1].offset, segments[1].raw.length)).toBe(segments[1].raw);
+    });
+
+    it('should keep empty elements in place', () => {
+      const [seg] = tokenizeX12('BEG*00*SA***20240101~');
+
+      expect(seg.elements).toEqual(['00', 'SA', '', '', '20240101']);
+    });
+
+    it('should use newline segment terminators from ISA', () => {
+      const segments = tokenizeX12(`${ISA_00401}GS|PO|A|B\nST|850|0001\n`);
+
+      expect(segments.map(s => s.id)).toEqual(['ISA', 'GS', 'ST']);
+      expect(segments[2].elements).toEqual(['850', '0001']);
+    });
+  });
+
+  describe('splitComponents and splitRepetitions', () => {
+    it('should split composite values by the component separator', () => {
+      expect(splitComponents('HC>99213>25', { ...DEFAULT_DELIMITERS, component: '>' })).toEqual(['HC', '99213', '25']);
+    });
+
+    it('should split repeated values by the repetition separator', () => {
+      expect(splitRepetitions('A^B^C', DEFAULT_DELIMITERS)).toEqual(['A', 'B', 'C']);
+    });
+
+    it('should not split repetitions when no separator is defined', () => {
+      expect(splitRepetitions('A^B', { ...DEFAULT_DELIMITERS, repetition: undefined })).toEqual(['A^B']);
+    });
+  });
+
+  describe('triggerSegmentId', () => {
+    it('should use the first segment of the loop', () => {
+      expect(triggerSegmentId(loop('N1', { segments: segments('N1', 'N3') }))).toBe('N1');
+    });
+
+    it('should use the first nested loop when the loop has no segments', () => {
+      expect(triggerSegmentId(loop('DETAIL', { loops: [loop('PO1', { segments: segments('PO1') })] }))).toBe('PO1');
+    });
+  });
+
+  describe('parseX12', () => {
+    const spec = specification([
+      loop('HEADER', {
+        segments: segments('ST', 'BEG'),
+        loops: [loop('N1', { segments: segments('N1', 'N3'), maxUse: 10 })],
+      }),
+      loop('DETAIL', {
+        loops: [
+          loop('PO1', {
+            segments: segments('PO1'),
+            maxUse: 100,
+            loops: [loop('PID', { segments: segments('PID'), maxUse: 5 })],
+          }),
+        ],
+      }),
+      loop('SUMMARY', { segments: segments('CTT', 'SE') }),
+    ]);
+
+    const content = [
+      ISA_00501,
+      'GS*PO*SENDER*RECEIVER*20240101*1200*1*X*005010~',
+      'ST*850*0001~',
+      'BEG*00*SA*PO1**20240101~',
+      'N1*ST*Ship To~',
+      'N3*1 Main St~',
+      'N1*BT*Bill To~',
+      'PO1*1*1*EA~',
+      'PID*F****Widget~',
+      'PO1*2*1*EA~',
+      'CTT*2~',
+      'SE*10*0001~',
+      'GE*1*1~',
+      'IEA*1*000000001~',
+    ].join('\n');
+
+    it('should separate envelope segments from transaction sets', () => {
+      const result = parseX12(content, spec);
+
+      expect(result.envelope.map(s => s.id)).toEqual(['ISA', 'GS', 'GE', 'IEA']);
+      expect(result.transactions).toHaveLength(1);
+      expect(result.segments).toHaveLength(14);
+    });
+
+    it('should map segments onto loop instances using trigger segments', () => {
+      const result = parseX12(content, spec);
+      const [header, detail, summary] = result.transactions[0].children as X12LoopNode[];
+
+      expect(header.loop.name).toBe('HEADER');
+      const n1Loops = header.children.filter(n => n.kind === 'loop') as X12LoopNode[];
+      expect(n1Loops).toHaveLength(2);
+      expect(n1Loops[0].children.map(n => (n as X12SegmentNode).segment.id)).toEqual(['N1', 'N3']);
+      expect(n1Loops[1].path).toEqual(['HEADER', 'N1']);
+
+      expect(detail.children).toHaveLength(2);
+      const [firstItem] = detail.children as X12LoopNode[];
+      expect(firstItem.children.map(n => n.kind)).toEqual(['segment', 'loop']);
+
+      expect(summary.children.map(n => (n as X12SegmentNode).segment.id)).toEqual(['CTT', 'SE']);
+    });
+
+    it('should record loop paths for each mapped segment', () => {
+      const result = parseX12(content, spec);
+      const pid = result.mapped.find(m => m.segment.id === 'PID')!;
+
+      expect(pid.loopPath).toEqual(['DETAIL', 'PO1', 'PID']);
+      expect(pid.loop!.name).toBe('PID');
+      expect(pid.spec!.name).toBe('PID');
+    });
+
+    it('should keep unexpected segments in the current loop with no spec', () => {
+      const withExtra = content.replace('N3*1 Main St~', 'N3*1 Main St~\nFOB*PP~');
+      const result = parseX12(withExtra, spec);
+      const fob = result.mapped.find(m => m.segment.id === 'FOB')!;
+
+      expect(fob.spec).toBeNull();
+      expect(fob.loopPath).toEqual(['HEADER', 'N1']);
+    });
+
+    it('should keep ST and SE as header and trailer when the spec does not define them', () => {
+      const bodyOnly = specification([loop('HEADER', { segments: segments('BEG') })]);
+      const result = parseX12('ST*850*0001~BEG*00*SA~SE*3*0001~', bodyOnly);
+
+      expect(result.transactions[0].header!.id).toBe('ST');
+      expect(result.transactions[0].trailer!.id).toBe('SE');
+      expect(result.mapped.map(m => m.segment.id)).toEqual(['BEG']);
+    });
+
+    it('should start a new transaction for each ST segment', () => {
+      const twice = content.replace('GE*1*1~', 'ST*850*0002~\nBEG*00*SA~\nSE*3*0002~\nGE*2*1~');
+      const result = parseX12(twice, spec);
+
+      expect(result.transactions).toHaveLength(2);
+      expect((result.transactions[1].children[0] as X12LoopNode).children).toHaveLength(2);
+    });
+
+    it('should accept trailing segments after the nested loops of an imported transaction set loop', () => {
+      // Importers build one TS loop whose segments are listed before its nested loops
+      const imported = specification([
+        loop('TS850', {
+          segments: segments('ST', 'BEG', 'CTT', 'SE'),
+          loops: [
+            loop('N1', { segments: segments('N1', 'N3'), maxUse: 10 }),
+            loop('PO1', { segments: segments('PO1'), maxUse: 100 }),
+          ],
+        }),
+      ]);
+      const result = parseX12('ST*850*0001~BEG*00*SA~N1*ST*Ship To~N3*1 Main St~PO1*1*1*EA~CTT*1~SE*7*0001~', imported);
+
+      expect(result.mapped.map(m => [m.segment.id, m.spec?.name, m.loopPath.join('/')])).toEqual([
+        ['ST', 'ST', 'TS850'],
+        ['BEG', 'BEG', 'TS850'],
+        ['N1', 'N1', 'TS850/N1'],
+        ['N3', 'N3', 'TS850/N1'],
+        ['PO1', 'PO1', 'TS850/PO1'],
+        ['CTT', 'CTT', 'TS850'],
+        ['SE', 'SE', 'TS850'],
+      ]);
+      expect(result.transactions[0].trailer).toBeUndefined();
+    });
+  });
+});
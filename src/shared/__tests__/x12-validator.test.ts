@@ -0,0 +1,307 @@
+/**
+ * Tests for X12 Interchange Validator
+ */
+
+import { validateInterchange } from '../utils/x12-validator';
+import { Specification } from '../models/edi-types';
+import { element, segment, loop, specification } from './helpers/spec-fixtures';
+
+const createSpecification = (): Specification =>
+  specification([
+    loop('HEADER', {
+      usage: 'M',
+      minUse: 1,
+      segments: [
+        segment('ST', { usage: 'M', minUse: 1, elements: [element(1, { usage: 'M' }), element(2, { usage: 'M' })] }),
+        segment('BEG', {
+          usage: 'M',
+          minUse: 1,
+          elements: [
+            element(1, { usage: 'M', dataType: 'ID', minLength: 2, maxLength: 2 }),
+            element(2, { usage: 'M', dataType: 'ID', minLength: 2, maxLength: 2 }),
+            element(3, { usage: 'M', minLength: 1, maxLength: 22 }),
+            element(5, { usage: 'M', dataType: 'DT', minLength: 8, maxLength: 8 }),
+          ],
+        }),
+        segment('REF', { maxUse: 2, elements: [element(1), element(2)] }),
+      ],
+      loops: [
+        loop('N1', {
+          maxUse: 2,
+          segments: [
+            segment('N1', {
+              usage: 'M',
+              minUse: 1,
+              elements: [
+                element(1, {
+                  usage: 'M',
+                  dataType: 'ID',
+                  minLength: 2,
+                  maxLength: 3,
+                  codeValues: [
+                    { code: 'ST', description: 'Ship To', included: true },
+                    { code: 'BT', description: 'Bill To', included: false },
+                  ],
+                }),
+                element(2, { maxLength: 60 }),
+              ],
+            }),
+            segment('N3', { elements: [element(1, { usage: 'M' })] }),
+          ],
+        }),
+      ],
+    }),
+    loop('DETAIL', {
+      usage: 'M',
+      minUse: 1,
+      loops: [
+        loop('PO1', {
+          usage: 'M',
+          minUse: 1,
+          maxUse: 100,
+          segments: [
+            segment('PO1', {
+              usage: 'M',
+              minUse: 1,
+              elements: [
+                element(1, { maxLength: 20 }),
+                element(2, { usage: 'M', dataType: 'R', maxLength: 15 }),
+                element(3, { usage: 'M', dataType: 'ID', minLength: 2, maxLength: 2, codeValues: [{ code: 'EA', description: 'Each', included: true }] }),
+              ],
+            }),
+          ],
+        }),
+      ],
+    }),
+    loop('SUMMARY', {
+      usage: 'M',
+      minUse: 1,
+      segments: [segment('CTT', { elements: [element(1, { dataType: 'N0', maxLength: 6 })] }), segment('SE', { usage: 'M', minUse: 1 })],
+    }),
+  ]);
+
+const ISA = 'ISA*00*          *00*          *ZZ*SENDER         *ZZ*RECEIVER       *240101*1200*^*00501*000000001*0*P*:~';
+
+const interchange = (...segments: string[]) =>
+  [ISA, 'GS*PO*SENDER*RECEIVER*20240101*1200*1*X*005010~', ...segments.map(s => `${s}~`), 'GE*1*1~', 'IEA*1*000000001~'].join('\n');
+
+const VALID_BODY = [
+  'ST*850*0001',
+  'BEG*00*SA*PO12345**20240115',
+  'N1*ST*Acme Warehouse',
+  'N3*100 Main St',
+  'PO1*1*10*EA',
+  'PO1*2*5.5*EA',
+  'CTT*2',
+  'SE*8*0001',
+];
+
+describe('x12-validator', () => {
+  describe('validateInterchange', () => {
+    it('should accept an interchange that conforms to the specification', () => {
+      const result = validateInterchange(interchange(...VALID_BODY), createSpecification());
+
+      expect(result.issues).toEqual([]);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should read delimiters from the ISA segment', () => {
+      const content = interchange(...VALID_BODY).replace(/\*/g, '|').replace(/~/g, '\n');
+      const result = validateInterchange(content, createSpecification());
+
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should report missing mandatory segments with loop path', () => {
+      const body = VALID_BODY.filter(s => !s.startsWith('BEG'));
+      const result = validateInterchange(interchange(...body), createSpecification());
+
+      const issue = result.issues.find(i => i.rule === 'missing-segment');
+      expect(result.valid).toBe(false);
+      expect(issue).toBeDefined();
+      expect(issue!.message).toContain('BEG');
+      expect(issue!.loopPath).toEqual(['HEADER']);
+    });
+
+    it('should report missing mandatory loops', () => {
+      const body = VALID_BODY.filter(s => !s.startsWith('PO1'));
+      const result = validateInterchange(interchange(...body), createSpecification());
+
+      expect(result.issues.some(i => i.rule === 'missing-loop' && i.loopPath.join('/') === 'DETAIL')).toBe(true);
+    });
+
+    it('should report loops that occur fewer times than their minimum', () => {
+      const spec = createSpecification();
+      spec.loops[1].loops[0].minUse = 3;
+      const result = validateInterchange(interchange(...VALID_BODY), spec);
+
+      const issue = result.issues.find(i => i.rule === 'missing-loop');
+      expect(issue!.message).toBe('Loop PO1 occurs 2 times, minimum 3');
+      expect(issue!.loopPath).toEqual(['DETAIL', 'PO1']);
+    });
+
+    it('should report segments exceeding max use', () => {
+      const body = [...VALID_BODY];
+      body.splice(2, 0, 'REF*VN*1', 'REF*VN*2', 'REF*VN*3');
+      const result = validateInterchange(interchange(...body), createSpecification());
+
+      const issues = result.issues.filter(i => i.rule === 'segment-max-use');
+      expect(issues).toHaveLength(1);
+      expect(issues[0].segmentId).toBe('REF');
+      expect(issues[0].segmentIndex).toBe(6);
+    });
+
+    it('should report loops exceeding max use', () => {
+      const body = [...VALID_BODY];
+      body.splice(2, 0, 'N1*ST*One', 'N1*ST*Two');
+      const result = validateInterchange(interchange(...body), createSpecification());
+
+      const issue = result.issues.find(i => i.rule === 'loop-max-use');
+      expect(issue).toBeDefined();
+      expect(issue!.loopPath).toEqual(['HEADER', 'N1']);
+    });
+
+    it('should report missing mandatory elements with position', () => {
+      const body = VALID_BODY.map(s => (s.startsWith('BEG') ? 'BEG*00*SA***20240115' : s));
+      const result = validateInterchange(interchange(...body), createSpecification());
+
+      const issue = result.issues.find(i => i.rule === 'missing-element');
+      expect(issue).toBeDefined();
+      expect(issue!.segmentId).toBe('BEG');
+      expect(issue!.elementPosition).toBe(3);
+    });
+
+    it('should report length violations', () => {
+      const body = VALID_BODY.map(s => (s.startsWith('BEG') ? 'BEG*00*SAX*PO12345**20240115' : s));
+      const result = validateInterchange(interchange(...body), createSpecification());
+
+      const issue = result.issues.find(i => i.rule === 'length');
+      expect(issue).toBeDefined();
+      expect(issue!.elementPosition).toBe(2);
+      expect(issue!.value).toBe('SAX');
+    });
+
+    it('should not count sign and decimal point toward numeric length', () => {
+      const body = VALID_BODY.map(s => (s === 'CTT*2' ? 'CTT*-123456' : s));
+      const result = validateInterchange(interchange(...body), createSpecification());
+
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should report data type violations', () => {
+      const body = VALID_BODY.map(s =>
+        s.startsWith('BEG') ? 'BEG*00*SA*PO12345**20241399' : s === 'PO1*1*10*EA' ? 'PO1*1*ten*EA' : s
+      );
+      const result = validateInterchange(interchange(...body), createSpecification());
+
+      const issues = result.issues.filter(i => i.rule === 'data-type');
+      expect(issues.map(i => i.segmentId)).toEqual(['BEG', 'PO1']);
+    });
+
+    it('should report codes that are excluded or unknown', () => {
+      const body = [...VALID_BODY];
+      body.splice(2, 2, 'N1*BT*Billing', 'N1*ZZ*Unknown');
+      const result = validateInterchange(interchange(...body), createSpecification());
+
+      const issues = result.issues.filter(i => i.rule === 'code-value');
+      expect(issues).toHaveLength(2);
+      expect(issues[0].message).toContain('excluded');
+      expect(issues[1].message).toContain('not in the code list');
+      expect(issues[1].elementPosition).toBe(1);
+    });
+
+    it('should report segments not defined in the specification', () => {
+      const body = [...VALID_BODY];
+      body.splice(2, 0, 'FOB*PP');
+      const result = validateInterchange(interchange(...body), createSpecification());
+
+      const issue = result.issues.find(i => i.rule === 'unexpected-segment');
+      expect(issue).toBeDefined();
+      expect(issue!.segmentId).toBe('FOB');
+      expect(issue!.loopPath).toEqual(['HEADER']);
+    });
+
+    it('should warn about element positions not in the specification', () => {
+      const body = VALID_BODY.map(s => (s === 'CTT*2' ? 'CTT*2*100' : s));
+      const result = validateInterchange(interchange(...body), createSpecification());
+
+      expect(result.valid).toBe(true);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ rule: 'unexpected-element', severity: 'warning', elementPosition: 2 }),
+      ]);
+    });
+
+    it('should validate the components of composite elements', () => {
+      const spec = createSpecification();
+      const po1 = spec.loops[1].loops[0].segments[0];
+      po1.elements.push(
+        element(4, {
+          components: [
+            element(1, { usage: 'M', dataType: 'ID', minLength: 2, maxLength: 2, codeValues: [{ code: 'HC', description: 'HCPCS', included: true }] }),
+            element(2, { usage: 'M', maxLength: 5 }),
+          ],
+        })
+      );
+      const body = VALID_BODY.map(s => (s === 'PO1*1*10*EA' ? 'PO1*1*10*EA*HC:99213' : s === 'PO1*2*5.5*EA' ? 'PO1*2*5.5*EA*ZZ' : s));
+      const result = validateInterchange(interchange(...body), spec);
+
+      expect(result.issues.map(i => [i.rule, i.elementPosition, i.componentPosition])).toEqual([
+        ['code-value', 4, 1],
+        ['missing-element', 4, 2],
+      ]);
+      expect(result.issues[1].message).toContain('PO104-2');
+    });
+
+    it('should report violated syntax notes', () => {
+      const spec = createSpecification();
+      const n1 = spec.loops[0].loops[0].segments[0];
+      n1.elements.push(element(3, { dataType: 'ID', minLength: 1, maxLength: 2 }), element(4, { minLength: 2, maxLength: 80 }));
+      n1.syntaxRules = [
+        { id: 'rule-1', type: 'R', positions: [2, 3] },
+        { id: 'rule-2', type: 'P', positions: [3, 4] },
+      ];
+      const body = VALID_BODY.map(s => (s === 'N1*ST*Acme Warehouse' ? 'N1*ST**92' : s));
+      const result = validateInterchange(interchange(...body), spec);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ rule: 'syntax-rule', segmentId: 'N1', elementPosition: 3 }),
+      ]);
+      expect(result.issues[0].message).toContain('P0304');
+    });
+
+    it('should validate each transaction set in the interchange', () => {
+      const second = VALID_BODY.map(s => (s.startsWith('BEG') ? 'BEG*00*SA***20240115' : s));
+      const result = validateInterchange(interchange(...VALID_BODY, ...second), createSpecification());
+
+      const issues = result.issues.filter(i => i.rule === 'missing-element');
+      expect(issues).toHaveLength(1);
+      expect(issues[0].segmentIndex).toBe(11);
+    });
+
+    it('should validate content without an envelope using default delimiters', () => {
+      const result = validateInterchange(VALID_BODY.join('~\n') + '~', createSpecification());
+
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should accept summary segments after the nested loops of a flat transaction set loop', () => {
+      // The shape importers produce: one TS loop with ST, BEG, CTT, SE and the nested loops after them
+      const sectioned = createSpecification();
+      const [header, detail, summary] = sectioned.loops;
+      const flat: Specification = {
+        ...sectioned,
+        loops: [
+          loop('TS850', {
+            usage: 'M',
+            minUse: 1,
+            segments: [...header.segments, ...summary.segments],
+            loops: [...header.loops, ...detail.loops],
+          }),
+        ],
+      };
+
+      expect(validateInterchange(interchange(...VALID_BODY), flat).issues).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Tests for X12 XML Schema Importer
+ */
+
+import { parseXml, isXsdFormat, importXsdSpec } from '../utils/xsd-importer';
+
+const xsd850 = `<?xml version="1.0" encoding="utf-16"?>
+<!-- Generated by a translator -->
+<xs:schema xmlns:b="http://schemas.microsoft.com/BizTalk/2003" xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="X12_00401_850">
+    <xs:annotation><xs:appinfo><b:recordInfo notes="Purchase Order" /></xs:appinfo></xs:annotation>
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="BEG">
+          <xs:annotation><xs:appinfo><b:recordInfo notes="Beginning Segment for Purchase Order" /></xs:appinfo></xs:annotation>
+          <xs:complexType>
+            <xs:sequence>
+              <xs:element name="BEG01" type="X12_ID_353">
+                <xs:annotation><xs:appinfo><b:fieldInfo notes="Transaction Set Purpose Code" data_type="X12_ID" /></xs:appinfo></xs:annotation>
+              </xs:element>
+              <xs:element minOccurs="0" name="BEG02">
+                <xs:annotation><xs:documentation>Purchase Order Type Code</xs:documentation></xs:annotation>
+                <xs:simpleType>
+                  <xs:restriction base="X12_AN">
+                    <xs:minLength value="2" />
+                    <xs:maxLength value="2" />
+                  </xs:restriction>
+                </xs:simpleType>
+              </xs:element>
+            </xs:sequence>
+          </xs:complexType>
+        </xs:element>
+        <xs:element minOccurs="0" maxOccurs="unbounded" name="N1Loop1">
+          <xs:complexType>
+            <xs:sequence>
+              <xs:element name="N1" type="N1_Type" />
+            </xs:sequence>
+          </xs:complexType>
+        </xs:element>
+        <xs:element minOccurs="0" maxOccurs="2" name="SV1">
+          <xs:complexType>
+            <xs:sequence>
+              <xs:element name="C003">
+                <xs:complexType>
+                  <xs:sequence>
+                    <xs:element name="C00301" type="X12_ID_235" />
+                    <xs:element minOccurs="0" name="C00302" type="X12_AN" />
+                  </xs:sequence>
+                </xs:complexType>
+              </xs:element>
+              <xs:element name="SV102" type="X12_R" />
+            </xs:sequence>
+          </xs:complexType>
+        </xs:element>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+  <xs:complexType name="N1_Type">
+    <xs:sequence>
+      <xs:element name="N101" type="X12_ID_98" />
+    </xs:sequence>
+  </xs:complexType>
+  <xs:simpleType name="X12_ID_353">
+    <xs:restriction base="xs:string">
+      <xs:enumeration value="00"><xs:annotation><xs:documentation>Original</xs:documentation></xs:annotation></xs:enumeration>
+      <xs:enumeration value="05"><xs:annotation><xs:documentation>Replace</xs:documentation></xs:annotation></xs:enumeration>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:simpleType name="X12_ID_98">
+    <xs:restriction base="xs:string">
+      <xs:minLength value="2" />
+      <xs:maxLength value="3" />
+      <xs:enumeration value="ST" />
+    </xs:restriction>
+  </xs:simpleType>
+</xs:schema>`;
+
+describe('xsd-importer', () => {
+  describe('parseXml', () => {
+    it('should build an element tree with local names, attributes and text', () => {
+      const root = parseXml('<?xml version="1.0"?><a:root x="1 &amp; 2"><child>Hi &lt;there&gt;</child><empty/></a:root>');
+
+      expect(root.name).toBe('root');
+      expect(root.attributes.x).toBe('1 & 2');
+      expect(root.children.map(c => c.name)).toEqual(['child', 'empty']);
+      expect(root.children[0].text).toBe('Hi <there>');
+    });
+
+    it('should reject mismatched tags', () => {
+      expect(() => parseXml('<a><b></a>')).toThrow('unexpected closing tag');
+    });
+  });
+
+  describe('isXsdFormat', () => {
+    it('should detect schema documents', () => {
+      expect(isXsdFormat(xsd850)).toBe(true);
+      expect(isXsdFormat('{"openapi": "3.0.1"}')).toBe(false);
+      expect(isXsdFormat('<root></root>')).toBe(false);
+    });
+  });
+
+  describe('importXsdSpec', () => {
+    it('should read the version and transaction set from the root element', () => {
+      const spec = importXsdSpec(xsd850);
+
+      expect(spec.metadata).toEqual(
+        expect.objectContaining({
+          transactionSet: '850',
+          transactionSetName: 'Purchase Order',
+          ediVersion: '004010',
+          baseSpecReference: 'XSD/004010/850',
+        })
+      );
+      expect(spec.loops).toHaveLength(1);
+      expect(spec.loops[0].name).toBe('TS850');
+    });
+
+    it('should convert segments with element names, types, lengths and codes', () => {
+      const [beg] = importXsdSpec(xsd850).loops[0].segments;
+
+      expect(beg).toEqual(expect.objectContaining({ name: 'BEG', description: 'Beginning Segment for Purchase Order', usage: 'M' }));
+      expect(beg.elements[0]).toEqual(
+        expect.objectContaining({ position: 1, name: 'Transaction Set Purpose Code', dataType: 'ID', usage: 'M', baseUsage: 'M' })
+      );
+      expect(beg.elements[0].codeValues).toEqual([
+        { code: '00', description: 'Original', included: true },
+        { code: '05', description: 'Replace', included: true },
+      ]);
+      expect(beg.elements[0].baseCodes).toHaveLength(2);
+      expect(beg.elements[1]).toEqual(
+        expect.objectContaining({ position: 2, name: 'Purchase Order Type Code', dataType: 'AN', minLength: 2, maxLength: 2, usage: 'O' })
+      );
+    });
+
+    it('should convert loops with repeats and named complex types', () => {
+      const [n1Loop] = importXsdSpec(xsd850).loops[0].loops;
+
+      expect(n1Loop).toEqual(expect.objectContaining({ name: 'N1', usage: 'O', minUse: 0, maxUse: 99999, baseMaxUse: 99999 }));
+      expect(n1Loop.segments[0].elements[0]).toEqual(
+        expect.objectContaining({ position: 1, dataType: 'ID', minLength: 2, maxLength: 3 })
+      );
+    });
+
+    it('should convert composites by sequence position', () => {
+      const sv1 = importXsdSpec(xsd850).loops[0].segments[1];
+      const [composite, amount] = sv1.elements;
+
+      expect(sv1).toEqual(expect.objectContaining({ usage: 'O', minUse: 0, maxUse: 2 }));
+      expect(composite.position).toBe(1);
+      expect(composite.components!.map(c => [c.position, c.dataType, c.usage])).toEqual([
+        [1, 'ID', 'M'],
+        [2, 'AN', 'O'],
+      ]);
+      expect(amount).toEqual(expect.objectContaining({ position: 2, dataType: 'R' }));
+    });
+
+    it('should stop at loop types that contain themselves', () => {
+      const [hlLoop] = importXsdSpec(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="X12_00501_856">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element maxOccurs="unbounded" name="HLLoop1" type="HLLoopType" />
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+  <xs:complexType name="HLLoopType">
+    <xs:sequence>
+      <xs:element name="HL">
+        <xs:complexType>
+          <xs:sequence>
+            <xs:element name="HL01" />
+            <xs:element name="HL03" />
+          </xs:sequence>
+        </xs:complexType>
+      </xs:element>
+      <xs:element minOccurs="0" maxOccurs="unbounded" name="HLLoop1" type="HLLoopType" />
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`).loops[0].loops;
+
+      expect(hlLoop.name).toBe('HL');
+      expect(hlLoop.segments.map(segment => segment.name)).toEqual(['HL']);
+      expect(hlLoop.loops).toEqual([]);
+    });
+
+    it('should reject schemas without a transaction set element', () => {
+      expect(() => importXsdSpec('<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"></xs:schema>')).toThrow(
+        'No transaction set element'
+      );
+    });
+  });
+});
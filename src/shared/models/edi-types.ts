@@ -12,10 +12,29 @@ export interface CodeValue {
   included: boolean; // Whether this code is included in the spec
 }
 
+export type DiscriminatorOperator =
+  | 'equals'
+  | 'one-of'
+  | 'not-equals'
+  | 'not-in'
+  | 'present'
+  | 'absent'
+  | 'matches'; // values[0] is a regular expression the whole value must match
+
 export interface DiscriminatorRule {
   elementId: string;
-  operator: 'equals' | 'one-of';
-  values: string[];
+  operator: DiscriminatorOperator;
+  values: string[]; // Unused for 'present' and 'absent'
+  connector?: 'and' | 'or'; // How the rule joins the previous one; AND binds tighter, so ORs separate rule groups
+}
+
+// Changes to a single element while a variant applies; unset fields keep the element's own values
+export interface ElementOverride {
+  usage?: UsageType;
+  minLength?: number;
+  maxLength?: number;
+  fixedValue?: string;
+  comments?: string;
 }
 
 export interface Variant {
@@ -24,10 +43,20 @@ export interface Variant {
   discriminators: DiscriminatorRule[];
   usageOverride?: UsageType;
   conditionDescription?: string;
-  codeOverrides?: Record<string, CodeValue[]>;
+  codeOverrides?: Record<string, CodeValue[]>; // Keyed by element id; the element's codes with this variant's included flags
+  elementOverrides?: Record<string, ElementOverride>; // Keyed by element id
   comments?: string;
 }
 
+// X12 syntax note types: Paired, Required, Exclusion, Conditional, List conditional
+export type SyntaxRuleType = 'P' | 'R' | 'E' | 'C' | 'L';
+
+export interface SyntaxRule {
+  id: string;
+  type: SyntaxRuleType;
+  positions: number[]; // Element positions in rule order, e.g. [4, 5] for P0405
+}
+
 export interface InlineExample {
   value: string;
   description?: string;
@@ -37,6 +66,7 @@ export interface Element {
   id: string;
   position: number;
   name: string;
+  referenceNumber?: string; // X12 data element reference number (e.g. 98 for N101, C003 for composites)
   dataType: string;
   minLength: number;
   maxLength: number;
@@ -45,6 +75,7 @@ export interface Element {
   comments?: string;
   codeValues?: CodeValue[];
   example?: InlineExample;
+  components?: Element[]; // Component elements when this is a composite (e.g., C003 in SV101)
   // Base spec reference
   baseUsage?: UsageType;
   baseCodes?: CodeValue[];
@@ -60,6 +91,7 @@ export interface Segment {
   maxUse: number;
   comments?: string;
   elements: Element[];
+  syntaxRules?: SyntaxRule[];
   variants?: Variant[];
   example?: InlineExample;
   // Base spec reference
@@ -93,6 +125,14 @@ export interface ExampleEDI {
   content: string; // Raw EDI text (ISA...IEA)
 }
 
+export interface Revision {
+  id: string;
+  version: string;
+  date: string; // ISO date, e.g. "2024-03-15"
+  author?: string;
+  description: string;
+}
+
 export interface SpecificationMetadata {
   name: string;
   version: string;
@@ -104,15 +144,64 @@ export interface SpecificationMetadata {
   createdDate: string;
   modifiedDate: string;
   baseSpecReference?: string;
+  revisions?: Revision[]; // Change log, oldest first
+}
+
+// Interchange (ISA/IEA) and functional group (GS/GE) requirements
+export interface Envelope {
+  authorizationQualifier: string; // ISA01, usually "00"
+  authorizationInformation: string; // ISA02
+  securityQualifier: string; // ISA03, usually "00"
+  securityInformation: string; // ISA04
+  senderQualifier: string; // ISA05, e.g. "ZZ" (mutually defined), "01" (DUNS)
+  senderId: string; // ISA06
+  receiverQualifier: string; // ISA07
+  receiverId: string; // ISA08
+  interchangeVersion: string; // ISA12, e.g. "00501"
+  acknowledgmentRequested: string; // ISA14, "0" or "1"
+  usageIndicator: string; // ISA15, "P" (production) or "T" (test)
+  functionalIdentifierCode: string; // GS01, e.g. "PO" for 850
+  applicationSenderCode: string; // GS02
+  applicationReceiverCode: string; // GS03
+  responsibleAgencyCode: string; // GS07, "X" for X12
+  versionCode: string; // GS08, e.g. "005010" or "005010X222A1"
+  elementSeparator: string;
+  componentSeparator: string; // ISA16
+  repetitionSeparator: string; // ISA11 from version 00402 onward
+  segmentTerminator: string;
+  notes?: string;
 }
 
 export interface Specification {
   id: string;
   metadata: SpecificationMetadata;
+  envelope?: Envelope;
   loops: Loop[];
   examples: ExampleEDI[];
 }
 
+export interface Contact {
+  id: string;
+  name: string;
+  role?: string; // e.g. "EDI Coordinator", "Technical Contact"
+  email?: string;
+  phone?: string;
+}
+
+// Groups the transaction sets exchanged with one partner (e.g. 850, 855, 856,
+// 810, 997) so they can be edited together and published as one guide
+export interface SpecificationPackage {
+  id: string;
+  name: string;
+  partner?: string; // Shared by every transaction set in the package
+  description?: string;
+  contacts?: Contact[];
+  envelope?: Envelope; // Shared ISA/GS settings; GS01 and GS08 stay per transaction set
+  createdDate: string;
+  modifiedDate: string;
+  specifications: Specification[];
+}
+
 // OpenEDI Import Types
 export interface OpenEDIElement {
   Id: string;
@@ -122,6 +211,7 @@ export interface OpenEDIElement {
   MaxLength: number;
   Req: string;
   Codes?: Array<{ Code: string; Description: string }>;
+  Components?: OpenEDIElement[];
 }
 
 export interface OpenEDISegment {
@@ -158,9 +248,47 @@ export interface LoadSpecificationRequest {
   filePath: string;
 }
 
+export interface SavePackageRequest {
+  package: SpecificationPackage;
+  filePath?: string;
+}
+
+export interface PDFExportOptions {
+  previousVersion?: Specification; // Appends a Summary of Changes against this version
+  includeDeviations?: boolean; // Appends Differences from the X12 Standard
+  annotateExamples?: boolean; // Follows each example segment with an explanation from the specification
+}
+
 export interface ExportPDFRequest {
   specification: Specification;
   filePath: string;
+  options?: PDFExportOptions;
+}
+
+export interface ExportPackagePDFRequest {
+  package: SpecificationPackage;
+  filePath: string;
+}
+
+export interface ExportHTMLRequest {
+  specification: Specification;
+  filePath: string;
+}
+
+export interface ExportCSVRequest {
+  specification: Specification;
+  filePath: string; // Element rows; code values go to a "-codes" file alongside
+}
+
+export interface ExportOpenAPIRequest {
+  specification: Specification;
+  filePath: string;
+}
+
+export interface HistoryMenuState {
+  undoLabel?: string; // Label of the change Undo would revert, e.g. "Delete segment N1"
+  redoLabel?: string;
+  editingText?: boolean; // Focus is in a text field, so Undo and Redo act on its text
 }
 
 export interface IPCResponse<T = void> {
@@ -0,0 +1,187 @@
+/**
+ * Base Spec Deviations
+ * Reports where an implementation guide departs from the X12 standard it was imported from
+ */
+
+import { Specification, Loop, Segment, Element, UsageType } from '../models/edi-types';
+
+export type DeviationKind = 'usage' | 'repeat' | 'code-excluded' | 'code-added';
+
+export type DeviationTarget = 'loop' | 'segment' | 'element';
+
+export interface Deviation {
+  nodeId: string;
+  target: DeviationTarget;
+  kind: DeviationKind;
+  path: string[]; // Readable location, e.g. ['HEADER', 'N1', 'N1', 'N101']
+  standard: string;
+  guide: string;
+  description: string;
+}
+
+// Higher rank = stricter
+const USAGE_RANK: Record<UsageType, number> = { O: 0, C: 1, M: 2 };
+
+function formatMaxUse(maxUse: number): string {
+  return maxUse > 9999 ? '>1' : String(maxUse);
+}
+
+function elementLabel(segmentName: string, position: number): string {
+  return `${segmentName}${String(position).padStart(2, '0')}`;
+}
+
+function formatCodeList(codes: string[]): string {
+  return codes.join(', ');
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function checkUsage(
+  deviations: Deviation[],
+  node: { id: string; usage: UsageType; baseUsage?: UsageType },
+  target: DeviationTarget,
+  path: string[]
+): void {
+  if (!node.baseUsage || node.usage === node.baseUsage) return;
+
+  const verb =
+    USAGE_RANK[node.usage] > USAGE_RANK[node.baseUsage]
+      ? 'tightened'
+      : USAGE_RANK[node.usage] < USAGE_RANK[node.baseUsage]
+        ? 'relaxed'
+        : 'changed';
+
+  deviations.push({
+    nodeId: node.id,
+    target,
+    kind: 'usage',
+    path,
+    standard: node.baseUsage,
+    guide: node.usage,
+    description: `Usage ${verb} from ${node.baseUsage} to ${node.usage}`,
+  });
+}
+
+function checkRepeats(deviations: Deviation[], node: Loop | Segment, target: DeviationTarget, path: string[]): void {
+  if (node.baseMinUse !== undefined && node.minUse !== node.baseMinUse) {
+    deviations.push({
+      nodeId: node.id,
+      target,
+      kind: 'repeat',
+      path,
+      standard: String(node.baseMinUse),
+      guide: String(node.minUse),
+      description: `Min use changed from ${node.baseMinUse} to ${node.minUse}`,
+    });
+  }
+  if (node.baseMaxUse !== undefined && node.maxUse !== node.baseMaxUse) {
+    deviations.push({
+      nodeId: node.id,
+      target,
+      kind: 'repeat',
+      path,
+      standard: formatMaxUse(node.baseMaxUse),
+      guide: formatMaxUse(node.maxUse),
+      description: `Max use changed from ${formatMaxUse(node.baseMaxUse)} to ${formatMaxUse(node.maxUse)}`,
+    });
+  }
+}
+
+function checkCodes(deviations: Deviation[], element: Element, path: string[]): void {
+  if (!element.baseCodes || element.baseCodes.length === 0) return;
+
+  const current = new Map((element.codeValues || []).map(cv => [cv.code, cv]));
+  const baseCodes = new Set(element.baseCodes.map(cv => cv.code));
+
+  const excluded = element.baseCodes.filter(cv => !current.get(cv.code)?.included).map(cv => cv.code);
+  const kept = element.baseCodes.filter(cv => current.get(cv.code)?.included).map(cv => cv.code);
+  const added = (element.codeValues || []).filter(cv => cv.included && !baseCodes.has(cv.code)).map(cv => cv.code);
+  const total = element.baseCodes.length;
+
+  if (excluded.length > 0) {
+    // List whichever side is shorter so a guide that keeps 2 of 300 codes stays readable
+    const description =
+      kept.length < excluded.length
+        ? `Restricted to ${kept.length} of ${total} standard codes${kept.length > 0 ? `: ${formatCodeList(kept)}` : ''}`
+        : `Excluded ${excluded.length} of ${total} standard codes: ${formatCodeList(excluded)}`;
+    deviations.push({
+      nodeId: element.id,
+      target: 'element',
+      kind: 'code-excluded',
+      path,
+      standard: `${total} codes`,
+      guide: `${kept.length} codes`,
+      description,
+    });
+  }
+
+  if (added.length > 0) {
+    deviations.push({
+      nodeId: element.id,
+      target: 'element',
+      kind: 'code-added',
+      path,
+      standard: `${total} codes`,
+      guide: `${kept.length + added.length} codes`,
+      description: `Added non-standard ${added.length === 1 ? 'code' : 'codes'}: ${formatCodeList(added)}`,
+    });
+  }
+}
+
+// ============================================================================
+// Tree walk
+// ============================================================================
+
+function walkElements(deviations: Deviation[], elements: Element[], label: (element: Element) => string, parentPath: string[]): void {
+  for (const element of elements) {
+    const path = [...parentPath, label(element)];
+    checkUsage(deviations, element, 'element', path);
+    checkCodes(deviations, element, path);
+    if (element.components) {
+      walkElements(deviations, element.components, component => `${label(element)}-${component.position}`, path);
+    }
+  }
+}
+
+function walkLoops(deviations: Deviation[], loops: Loop[], parentPath: string[]): void {
+  for (const loop of loops) {
+    const loopPath = [...parentPath, loop.name];
+    checkUsage(deviations, loop, 'loop', loopPath);
+    checkRepeats(deviations, loop, 'loop', loopPath);
+
+    for (const segment of loop.segments) {
+      const segmentPath = [...loopPath, segment.name];
+      checkUsage(deviations, segment, 'segment', segmentPath);
+      checkRepeats(deviations, segment, 'segment', segmentPath);
+      walkElements(deviations, segment.elements, element => elementLabel(segment.name, element.position), segmentPath);
+    }
+
+    walkLoops(deviations, loop.loops, loopPath);
+  }
+}
+
+/**
+ * Lists every loop, segment and element whose usage, repeats or code list
+ * differ from the base values recorded at import. Nodes without base values
+ * (added by hand) are not reported.
+ */
+export function findDeviations(spec: Specification): Deviation[] {
+  const deviations: Deviation[] = [];
+  walkLoops(deviations, spec.loops, []);
+  return deviations;
+}
+
+/**
+ * Groups deviations by node id, for badges in the tree.
+ */
+export function groupDeviationsByNode(deviations: Deviation[]): Map<string, Deviation[]> {
+  const byNode = new Map<string, Deviation[]>();
+  for (const deviation of deviations) {
+    const list = byNode.get(deviation.nodeId) ?? [];
+    list.push(deviation);
+    byNode.set(deviation.nodeId, list);
+  }
+  return byNode;
+}
@@ -0,0 +1,246 @@
+/**
+ * Interchange Envelope
+ * Defaults, field descriptions and checks for the ISA/GS envelope requirements
+ */
+
+import { Envelope, SpecificationMetadata } from '../models/edi-types';
+
+// GS01 functional identifier codes for common transaction sets
+export const FUNCTIONAL_IDENTIFIER_CODES: Record<string, string> = {
+  '204': 'SM',
+  '210': 'IM',
+  '214': 'QM',
+  '270': 'HS',
+  '271': 'HB',
+  '276': 'HR',
+  '277': 'HN',
+  '810': 'IN',
+  '820': 'RA',
+  '824': 'AG',
+  '830': 'PS',
+  '832': 'SC',
+  '834': 'BE',
+  '835': 'HP',
+  '837': 'HC',
+  '846': 'IB',
+  '850': 'PO',
+  '852': 'PD',
+  '855': 'PR',
+  '856': 'SH',
+  '860': 'PC',
+  '865': 'CA',
+  '940': 'OW',
+  '945': 'SW',
+  '990': 'GF',
+  '997': 'FA',
+  '999': 'FA',
+};
+
+export type EnvelopeFieldKey = Exclude<
+  keyof Envelope,
+  'elementSeparator' | 'componentSeparator' | 'repetitionSeparator' | 'segmentTerminator' | 'notes'
+>;
+
+export interface EnvelopeField {
+  key: EnvelopeFieldKey;
+  segment: 'ISA' | 'GS';
+  refDes: string; // e.g. "ISA06"
+  name: string;
+  minLength: number;
+  maxLength: number;
+  fixedLength?: boolean; // ISA elements are space padded to their full length
+  options?: Array<{ value: string; label: string }>;
+}
+
+const ID_QUALIFIER_OPTIONS = [
+  { value: '01', label: '01 - D-U-N-S Number' },
+  { value: '08', label: '08 - UCC EDI Communications ID' },
+  { value: '12', label: '12 - Phone Number' },
+  { value: '14', label: '14 - D-U-N-S Plus Suffix' },
+  { value: 'ZZ', label: 'ZZ - Mutually Defined' },
+];
+
+export const ENVELOPE_FIELDS: EnvelopeField[] = [
+  {
+    key: 'authorizationQualifier',
+    segment: 'ISA',
+    refDes: 'ISA01',
+    name: 'Authorization Information Qualifier',
+    minLength: 2,
+    maxLength: 2,
+    fixedLength: true,
+    options: [
+      { value: '00', label: '00 - No Authorization Information Present' },
+      { value: '03', label: '03 - Additional Data Identification' },
+    ],
+  },
+  { key: 'authorizationInformation', segment: 'ISA', refDes: 'ISA02', name: 'Authorization Information', minLength: 10, maxLength: 10, fixedLength: true },
+  {
+    key: 'securityQualifier',
+    segment: 'ISA',
+    refDes: 'ISA03',
+    name: 'Security Information Qualifier',
+    minLength: 2,
+    maxLength: 2,
+    fixedLength: true,
+    options: [
+      { value: '00', label: '00 - No Security Information Present' },
+      { value: '01', label: '01 - Password' },
+    ],
+  },
+  { key: 'securityInformation', segment: 'ISA', refDes: 'ISA04', name: 'Security Information', minLength: 10, maxLength: 10, fixedLength: true },
+  { key: 'senderQualifier', segment: 'ISA', refDes: 'ISA05', name: 'Interchange ID Qualifier (Sender)', minLength: 2, maxLength: 2, fixedLength: true, options: ID_QUALIFIER_OPTIONS },
+  { key: 'senderId', segment: 'ISA', refDes: 'ISA06', name: 'Interchange Sender ID', minLength: 15, maxLength: 15, fixedLength: true },
+  { key: 'receiverQualifier', segment: 'ISA', refDes: 'ISA07', name: 'Interchange ID Qualifier (Receiver)', minLength: 2, maxLength: 2, fixedLength: true, options: ID_QUALIFIER_OPTIONS },
+  { key: 'receiverId', segment: 'ISA', refDes: 'ISA08', name: 'Interchange Receiver ID', minLength: 15, maxLength: 15, fixedLength: true },
+  { key: 'interchangeVersion', segment: 'ISA', refDes: 'ISA12', name: 'Interchange Control Version Number', minLength: 5, maxLength: 5, fixedLength: true },
+  {
+    key: 'acknowledgmentRequested',
+    segment: 'ISA',
+    refDes: 'ISA14',
+    name: 'Acknowledgment Requested',
+    minLength: 1,
+    maxLength: 1,
+    fixedLength: true,
+    options: [
+      { value: '0', label: '0 - No Interchange Acknowledgment Requested' },
+      { value: '1', label: '1 - Interchange Acknowledgment Requested (TA1)' },
+    ],
+  },
+  {
+    key: 'usageIndicator',
+    segment: 'ISA',
+    refDes: 'ISA15',
+    name: 'Interchange Usage Indicator',
+    minLength: 1,
+    maxLength: 1,
+    fixedLength: true,
+    options: [
+      { value: 'P', label: 'P - Production Data' },
+      { value: 'T', label: 'T - Test Data' },
+    ],
+  },
+  { key: 'functionalIdentifierCode', segment: 'GS', refDes: 'GS01', name: 'Functional Identifier Code', minLength: 2, maxLength: 2 },
+  { key: 'applicationSenderCode', segment: 'GS', refDes: 'GS02', name: "Application Sender's Code", minLength: 2, maxLength: 15 },
+  { key: 'applicationReceiverCode', segment: 'GS', refDes: 'GS03', name: "Application Receiver's Code", minLength: 2, maxLength: 15 },
+  {
+    key: 'responsibleAgencyCode',
+    segment: 'GS',
+    refDes: 'GS07',
+    name: 'Responsible Agency Code',
+    minLength: 1,
+    maxLength: 2,
+    options: [
+      { value: 'X', label: 'X - Accredited Standards Committee X12' },
+      { value: 'T', label: 'T - Transportation Data Coordinating Committee' },
+    ],
+  },
+  { key: 'versionCode', segment: 'GS', refDes: 'GS08', name: 'Version / Release / Industry Identifier Code', minLength: 1, maxLength: 12 },
+];
+
+/**
+ * Envelope defaults for a specification: no authorization or security
+ * information, mutually defined IDs, test data and the standard delimiters.
+ */
+export function createDefaultEnvelope(metadata: SpecificationMetadata): Envelope {
+  return {
+    authorizationQualifier: '00',
+    authorizationInformation: '',
+    securityQualifier: '00',
+    securityInformation: '',
+    senderQualifier: 'ZZ',
+    senderId: '',
+    receiverQualifier: 'ZZ',
+    receiverId: '',
+    interchangeVersion: metadata.ediVersion.slice(0, 5),
+    acknowledgmentRequested: '0',
+    usageIndicator: 'T',
+    functionalIdentifierCode: FUNCTIONAL_IDENTIFIER_CODES[metadata.transactionSet] || '',
+    applicationSenderCode: '',
+    applicationReceiverCode: '',
+    responsibleAgencyCode: 'X',
+    versionCode: metadata.ediVersion,
+    elementSeparator: '*',
+    componentSeparator: ':',
+    repetitionSeparator: '^',
+    segmentTerminator: '~',
+  };
+}
+
+export interface EnvelopeDelimiter {
+  key: 'elementSeparator' | 'componentSeparator' | 'repetitionSeparator' | 'segmentTerminator';
+  name: string;
+}
+
+export const ENVELOPE_DELIMITERS: EnvelopeDelimiter[] = [
+  { key: 'elementSeparator', name: 'Element Separator' },
+  { key: 'componentSeparator', name: 'Component Element Separator (ISA16)' },
+  { key: 'repetitionSeparator', name: 'Repetition Separator (ISA11)' },
+  { key: 'segmentTerminator', name: 'Segment Terminator' },
+];
+
+// Before 00402, ISA11 is the Interchange Control Standards Identifier ("U")
+export function usesRepetitionSeparator(envelope: Envelope): boolean {
+  return envelope.interchangeVersion >= '00402';
+}
+
+/**
+ * Describes a delimiter for display, naming characters that are hard to read
+ * in print (e.g. "~ (tilde)").
+ */
+export function describeDelimiter(value: string): string {
+  const names: Record<string, string> = {
+    '*': 'asterisk',
+    ':': 'colon',
+    '>': 'greater than',
+    '^': 'caret',
+    '~': 'tilde',
+    '|': 'pipe',
+  };
+  if (!value) return '-';
+  if (value === '\n') return 'newline';
+  return names[value] ? `${value} (${names[value]})` : value;
+}
+
+/**
+ * Reports envelope values that would produce an invalid interchange:
+ * values longer than their ISA/GS element, and delimiters that are missing,
+ * repeated, or could appear in data.
+ */
+export function validateEnvelope(envelope: Envelope): string[] {
+  const problems: string[] = [];
+
+  for (const field of ENVELOPE_FIELDS) {
+    const value = envelope[field.key] || '';
+    if (value.length > field.maxLength) {
+      problems.push(`${field.refDes} ${field.name} is longer than ${field.maxLength} characters`);
+    }
+  }
+
+  if (envelope.versionCode && envelope.interchangeVersion && !envelope.versionCode.startsWith(envelope.interchangeVersion)) {
+    problems.push(`GS08 ${envelope.versionCode} does not match the ISA12 version ${envelope.interchangeVersion}`);
+  }
+
+  const delimiters = ENVELOPE_DELIMITERS.filter(
+    delimiter => delimiter.key !== 'repetitionSeparator' || usesRepetitionSeparator(envelope)
+  );
+  const seen = new Map<string, string>();
+  for (const delimiter of delimiters) {
+    const value = envelope[delimiter.key];
+    if (!value) {
+      problems.push(`${delimiter.name} is required`);
+      continue;
+    }
+    if (value.length !== 1) {
+      problems.push(`${delimiter.name} must be a single character`);
+    } else if (/[A-Za-z0-9 ]/.test(value)) {
+      problems.push(`${delimiter.name} must not be a letter, digit or space`);
+    }
+    if (seen.has(value)) {
+      problems.push(`${delimiter.name} is the same as the ${seen.get(value)}`);
+    }
+    seen.set(value, delimiter.name);
+  }
+
+  return problems;
+}
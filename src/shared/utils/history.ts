@@ -0,0 +1,101 @@
+/**
+ * Edit History
+ * Bounded undo/redo stacks of document snapshots with labels for the Edit menu
+ */
+
+export interface HistoryEntry<T> {
+  label: string; // Describes the change, e.g. "Delete segment N1"
+  snapshot: T;
+  timestamp: number;
+}
+
+export interface History<T> {
+  past: HistoryEntry<T>[]; // Oldest first; each entry holds the state before its change
+  future: HistoryEntry<T>[]; // Most recently undone last
+}
+
+export interface HistoryStep<T> {
+  history: History<T>;
+  snapshot: T;
+  label: string;
+}
+
+export const MAX_HISTORY_DEPTH = 100;
+
+// Consecutive unlabeled edits (typing in a field) within this window undo as one step
+export const COALESCE_WINDOW_MS = 1000;
+
+export function createHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+/**
+ * Records a change. `previous` is the state before the change. When `coalesce`
+ * is set and the last change has the same label and happened within the
+ * coalesce window, the two changes are merged into one undo step.
+ */
+export function recordChange<T>(
+  history: History<T>,
+  previous: T,
+  label: string,
+  options: { coalesce?: boolean; now?: number; maxDepth?: number } = {}
+): History<T> {
+  const now = options.now ?? Date.now();
+  const maxDepth = options.maxDepth ?? MAX_HISTORY_DEPTH;
+  const last = history.past[history.past.length - 1];
+
+  if (options.coalesce && last && last.label === label && now - last.timestamp < COALESCE_WINDOW_MS) {
+    return {
+      past: [...history.past.slice(0, -1), { ...last, timestamp: now }],
+      future: [],
+    };
+  }
+
+  const past = [...history.past, { label, snapshot: previous, timestamp: now }];
+  return {
+    past: past.length > maxDepth ? past.slice(past.length - maxDepth) : past,
+    future: [],
+  };
+}
+
+/**
+ * Steps back one change. Returns null when there is nothing to undo.
+ */
+export function undo<T>(history: History<T>, current: T): HistoryStep<T> | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { label: entry.label, snapshot: current, timestamp: entry.timestamp }],
+    },
+    snapshot: entry.snapshot,
+    label: entry.label,
+  };
+}
+
+/**
+ * Re-applies the most recently undone change. Returns null when there is nothing to redo.
+ */
+export function redo<T>(history: History<T>, current: T): HistoryStep<T> | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: [...history.past, { label: entry.label, snapshot: current, timestamp: entry.timestamp }],
+      future: history.future.slice(0, -1),
+    },
+    snapshot: entry.snapshot,
+    label: entry.label,
+  };
+}
+
+export function undoLabel<T>(history: History<T>): string | undefined {
+  return history.past[history.past.length - 1]?.label;
+}
+
+export function redoLabel<T>(history: History<T>): string | undefined {
+  return history.future[history.future.length - 1]?.label;
+}
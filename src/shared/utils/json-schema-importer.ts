@@ -0,0 +1,344 @@
+/**
+ * JSON Schema Importer
+ * Converts X12 transaction sets described as plain JSON Schema (as produced by
+ * other translators) to internal format
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Specification, Loop, Segment, Element, CodeValue, UsageType } from '../models/edi-types';
+
+// Arrays without maxItems are stored as a large repeat, shown as ">1"
+const UNBOUNDED_MAX_USE = 99999;
+
+interface JSONSchemaNode {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  format?: string;
+  properties?: Record<string, JSONSchemaNode>;
+  required?: string[];
+  items?: JSONSchemaNode;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  enum?: Array<string | number>;
+  const?: string | number;
+  oneOf?: JSONSchemaNode[];
+  anyOf?: JSONSchemaNode[];
+  allOf?: JSONSchemaNode[];
+  definitions?: Record<string, JSONSchemaNode>;
+  $defs?: Record<string, JSONSchemaNode>;
+}
+
+interface ImportContext {
+  root: JSONSchemaNode;
+}
+
+export function isJSONSchemaFormat(parsed: any): boolean {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) || 'openapi' in parsed) return false;
+  if (typeof parsed.$schema === 'string' && parsed.$schema.includes('json-schema')) return true;
+  return !!parsed.properties && !!(parsed.definitions || parsed.$defs);
+}
+
+// ============================================================================
+// Schema helpers
+// ============================================================================
+
+/**
+ * Follows local $refs (#/definitions/X, #/$defs/X) and merges allOf parts,
+ * so callers see one flat schema.
+ */
+function resolve(ctx: ImportContext, node: JSONSchemaNode, seen = new Set<string>()): JSONSchemaNode {
+  let resolved = node;
+
+  if (node.$ref && !seen.has(node.$ref)) {
+    const target = node.$ref
+      .replace(/^#\//, '')
+      .split('/')
+      .reduce<any>((current, part) => current?.[decodeURIComponent(part.replace(/~1/g, '/').replace(/~0/g, '~'))], ctx.root);
+    if (!target) {
+      throw new Error(`Unresolved schema reference: ${node.$ref}`);
+    }
+    const { $ref, ...overrides } = node;
+    resolved = { ...resolve(ctx, target, new Set([...seen, $ref!])), ...overrides };
+  }
+
+  if (resolved.allOf) {
+    const { allOf, ...rest } = resolved;
+    resolved = allOf.reduce<JSONSchemaNode>((merged, part) => {
+      const partSchema = resolve(ctx, part, seen);
+      return {
+        ...merged,
+        ...partSchema,
+        properties: merged.properties || partSchema.properties
+          ? { ...merged.properties, ...partSchema.properties }
+          : undefined,
+        required: [...(merged.required || []), ...(partSchema.required || [])],
+      };
+    }, rest);
+  }
+
+  return resolved;
+}
+
+function isArrayNode(node: JSONSchemaNode): boolean {
+  return node.type === 'array' || (!!node.items && !node.properties);
+}
+
+/**
+ * Element keys end in a two-digit position: BEG01, C00301, BEG_01,
+ * transaction_set_purpose_code_01 or TransactionSetPurposeCode_01.
+ */
+function isElementKey(key: string): boolean {
+  return /(^|[_-])\d{2}$/.test(key) || /^[A-Z][A-Z0-9]{1,3}\d{2}$/.test(key);
+}
+
+function positionFromKey(key: string, fallback: number): number {
+  const match = key.match(/(\d{2})$/);
+  return match ? parseInt(match[1], 10) : fallback;
+}
+
+function isSegmentSchema(node: JSONSchemaNode): boolean {
+  const keys = Object.keys(node.properties || {});
+  return keys.length > 0 && keys.every(isElementKey);
+}
+
+/**
+ * Turns keys such as "transaction_set_purpose_code_01" or
+ * "TransactionSetPurposeCode_01" into "Transaction Set Purpose Code".
+ * Reference designators (BEG01) are kept as they are.
+ */
+function nameFromKey(key: string): string {
+  if (/^[A-Z][A-Z0-9]{1,3}\d{2}$/.test(key)) return key;
+  const words = key
+    .replace(/[_-]?\d{2}$/, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[_\s-]+/)
+    .filter(Boolean);
+  return words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ') || key;
+}
+
+function segmentIdFrom(key: string, node: JSONSchemaNode): string {
+  const firstElementKey = Object.keys(node.properties || {})[0] || '';
+  const prefixed = firstElementKey.match(/^([A-Z][A-Z0-9]{1,2})_?\d{2}$/);
+  if (prefixed) return prefixed[1];
+
+  const token = key.split(/[_\s-]+/).reverse().find(part => /^[A-Z][A-Z0-9]{1,2}$/.test(part));
+  return token || key.toUpperCase();
+}
+
+function loopIdFrom(key: string): string {
+  const tokens = key.split(/[_\s-]+/).filter(part => !/^loop\d*$/i.test(part));
+  const hlLevel = tokens.find(part => /^\d{4}[A-Z]?$/.test(part));
+  if (hlLevel) return hlLevel;
+  const segmentLike = tokens.find(part => /^[A-Z][A-Z0-9]{1,2}$/.test(part));
+  if (segmentLike) return segmentLike;
+  return key.replace(/Loop\d*$/i, '') || key;
+}
+
+function occurs(parent: JSONSchemaNode, key: string, node: JSONSchemaNode): { usage: UsageType; minUse: number; maxUse: number } {
+  const isRequired = parent.required?.includes(key) ?? false;
+  const usage: UsageType = isRequired ? 'M' : 'O';
+
+  if (isArrayNode(node)) {
+    return {
+      usage,
+      minUse: node.minItems ?? (isRequired ? 1 : 0),
+      maxUse: node.maxItems ?? UNBOUNDED_MAX_USE,
+    };
+  }
+  return { usage, minUse: isRequired ? 1 : 0, maxUse: 1 };
+}
+
+function readCodes(node: JSONSchemaNode): CodeValue[] | undefined {
+  const options = node.oneOf || node.anyOf;
+  if (options && options.every(option => option.const !== undefined)) {
+    return options.map(option => ({
+      code: String(option.const),
+      description: option.title || option.description || String(option.const),
+      included: true,
+    }));
+  }
+  if (node.enum) {
+    return node.enum.map(code => ({ code: String(code), description: String(code), included: true }));
+  }
+  if (node.const !== undefined) {
+    return [{ code: String(node.const), description: String(node.const), included: true }];
+  }
+  return undefined;
+}
+
+function readDataType(node: JSONSchemaNode, codes: CodeValue[] | undefined): string {
+  const x12Type = node.format?.match(/^X12_([A-Z]+\d?)$/i);
+  if (x12Type) return x12Type[1].toUpperCase();
+  if (codes) return 'ID';
+  if (node.type === 'integer') return 'N0';
+  if (node.type === 'number') return 'R';
+  if (node.format === 'date') return 'DT';
+  if (node.format === 'time') return 'TM';
+  return 'AN';
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+function convertElement(ctx: ImportContext, parent: JSONSchemaNode, key: string, raw: JSONSchemaNode, fallbackPosition: number): Element {
+  const node = resolve(ctx, raw);
+  const { usage } = occurs(parent, key, node);
+  const name = node.title || node.description || nameFromKey(key);
+  const position = positionFromKey(key, fallbackPosition);
+
+  if (node.properties) {
+    return {
+      id: uuidv4(),
+      position,
+      name,
+      dataType: 'AN',
+      minLength: 0,
+      maxLength: 0,
+      usage,
+      baseUsage: usage,
+      components: Object.entries(node.properties).map(([childKey, child], index) =>
+        convertElement(ctx, node, childKey, child, index + 1)
+      ),
+    };
+  }
+
+  const codes = readCodes(node);
+  return {
+    id: uuidv4(),
+    position,
+    name,
+    dataType: readDataType(node, codes),
+    minLength: node.minLength || 0,
+    maxLength: node.maxLength || 0,
+    usage,
+    baseUsage: usage,
+    codeValues: codes,
+    baseCodes: codes ? [...codes] : undefined,
+  };
+}
+
+function convertSegment(ctx: ImportContext, parent: JSONSchemaNode, key: string, node: JSONSchemaNode, schema: JSONSchemaNode): Segment {
+  const { usage, minUse, maxUse } = occurs(parent, key, node);
+  const name = segmentIdFrom(key, schema);
+
+  return {
+    id: uuidv4(),
+    name,
+    description: schema.title || schema.description || name,
+    usage,
+    baseUsage: usage,
+    minUse,
+    maxUse,
+    baseMinUse: minUse,
+    baseMaxUse: maxUse,
+    elements: Object.entries(schema.properties || {}).map(([childKey, child], index) =>
+      convertElement(ctx, schema, childKey, child, index + 1)
+    ),
+  };
+}
+
+function convertChildren(
+  ctx: ImportContext,
+  parent: JSONSchemaNode,
+  visiting: Set<string> = new Set()
+): { segments: Segment[]; loops: Loop[] } {
+  const segments: Segment[] = [];
+  const loops: Loop[] = [];
+
+  for (const [key, raw] of Object.entries(parent.properties || {})) {
+    const node = resolve(ctx, raw);
+    const schema = isArrayNode(node) && node.items ? resolve(ctx, node.items) : node;
+    if (!schema.properties) continue;
+
+    if (isSegmentSchema(schema)) {
+      segments.push(convertSegment(ctx, parent, key, node, schema));
+    } else {
+      // Guard against self-referencing loops, e.g. an 856 HL loop nesting HL loops
+      const refs = [raw.$ref, node.items?.$ref].filter((ref): ref is string => !!ref);
+      if (refs.some(ref => visiting.has(ref))) continue;
+
+      const { usage, minUse, maxUse } = occurs(parent, key, node);
+      loops.push({
+        id: uuidv4(),
+        name: loopIdFrom(key),
+        description: schema.title || schema.description,
+        usage,
+        baseUsage: usage,
+        minUse,
+        maxUse,
+        baseMinUse: minUse,
+        baseMaxUse: maxUse,
+        ...convertChildren(ctx, schema, new Set([...visiting, ...refs])),
+      });
+    }
+  }
+
+  return { segments, loops };
+}
+
+function findTransactionSetId(root: JSONSchemaNode, segments: Segment[]): string | undefined {
+  const fromTitle = `${root.title || ''} ${root.description || ''}`.match(/\b(\d{3})\b/);
+  if (fromTitle) return fromTitle[1];
+
+  const st01 = segments.find(segment => segment.name === 'ST')?.elements.find(element => element.position === 1);
+  return st01?.codeValues?.length === 1 ? st01.codeValues[0].code : undefined;
+}
+
+/**
+ * Converts a JSON Schema transaction set to a Specification. Object
+ * properties whose keys all end in an element position (BEG01,
+ * purchase_order_number_03) are segments; other objects are loops. Arrays
+ * carry repeats through minItems/maxItems.
+ */
+export function importJSONSchemaSpec(parsed: JSONSchemaNode): Specification {
+  const ctx: ImportContext = { root: parsed };
+  const root = resolve(ctx, parsed);
+  const { segments, loops } = convertChildren(ctx, root);
+
+  const transactionSetId = findTransactionSetId(root, segments);
+  if (!transactionSetId) {
+    throw new Error('Could not determine the transaction set from the JSON Schema title or ST01');
+  }
+
+  const versionMatch = `${root.title || ''} ${root.description || ''}`.match(/\b(00\d{4})\b/);
+  const ediVersion = versionMatch ? versionMatch[1] : '005010';
+  const transactionSetName = root.title || `Transaction Set ${transactionSetId}`;
+  const now = new Date().toISOString();
+
+  return {
+    id: uuidv4(),
+    metadata: {
+      name: transactionSetName,
+      version: '1.0',
+      transactionSet: transactionSetId,
+      transactionSetName,
+      ediVersion,
+      description: root.description,
+      createdDate: now,
+      modifiedDate: now,
+      baseSpecReference: `JSONSchema/${ediVersion}/${transactionSetId}`,
+    },
+    loops: [
+      {
+        id: uuidv4(),
+        name: `TS${transactionSetId}`,
+        description: `Transaction Set ${transactionSetId}`,
+        usage: 'M',
+        baseUsage: 'M',
+        minUse: 1,
+        maxUse: 1,
+        baseMinUse: 1,
+        baseMaxUse: 1,
+        segments,
+        loops,
+      },
+    ],
+    examples: [],
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Mapping Spreadsheet Export
+ * Flattens a specification into element and code rows for mapping spreadsheets
+ */
+
+import { Specification, Loop, Element } from '../models/edi-types';
+
+export const MAPPING_COLUMNS = [
+  'Loop',
+  'Segment',
+  'Ref Des',
+  'Element Name',
+  'Type',
+  'Min',
+  'Max',
+  'Usage',
+  'Codes',
+  'Comments',
+];
+
+export const CODE_COLUMNS = ['Loop', 'Ref Des', 'Element Name', 'Code', 'Description'];
+
+export interface MappingSheets {
+  elements: string[][]; // Header row first
+  codes: string[][];
+}
+
+function elementLabel(segmentName: string, position: number): string {
+  return `${segmentName}${String(position).padStart(2, '0')}`;
+}
+
+function includedCodes(element: Element): string[] {
+  return (element.codeValues || []).filter(cv => cv.included).map(cv => cv.code);
+}
+
+function elementComments(element: Element): string {
+  return [element.conditionDescription, element.comments].filter(Boolean).join('\n');
+}
+
+function addElementRows(sheets: MappingSheets, loopPath: string, segmentName: string, element: Element, refDes: string): void {
+  const isComposite = !!element.components && element.components.length > 0;
+
+  sheets.elements.push([
+    loopPath,
+    segmentName,
+    refDes,
+    element.name,
+    isComposite ? 'Composite' : element.dataType,
+    isComposite ? '' : String(element.minLength),
+    isComposite ? '' : String(element.maxLength),
+    element.usage,
+    includedCodes(element).join(', '),
+    elementComments(element),
+  ]);
+
+  for (const code of (element.codeValues || []).filter(cv => cv.included)) {
+    sheets.codes.push([loopPath, refDes, element.name, code.code, code.description]);
+  }
+
+  for (const component of element.components || []) {
+    addElementRows(sheets, loopPath, segmentName, component, `${refDes}-${component.position}`);
+  }
+}
+
+function addLoopRows(sheets: MappingSheets, loops: Loop[], parentPath: string[]): void {
+  for (const loop of loops) {
+    const path = [...parentPath, loop.name];
+    const loopPath = path.join('/');
+
+    for (const segment of loop.segments) {
+      for (const element of segment.elements) {
+        addElementRows(sheets, loopPath, segment.name, element, elementLabel(segment.name, element.position));
+      }
+    }
+
+    addLoopRows(sheets, loop.loops, path);
+  }
+}
+
+/**
+ * Builds one row per element (composite components included, e.g. SV101-2)
+ * and one row per included code value, each sheet starting with its header.
+ */
+export function buildMappingSheets(spec: Specification): MappingSheets {
+  const sheets: MappingSheets = { elements: [MAPPING_COLUMNS], codes: [CODE_COLUMNS] };
+  addLoopRows(sheets, spec.loops, []);
+  return sheets;
+}
+
+function escapeCSVField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serializes rows as RFC 4180 CSV with CRLF line endings.
+ */
+export function toCSV(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCSVField).join(',')).join('\r\n') + '\r\n';
+}
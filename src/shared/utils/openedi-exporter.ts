@@ -0,0 +1,248 @@
+/**
+ * OpenEDI Specification Exporter
+ * Writes a customized specification as EdiNation OpenAPI schema JSON with
+ * x-openedi extensions, the same format openedi-importer reads
+ */
+
+import { Specification, Loop, Segment, Element } from '../models/edi-types';
+import { OpenAPISchema, OpenAPISchemaDefinition, OpenAPIProperty } from './openedi-importer';
+import { formatSyntaxRule } from './syntax-rules';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+// Repeats above this are written without maxItems (unbounded, ">1" in the guide)
+const UNBOUNDED_MAX_USE = 9999;
+
+interface ExportContext {
+  schemas: Record<string, OpenAPISchemaDefinition>;
+}
+
+/**
+ * Registers a schema under `baseName`. The same segment can be constrained
+ * differently in two loops, so a differing schema with a taken name gets a
+ * numeric suffix (N1, N1_2, ...) while an identical one is shared.
+ */
+function addSchema(ctx: ExportContext, baseName: string, schema: OpenAPISchemaDefinition): string {
+  const serialized = JSON.stringify(schema);
+  let name = baseName;
+  for (let n = 2; ctx.schemas[name]; n++) {
+    if (JSON.stringify(ctx.schemas[name]) === serialized) return name;
+    name = `${baseName}_${n}`;
+  }
+  ctx.schemas[name] = schema;
+  return name;
+}
+
+function schemaRef(name: string): string {
+  return `${SCHEMA_REF_PREFIX}${name}`;
+}
+
+function uniqueKey(keys: Set<string>, baseKey: string): string {
+  let key = baseKey;
+  for (let n = 2; keys.has(key); n++) {
+    key = `${baseKey}_${n}`;
+  }
+  keys.add(key);
+  return key;
+}
+
+/**
+ * Builds the property key the importer derives names from,
+ * e.g. "Entity Identifier Code" at position 1 -> "EntityIdentifierCode_01".
+ */
+export function elementPropertyKey(element: Element): string {
+  const words = element.name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const pascal = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('') || 'Element';
+  return `${pascal}_${String(element.position).padStart(2, '0')}`;
+}
+
+function elementLabel(segmentName: string, position: number): string {
+  return `${segmentName}${String(position).padStart(2, '0')}`;
+}
+
+function repeatProperty(ref: string, minUse: number, maxUse: number): OpenAPIProperty {
+  if (maxUse <= 1) return { $ref: ref };
+  return {
+    type: 'array',
+    items: { $ref: ref },
+    ...(minUse > 1 ? { minItems: minUse } : {}),
+    ...(maxUse <= UNBOUNDED_MAX_USE ? { maxItems: maxUse } : {}),
+  };
+}
+
+// ============================================================================
+// Elements
+// ============================================================================
+
+function exportElements(ctx: ExportContext, elements: Element[], refDesPrefix: string, componentSeparator: string) {
+  const properties: Record<string, OpenAPIProperty> = {};
+  const required: string[] = [];
+
+  for (const element of [...elements].sort((a, b) => a.position - b.position)) {
+    const key = elementPropertyKey(element);
+    const refDes = componentSeparator
+      ? `${refDesPrefix}${componentSeparator}${element.position}`
+      : elementLabel(refDesPrefix, element.position);
+
+    properties[key] = exportElement(ctx, element, refDes);
+    if (element.usage === 'M') required.push(key);
+  }
+
+  return { properties, required };
+}
+
+function exportElement(ctx: ExportContext, element: Element, refDes: string): OpenAPIProperty {
+  if (element.components && element.components.length > 0) {
+    const { properties, required } = exportElements(ctx, element.components, refDes, '-');
+    const name = addSchema(ctx, refDes, {
+      type: 'object',
+      description: element.name,
+      ...(required.length > 0 ? { required } : {}),
+      properties,
+      'x-openedi-composite-id': element.referenceNumber || refDes,
+    });
+    return { $ref: schemaRef(name) };
+  }
+
+  const property: OpenAPIProperty = {
+    type: 'string',
+    description: element.name,
+    format: `X12_${element.dataType}`,
+  };
+  if (element.minLength > 0) property.minLength = element.minLength;
+  if (element.maxLength > 0) property.maxLength = element.maxLength;
+  if (element.referenceNumber) property['x-openedi-element-id'] = element.referenceNumber;
+
+  // Excluded codes are dropped so the enum reflects what the partner accepts
+  const codes = (element.codeValues || []).filter(cv => cv.included);
+  if (codes.length > 0) {
+    const described = codes.some(cv => cv.description && cv.description !== cv.code);
+    const name = addSchema(ctx, `X12_${element.dataType}_${refDes}`, {
+      type: 'string',
+      enum: codes.map(cv => cv.code),
+      ...(described ? { 'x-enum-descriptions': codes.map(cv => cv.description) } : {}),
+    });
+    property.allOf = [{ $ref: schemaRef(name) }];
+  }
+
+  return property;
+}
+
+// ============================================================================
+// Segments and loops
+// ============================================================================
+
+function exportSegment(ctx: ExportContext, segment: Segment): string {
+  const { properties, required } = exportElements(ctx, segment.elements, segment.name, '');
+  const syntax = (segment.syntaxRules || []).map(formatSyntaxRule);
+
+  return addSchema(ctx, segment.name, {
+    type: 'object',
+    description: segment.description,
+    ...(required.length > 0 ? { required } : {}),
+    properties,
+    'x-openedi-segment-id': segment.name,
+    ...(syntax.length > 0 ? { 'x-openedi-syntax': syntax } : {}),
+  });
+}
+
+// Container properties are written in document order, which translators read as segment order
+// Structural sections that only group the transaction set; they are never loops of their own
+const SECTION_LOOPS = ['HEADER', 'DETAIL', 'SUMMARY'];
+
+type ContainerChild = { kind: 'segment'; segment: Segment } | { kind: 'loop'; loop: Loop };
+
+function loopChildren(loop: Loop): ContainerChild[] {
+  return [
+    ...loop.segments.map(segment => ({ kind: 'segment' as const, segment })),
+    ...loop.loops.map(child => ({ kind: 'loop' as const, loop: child })),
+  ];
+}
+
+function exportContainer(ctx: ExportContext, children: ContainerChild[]) {
+  const properties: Record<string, OpenAPIProperty> = {};
+  const required: string[] = [];
+  const keys = new Set<string>();
+
+  for (const child of children) {
+    if (child.kind === 'segment') {
+      const { segment } = child;
+      const key = uniqueKey(keys, segment.name);
+      properties[key] = repeatProperty(schemaRef(exportSegment(ctx, segment)), segment.minUse, segment.maxUse);
+      if (segment.usage === 'M') required.push(key);
+    } else {
+      const { loop } = child;
+      const key = uniqueKey(keys, `Loop_${loop.name}`);
+      properties[key] = repeatProperty(schemaRef(exportLoop(ctx, loop)), loop.minUse, loop.maxUse);
+      if (loop.usage === 'M') required.push(key);
+    }
+  }
+
+  return { properties, required };
+}
+
+function exportLoop(ctx: ExportContext, loop: Loop): string {
+  const { properties, required } = exportContainer(ctx, loopChildren(loop));
+
+  return addSchema(ctx, `Loop_${loop.name}`, {
+    type: 'object',
+    ...(loop.description ? { description: loop.description } : {}),
+    ...(required.length > 0 ? { required } : {}),
+    properties,
+    'x-openedi-loop-id': loop.name,
+  });
+}
+
+// ============================================================================
+// Transaction set
+// ============================================================================
+
+/**
+ * Top-level loops that occur once and are always present (HEADER/DETAIL
+ * sections, the importers' TS### loop) are flattened into the transaction set
+ * schema. An optional loop keeps its own schema, so its mandatory segments are
+ * only required when the loop is sent.
+ */
+function isFlattenedSection(loop: Loop): boolean {
+  return loop.maxUse <= 1 && (loop.usage === 'M' || SECTION_LOOPS.includes(loop.name.toUpperCase()));
+}
+
+/**
+ * Converts a specification to an OpenAPI document. Conditional usage is
+ * written as optional since OpenAPI only distinguishes required properties.
+ */
+export function exportOpenAPISpec(spec: Specification): OpenAPISchema {
+  const { metadata } = spec;
+  const transactionSchemaName = `TS${metadata.transactionSet}`;
+
+  // Reserve the transaction set name so it is listed first and never suffixed
+  const ctx: ExportContext = { schemas: { [transactionSchemaName]: {} } };
+
+  // Sections keep their place: HEADER segments and loops, then DETAIL, then SUMMARY
+  const children = spec.loops.flatMap((loop): ContainerChild[] =>
+    isFlattenedSection(loop) ? loopChildren(loop) : [{ kind: 'loop', loop }]
+  );
+
+  const { properties, required } = exportContainer(ctx, children);
+
+  ctx.schemas[transactionSchemaName] = {
+    type: 'object',
+    description: metadata.transactionSetName,
+    ...(required.length > 0 ? { required } : {}),
+    properties,
+    'x-openedi-message-id': metadata.transactionSet,
+    'x-openedi-message-standard': 'X12',
+    'x-openedi-message-version': metadata.ediVersion,
+  };
+
+  return {
+    openapi: '3.0.1',
+    info: { title: metadata.name, version: metadata.version },
+    paths: {},
+    components: { schemas: ctx.schemas },
+  };
+}
+
+export function exportOpenAPIJson(spec: Specification): string {
+  return JSON.stringify(exportOpenAPISpec(spec), null, 2);
+}
@@ -1,7 +1,8 @@
 /**
  * OpenEDI Specification Importer
  * Converts EdiNation OpenEDI specifications to internal format
- * Supports both legacy format and OpenAPI schema format
+ * Supports both legacy format and OpenAPI schema format, and dispatches
+ * X12 XML schemas and JSON Schema to their importers
  */
 
 import { v4 as uuidv4 } from 'uuid';
@@ -11,12 +12,16 @@ import {
   Segment,
   Element,
   CodeValue,
+  SyntaxRule,
   UsageType,
   OpenEDITransactionSet,
   OpenEDILoop,
   OpenEDISegment,
   OpenEDIElement,
 } from '../models/edi-types';
+import { parseSyntaxRule } from './syntax-rules';
+import { isXsdFormat, importXsdSpec } from './xsd-importer';
+import { isJSONSchemaFormat, importJSONSchemaSpec } from './json-schema-importer';
 
 function parseUsage(req: string): UsageType {
   switch (req?.toUpperCase()) {
@@ -39,11 +44,15 @@ function convertElement(openEDIElement: OpenEDIElement, position: number): Eleme
     description: code.Description,
     included: true,
   }));
+  // Id is either the element reference number (98, C003) or a reference
+  // designator (N101); only the former is kept
+  const isReferenceNumber = /^(\d+|C\d{3})$/.test(openEDIElement.Id || '');
 
   return {
     id: uuidv4(),
     position,
     name: openEDIElement.Name || openEDIElement.Id,
+    referenceNumber: isReferenceNumber ? openEDIElement.Id : undefined,
     dataType: openEDIElement.DataType || 'AN',
     minLength: openEDIElement.MinLength || 0,
     maxLength: openEDIElement.MaxLength || 0,
@@ -51,6 +60,9 @@ function convertElement(openEDIElement: OpenEDIElement, position: number): Eleme
     baseUsage: usage,
     codeValues: codeValues.length > 0 ? codeValues : undefined,
     baseCodes: codeValues.length > 0 ? [...codeValues] : undefined,
+    components: openEDIElement.Components?.length
+      ? openEDIElement.Components.map((component, idx) => convertElement(component, idx + 1))
+      : undefined,
   };
 }
 
@@ -115,16 +127,18 @@ export function importOpenEDISpec(openEDISpec: OpenEDITransactionSet): Specifica
 // OpenAPI Schema Format Parser (EdiNation's current format)
 // ============================================================================
 
-interface OpenAPISchema {
+export interface OpenAPISchema {
   openapi: string;
   info?: { title?: string; version?: string };
+  paths?: Record<string, unknown>;
   components?: {
     schemas?: Record<string, OpenAPISchemaDefinition>;
   };
 }
 
-interface OpenAPISchemaDefinition {
+export interface OpenAPISchemaDefinition {
   type?: string;
+  description?: string;
   required?: string[];
   properties?: Record<string, OpenAPIProperty>;
   enum?: string[];
@@ -132,11 +146,16 @@ interface OpenAPISchemaDefinition {
   'x-openedi-segment-id'?: string;
   'x-openedi-message-id'?: string;
   'x-openedi-message-standard'?: string;
+  'x-openedi-message-version'?: string;
   'x-openedi-loop-id'?: string;
+  'x-openedi-composite-id'?: string;
+  'x-openedi-syntax'?: string[];
+  'x-enum-descriptions'?: string[];
 }
 
-interface OpenAPIProperty {
+export interface OpenAPIProperty {
   type?: string;
+  description?: string;
   minLength?: number;
   maxLength?: number;
   format?: string;
@@ -144,9 +163,15 @@ interface OpenAPIProperty {
   allOf?: Array<{ $ref?: string }>;
   $ref?: string;
   items?: { $ref?: string };
+  minItems?: number;
+  maxItems?: number;
   'x-openedi-element-id'?: string;
+  'x-enum-descriptions'?: string[];
 }
 
+// Arrays without maxItems are stored as a large repeat, shown as ">1"
+const OPENAPI_UNBOUNDED_MAX_USE = 99999;
+
 function isOpenAPIFormat(parsed: any): parsed is OpenAPISchema {
   return parsed && typeof parsed === 'object' && 'openapi' in parsed && 'components' in parsed;
 }
@@ -174,82 +199,195 @@ function getElementPosition(key: string): number {
   return match ? parseInt(match[1], 10) : 1;
 }
 
-function importOpenAPISegment(
-  segmentId: string,
+function resolveSchemaRef(ref: string, allSchemas: Record<string, OpenAPISchemaDefinition>): OpenAPISchemaDefinition | undefined {
+  return allSchemas[ref.replace('#/components/schemas/', '')];
+}
+
+/**
+ * Builds code values for an enum. Descriptions come from an
+ * x-enum-descriptions list parallel to the enum, or from "CODE - Description"
+ * lines in the schema description; codes without one are described by the
+ * code itself.
+ */
+function importOpenAPICodes(codes: string[], source: OpenAPISchemaDefinition | OpenAPIProperty): CodeValue[] {
+  const fromDescription: Record<string, string> = {};
+  for (const line of (source.description || '').split(/\r?\n/)) {
+    const match = line.match(/^\s*(\S+)\s*(?:-|:|=)\s*(.+?)\s*$/);
+    if (match && codes.includes(match[1])) fromDescription[match[1]] = match[2];
+  }
+
+  return codes.map((code, index) => ({
+    code,
+    description: source['x-enum-descriptions']?.[index] || fromDescription[code] || code,
+    included: true,
+  }));
+}
+
+function importOpenAPIElements(
   schema: OpenAPISchemaDefinition,
-  allSchemas: Record<string, OpenAPISchemaDefinition>,
-  requiredSegments: string[]
-): Segment {
-  const isRequired = requiredSegments.includes(segmentId);
+  allSchemas: Record<string, OpenAPISchemaDefinition>
+): Element[] {
   const elements: Element[] = [];
-
-  if (schema.properties) {
-    const propEntries = Object.entries(schema.properties).filter(
-      ([key]) => !key.startsWith('Model') && key !== '$ref'
-    );
-
-    for (const [propKey, prop] of propEntries) {
-      const position = getElementPosition(propKey);
-      const isElementRequired = schema.required?.includes(propKey) ?? false;
-
-      // Get code values if this references an enum schema
-      let codeValues: CodeValue[] | undefined;
-      if (prop.allOf) {
-        for (const ref of prop.allOf) {
-          if (ref.$ref) {
-            const refName = ref.$ref.replace('#/components/schemas/', '');
-            const refSchema = allSchemas[refName];
-            if (refSchema?.enum) {
-              codeValues = refSchema.enum.map(code => ({
-                code,
-                description: code,
-                included: true,
-              }));
-            }
-          }
-        }
+  if (!schema.properties) return elements;
+
+  const propEntries = Object.entries(schema.properties).filter(
+    ([key]) => !key.startsWith('Model') && key !== '$ref'
+  );
+
+  for (const [propKey, prop] of propEntries) {
+    const position = getElementPosition(propKey);
+    const isElementRequired = schema.required?.includes(propKey) ?? false;
+
+    // Get code values or composite structure from referenced schemas
+    let codeValues: CodeValue[] | undefined;
+    let components: Element[] | undefined;
+    let name = prop.description;
+    let referenceNumber = prop['x-openedi-element-id'];
+    const refs = [...(prop.allOf || []).map(ref => ref.$ref), prop.$ref].filter((ref): ref is string => !!ref);
+    for (const ref of refs) {
+      const refSchema = resolveSchemaRef(ref, allSchemas);
+      if (refSchema?.enum) {
+        codeValues = importOpenAPICodes(refSchema.enum, refSchema);
+        // Code list schemas are named after the element, e.g. X12_ID_353
+        referenceNumber = referenceNumber || ref.match(/X12_[A-Z0-9]+_(\d+)$/)?.[1];
       }
-      if (prop.enum) {
-        codeValues = prop.enum.map(code => ({
-          code,
-          description: code,
-          included: true,
-        }));
+      const compositeId = refSchema?.['x-openedi-composite-id'];
+      if (refSchema && compositeId) {
+        components = importOpenAPIElements(refSchema, allSchemas);
+        name = name || refSchema.description;
+        // Exported guides label composites by reference designator (SV101)
+        // when the composite number is unknown, so only C### ids are kept
+        referenceNumber = referenceNumber || (/^C\d{3}$/.test(compositeId) ? compositeId : undefined);
       }
-
-      const element: Element = {
-        id: uuidv4(),
-        position,
-        name: parseElementNameFromKey(propKey),
-        dataType: parseDataTypeFromFormat(prop.format),
-        minLength: prop.minLength || 0,
-        maxLength: prop.maxLength || 0,
-        usage: isElementRequired ? 'M' : 'O',
-        baseUsage: isElementRequired ? 'M' : 'O',
-        codeValues,
-        baseCodes: codeValues ? [...codeValues] : undefined,
-      };
-      elements.push(element);
     }
+    if (prop.enum) {
+      codeValues = importOpenAPICodes(prop.enum, prop);
+    }
+
+    const element: Element = {
+      id: uuidv4(),
+      position,
+      name: name || parseElementNameFromKey(propKey),
+      dataType: parseDataTypeFromFormat(prop.format),
+      minLength: prop.minLength || 0,
+      maxLength: prop.maxLength || 0,
+      usage: isElementRequired ? 'M' : 'O',
+      baseUsage: isElementRequired ? 'M' : 'O',
+      codeValues,
+      baseCodes: codeValues ? [...codeValues] : undefined,
+      components,
+    };
+    if (referenceNumber) element.referenceNumber = referenceNumber;
+    elements.push(element);
+  }
 
-    // Sort elements by position
-    elements.sort((a, b) => a.position - b.position);
+  // Sort elements by position
+  return elements.sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Reads usage and repeat counts from a container property. Repeating segments
+ * and loops are arrays whose maxItems is the repeat count; arrays without
+ * maxItems are unbounded.
+ */
+function getOpenAPIOccurrence(prop: OpenAPIProperty, isRequired: boolean): { usage: UsageType; minUse: number; maxUse: number } {
+  const usage: UsageType = isRequired ? 'M' : 'O';
+  if (prop.type === 'array' || prop.items) {
+    return {
+      usage,
+      minUse: prop.minItems ?? (isRequired ? 1 : 0),
+      maxUse: prop.maxItems ?? OPENAPI_UNBOUNDED_MAX_USE,
+    };
   }
+  return { usage, minUse: isRequired ? 1 : 0, maxUse: 1 };
+}
+
+function importOpenAPISegment(
+  segmentId: string,
+  schema: OpenAPISchemaDefinition,
+  allSchemas: Record<string, OpenAPISchemaDefinition>,
+  prop: OpenAPIProperty,
+  isRequired: boolean
+): Segment {
+  const { usage, minUse, maxUse } = getOpenAPIOccurrence(prop, isRequired);
+  const elements = importOpenAPIElements(schema, allSchemas);
+  const syntaxRules = (schema['x-openedi-syntax'] || [])
+    .map(parseSyntaxRule)
+    .filter((rule): rule is Omit<SyntaxRule, 'id'> => rule !== null)
+    .map(rule => ({ id: uuidv4(), ...rule }));
 
   return {
     id: uuidv4(),
     name: segmentId,
-    description: segmentId,
-    usage: isRequired ? 'M' : 'O',
-    baseUsage: isRequired ? 'M' : 'O',
-    minUse: isRequired ? 1 : 0,
-    maxUse: 1,
-    baseMinUse: isRequired ? 1 : 0,
-    baseMaxUse: 1,
+    description: schema.description || segmentId,
+    usage,
+    baseUsage: usage,
+    minUse,
+    maxUse,
+    baseMinUse: minUse,
+    baseMaxUse: maxUse,
     elements,
+    syntaxRules: syntaxRules.length > 0 ? syntaxRules : undefined,
   };
 }
 
+/**
+ * Walks the properties of the transaction set or a loop schema, following
+ * $refs (directly or through array items) into segment and loop schemas.
+ * Loops are imported recursively so nested structures (N1, PO1, HL) are kept.
+ */
+function importOpenAPIContainer(
+  schema: OpenAPISchemaDefinition,
+  allSchemas: Record<string, OpenAPISchemaDefinition>,
+  segmentSchemas: Record<string, OpenAPISchemaDefinition>,
+  visiting: Set<string> = new Set()
+): { segments: Segment[]; loops: Loop[] } {
+  const segments: Segment[] = [];
+  const loops: Loop[] = [];
+  const required = schema.required || [];
+
+  for (const [propKey, prop] of Object.entries(schema.properties || {})) {
+    if (propKey === 'Model') continue;
+
+    const ref = prop.$ref || prop.items?.$ref;
+    const refName = ref?.replace('#/components/schemas/', '');
+    const target = refName ? allSchemas[refName] : segmentSchemas[propKey];
+    if (!target) continue;
+
+    const isRequired = required.includes(propKey);
+    const loopId = target['x-openedi-loop-id'];
+
+    if (loopId) {
+      // Guard against self-referencing schemas
+      if (refName && visiting.has(refName)) continue;
+      const { usage, minUse, maxUse } = getOpenAPIOccurrence(prop, isRequired);
+      const children = importOpenAPIContainer(
+        target,
+        allSchemas,
+        segmentSchemas,
+        refName ? new Set([...visiting, refName]) : visiting
+      );
+      loops.push({
+        id: uuidv4(),
+        name: loopId,
+        description: target.description,
+        usage,
+        baseUsage: usage,
+        minUse,
+        maxUse,
+        baseMinUse: minUse,
+        baseMaxUse: maxUse,
+        ...children,
+      });
+    } else {
+      const segmentId = target['x-openedi-segment-id'] || propKey;
+      segments.push(importOpenAPISegment(segmentId, target, allSchemas, prop, isRequired));
+    }
+  }
+
+  return { segments, loops };
+}
+
 function importOpenAPIFormat(parsed: OpenAPISchema): Specification {
   const now = new Date().toISOString();
   const schemas = parsed.components?.schemas || {};
@@ -270,48 +408,17 @@ function importOpenAPIFormat(parsed: OpenAPISchema): Specification {
     throw new Error('No transaction set found in OpenAPI schema (missing x-openedi-message-id)');
   }
 
-  // Get all segment schemas
+  // Segment schemas by id, for transaction sets that list segments by key
+  // instead of by $ref
   const segmentSchemas: Record<string, OpenAPISchemaDefinition> = {};
-  const loopSchemas: Record<string, OpenAPISchemaDefinition> = {};
-
-  for (const [key, schema] of Object.entries(schemas)) {
+  for (const schema of Object.values(schemas)) {
     if (schema['x-openedi-segment-id']) {
       segmentSchemas[schema['x-openedi-segment-id']] = schema;
     }
-    if (schema['x-openedi-loop-id']) {
-      loopSchemas[schema['x-openedi-loop-id']] = schema;
-    }
   }
 
-  // Build segments from the transaction set properties
-  const segments: Segment[] = [];
-  const requiredSegments = transactionSetSchema.required || [];
-
-  if (transactionSetSchema.properties) {
-    for (const [propKey, prop] of Object.entries(transactionSetSchema.properties)) {
-      if (propKey === 'Model') continue;
-
-      // Check if this is a segment reference
-      let segmentId = propKey;
-      let segmentSchema = segmentSchemas[segmentId];
-
-      // Handle $ref
-      if (prop.$ref) {
-        const refName = prop.$ref.replace('#/components/schemas/', '');
-        segmentSchema = schemas[refName];
-        if (segmentSchema?.['x-openedi-segment-id']) {
-          segmentId = segmentSchema['x-openedi-segment-id'];
-        }
-      }
-
-      if (segmentSchema) {
-        const segment = importOpenAPISegment(segmentId, segmentSchema, schemas, requiredSegments);
-        segments.push(segment);
-      }
-    }
-  }
+  const { segments, loops } = importOpenAPIContainer(transactionSetSchema, schemas, segmentSchemas);
 
-  // Create a single loop to hold all segments
   const mainLoop: Loop = {
     id: uuidv4(),
     name: `TS${transactionSetId}`,
@@ -323,22 +430,28 @@ function importOpenAPIFormat(parsed: OpenAPISchema): Specification {
     baseMinUse: 1,
     baseMaxUse: 1,
     segments,
-    loops: [],
+    loops,
   };
 
   const template = TRANSACTION_SET_TEMPLATES[transactionSetId];
+  const transactionSetName = transactionSetSchema.description || template?.name;
+  const standard = transactionSetSchema['x-openedi-message-standard'] || 'X12';
+  const ediVersion =
+    transactionSetSchema['x-openedi-message-version'] ||
+    `${parsed.info?.title || ''} ${parsed.info?.version || ''}`.match(/\b(00\d{4})\b/)?.[1] ||
+    '005010';
 
   return {
     id: uuidv4(),
     metadata: {
-      name: template?.name || `Transaction Set ${transactionSetId}`,
+      name: transactionSetName || `Transaction Set ${transactionSetId}`,
       version: '1.0',
       transactionSet: transactionSetId,
-      transactionSetName: template?.name || transactionSetId,
-      ediVersion: '005010',
+      transactionSetName: transactionSetName || transactionSetId,
+      ediVersion,
       createdDate: now,
       modifiedDate: now,
-      baseSpecReference: `EdiNation/OpenAPI/${transactionSetId}`,
+      baseSpecReference: `EdiNation/${standard}/${ediVersion}/${transactionSetId}`,
     },
     loops: [mainLoop],
     examples: [],
@@ -366,8 +479,18 @@ export function parseOpenEDIJson(jsonContent: string): OpenEDITransactionSet {
   return parsed as OpenEDITransactionSet;
 }
 
-// Wrapper function that handles both formats
+// Wrapper function that detects the format: X12 XML schema, JSON Schema,
+// OpenAPI or legacy OpenEDI
 export function parseAndImportSpec(jsonContent: string): Specification {
+  if (isXsdFormat(jsonContent)) {
+    return importXsdSpec(jsonContent);
+  }
+
+  const parsed = JSON.parse(jsonContent);
+  if (isJSONSchemaFormat(parsed)) {
+    return importJSONSchemaSpec(parsed);
+  }
+
   try {
     const openEDISpec = parseOpenEDIJson(jsonContent);
     return importOpenEDISpec(openEDISpec);
@@ -0,0 +1,299 @@
+/**
+ * Specification Diff
+ * Structural comparison of two specifications, e.g. partner guide v1.2 against v1.3
+ */
+
+import { Specification, Loop, Segment, Element, CodeValue, ExampleEDI } from '../models/edi-types';
+import { formatSyntaxRule } from './syntax-rules';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export type ChangeTarget = 'metadata' | 'loop' | 'segment' | 'element' | 'code' | 'example';
+
+export interface SpecChange {
+  kind: ChangeKind;
+  target: ChangeTarget;
+  path: string[]; // Readable location, e.g. ['HEADER', 'N1', 'N1', 'N101']
+  field?: string; // Changed property for 'changed' entries
+  before?: string;
+  after?: string;
+  description: string;
+}
+
+export interface SpecDiff {
+  changes: SpecChange[];
+  summary: Record<ChangeKind, number>;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Pairs items from two lists by key. Repeated keys (e.g. two N1 loops) are
+ * matched in order of occurrence, since ids differ between imports.
+ */
+function matchByKey<T>(before: T[], after: T[], key: (item: T) => string): Array<[T | undefined, T | undefined]> {
+  const occurrenceKeys = (items: T[]) => {
+    const seen = new Map<string, number>();
+    return items.map(item => {
+      const k = key(item);
+      const n = seen.get(k) ?? 0;
+      seen.set(k, n + 1);
+      return `${k}#${n}`;
+    });
+  };
+
+  const beforeKeys = occurrenceKeys(before);
+  const afterKeys = occurrenceKeys(after);
+  const afterIndex = new Map(afterKeys.map((k, i) => [k, i]));
+  const matchedAfter = new Set<number>();
+  const pairs: Array<[T | undefined, T | undefined]> = [];
+
+  before.forEach((item, i) => {
+    const j = afterIndex.get(beforeKeys[i]);
+    if (j !== undefined) {
+      matchedAfter.add(j);
+      pairs.push([item, after[j]]);
+    } else {
+      pairs.push([item, undefined]);
+    }
+  });
+  after.forEach((item, j) => {
+    if (!matchedAfter.has(j)) pairs.push([undefined, item]);
+  });
+
+  return pairs;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(none)';
+  return String(value);
+}
+
+function elementLabel(segmentName: string, position: number): string {
+  return `${segmentName}${String(position).padStart(2, '0')}`;
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+interface DiffContext {
+  changes: SpecChange[];
+}
+
+function compareFields<T>(
+  ctx: DiffContext,
+  target: ChangeTarget,
+  path: string[],
+  before: T,
+  after: T,
+  fields: Array<[keyof T & string, string]>
+): void {
+  for (const [field, label] of fields) {
+    const a = formatValue(before[field]);
+    const b = formatValue(after[field]);
+    if (a !== b) {
+      ctx.changes.push({
+        kind: 'changed',
+        target,
+        path,
+        field,
+        before: a,
+        after: b,
+        description: `${label} changed from ${a} to ${b}`,
+      });
+    }
+  }
+}
+
+function diffLoops(ctx: DiffContext, before: Loop[], after: Loop[], parentPath: string[]): void {
+  for (const [a, b] of matchByKey(before, after, loop => loop.name)) {
+    const loop = (a ?? b)!;
+    const path = [...parentPath, loop.name];
+
+    if (!a || !b) {
+      ctx.changes.push({
+        kind: a ? 'removed' : 'added',
+        target: 'loop',
+        path,
+        description: `Loop ${loop.name} ${a ? 'removed' : 'added'}`,
+      });
+      continue;
+    }
+
+    compareFields(ctx, 'loop', path, a, b, [
+      ['description', 'Description'],
+      ['usage', 'Usage'],
+      ['minUse', 'Min use'],
+      ['maxUse', 'Max use'],
+      ['conditionDescription', 'Condition'],
+      ['comments', 'Comments'],
+    ]);
+    diffSegments(ctx, a.segments, b.segments, path);
+    diffLoops(ctx, a.loops, b.loops, path);
+  }
+}
+
+function diffSegments(ctx: DiffContext, before: Segment[], after: Segment[], loopPath: string[]): void {
+  for (const [a, b] of matchByKey(before, after, segment => segment.name)) {
+    const segment = (a ?? b)!;
+    const path = [...loopPath, segment.name];
+
+    if (!a || !b) {
+      ctx.changes.push({
+        kind: a ? 'removed' : 'added',
+        target: 'segment',
+        path,
+        description: `Segment ${segment.name} ${a ? 'removed' : 'added'}`,
+      });
+      continue;
+    }
+
+    compareFields(ctx, 'segment', path, a, b, [
+      ['description', 'Description'],
+      ['usage', 'Usage'],
+      ['minUse', 'Min use'],
+      ['maxUse', 'Max use'],
+      ['conditionDescription', 'Condition'],
+      ['comments', 'Comments'],
+    ]);
+
+    const rulesBefore = (a.syntaxRules || []).map(formatSyntaxRule).join(', ');
+    const rulesAfter = (b.syntaxRules || []).map(formatSyntaxRule).join(', ');
+    if (rulesBefore !== rulesAfter) {
+      ctx.changes.push({
+        kind: 'changed',
+        target: 'segment',
+        path,
+        field: 'syntaxRules',
+        before: formatValue(rulesBefore),
+        after: formatValue(rulesAfter),
+        description: `Syntax notes changed from ${formatValue(rulesBefore)} to ${formatValue(rulesAfter)}`,
+      });
+    }
+
+    diffElements(ctx, a.elements, b.elements, path, segment.name);
+  }
+}
+
+function diffElements(
+  ctx: DiffContext,
+  before: Element[],
+  after: Element[],
+  segmentPath: string[],
+  segmentName: string,
+  composite?: string // Label of the parent composite when comparing components, e.g. SV101
+): void {
+  for (const [a, b] of matchByKey(before, after, element => String(element.position))) {
+    const element = (a ?? b)!;
+    const label = composite ? `${composite}-${element.position}` : elementLabel(segmentName, element.position);
+    const path = [...segmentPath, label];
+
+    if (!a || !b) {
+      ctx.changes.push({
+        kind: a ? 'removed' : 'added',
+        target: 'element',
+        path,
+        description: `Element ${label} (${element.name}) ${a ? 'removed' : 'added'}`,
+      });
+      continue;
+    }
+
+    compareFields(ctx, 'element', path, a, b, [
+      ['name', 'Name'],
+      ['dataType', 'Data type'],
+      ['minLength', 'Min length'],
+      ['maxLength', 'Max length'],
+      ['usage', 'Usage'],
+      ['conditionDescription', 'Condition'],
+      ['comments', 'Comments'],
+    ]);
+    diffCodes(ctx, a.codeValues || [], b.codeValues || [], path);
+    diffElements(ctx, a.components || [], b.components || [], path, segmentName, label);
+  }
+}
+
+function diffCodes(ctx: DiffContext, before: CodeValue[], after: CodeValue[], elementPath: string[]): void {
+  for (const [a, b] of matchByKey(before, after, code => code.code)) {
+    const code = (a ?? b)!;
+    const path = [...elementPath, code.code];
+
+    if (!a || !b) {
+      ctx.changes.push({
+        kind: a ? 'removed' : 'added',
+        target: 'code',
+        path,
+        description: `Code ${code.code} (${code.description}) ${a ? 'removed' : 'added'}`,
+      });
+      continue;
+    }
+
+    if (a.included !== b.included) {
+      ctx.changes.push({
+        kind: 'changed',
+        target: 'code',
+        path,
+        field: 'included',
+        before: a.included ? 'included' : 'excluded',
+        after: b.included ? 'included' : 'excluded',
+        description: `Code ${code.code} ${b.included ? 'included' : 'excluded'}`,
+      });
+    }
+    compareFields(ctx, 'code', path, a, b, [['description', 'Description']]);
+  }
+}
+
+function diffExamples(ctx: DiffContext, before: ExampleEDI[], after: ExampleEDI[]): void {
+  for (const [a, b] of matchByKey(before, after, example => example.title)) {
+    const example = (a ?? b)!;
+    const path = ['Examples', example.title];
+
+    if (!a || !b) {
+      ctx.changes.push({
+        kind: a ? 'removed' : 'added',
+        target: 'example',
+        path,
+        description: `Example "${example.title}" ${a ? 'removed' : 'added'}`,
+      });
+      continue;
+    }
+
+    if (a.content !== b.content) {
+      ctx.changes.push({
+        kind: 'changed',
+        target: 'example',
+        path,
+        field: 'content',
+        description: `Example "${example.title}" content changed`,
+      });
+    }
+    compareFields(ctx, 'example', path, a, b, [['description', 'Description']]);
+  }
+}
+
+/**
+ * Compares two specifications. Loops and segments are matched by name (and
+ * occurrence for repeats), elements by position and codes by value, so specs
+ * imported separately compare cleanly even though their ids differ.
+ */
+export function diffSpecifications(before: Specification, after: Specification): SpecDiff {
+  const ctx: DiffContext = { changes: [] };
+
+  compareFields(ctx, 'metadata', ['Metadata'], before.metadata, after.metadata, [
+    ['name', 'Name'],
+    ['version', 'Version'],
+    ['transactionSet', 'Transaction set'],
+    ['ediVersion', 'EDI version'],
+    ['partner', 'Partner'],
+    ['description', 'Description'],
+  ]);
+  diffLoops(ctx, before.loops, after.loops, []);
+  diffExamples(ctx, before.examples, after.examples);
+
+  const summary: Record<ChangeKind, number> = { added: 0, removed: 0, changed: 0 };
+  for (const change of ctx.changes) summary[change.kind]++;
+
+  return { changes: ctx.changes, summary };
+}
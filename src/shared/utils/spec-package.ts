@@ -0,0 +1,76 @@
+/**
+ * Specification Packages
+ * Helpers for grouping several transaction set specifications for one partner
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Specification, SpecificationPackage, Envelope } from '../models/edi-types';
+import { createDefaultEnvelope } from './envelope';
+
+// Envelope fields that depend on the transaction set, so the package never overrides them
+export const PER_TRANSACTION_ENVELOPE_FIELDS: Array<keyof Envelope> = ['functionalIdentifierCode', 'versionCode'];
+
+export function isSpecificationPackage(value: unknown): value is SpecificationPackage {
+  return !!value && typeof value === 'object' && Array.isArray((value as SpecificationPackage).specifications);
+}
+
+/**
+ * Starts a package from an existing specification, which becomes its first
+ * transaction set. The partner moves up to the package so it is shared.
+ */
+export function createPackage(specification: Specification, name?: string): SpecificationPackage {
+  const now = new Date().toISOString();
+  const partner = specification.metadata.partner;
+
+  return {
+    id: uuidv4(),
+    name: name || (partner ? `${partner} EDI Guide` : 'EDI Specification Package'),
+    partner,
+    contacts: [],
+    createdDate: now,
+    modifiedDate: now,
+    specifications: [specification],
+  };
+}
+
+export function addSpecification(pkg: SpecificationPackage, specification: Specification): SpecificationPackage {
+  return { ...pkg, specifications: [...pkg.specifications, specification] };
+}
+
+export function replaceSpecification(pkg: SpecificationPackage, specification: Specification): SpecificationPackage {
+  return {
+    ...pkg,
+    specifications: pkg.specifications.map(spec => (spec.id === specification.id ? specification : spec)),
+  };
+}
+
+export function removeSpecification(pkg: SpecificationPackage, specificationId: string): SpecificationPackage {
+  return { ...pkg, specifications: pkg.specifications.filter(spec => spec.id !== specificationId) };
+}
+
+/**
+ * Returns the specification with the package's shared metadata applied, as it
+ * appears in the combined guide: the partner, and the envelope with the
+ * specification's own functional identifier and version.
+ */
+export function applyPackageMetadata(pkg: SpecificationPackage, specification: Specification): Specification {
+  if (!pkg.partner && !pkg.envelope) return specification;
+
+  let { metadata, envelope } = specification;
+  if (pkg.partner) {
+    metadata = { ...metadata, partner: pkg.partner };
+  }
+  if (pkg.envelope) {
+    const own = specification.envelope || createDefaultEnvelope(specification.metadata);
+    envelope = {
+      ...pkg.envelope,
+      functionalIdentifierCode: own.functionalIdentifierCode,
+      versionCode: own.versionCode,
+    };
+  }
+  return { ...specification, metadata, envelope };
+}
+
+export function formatTransactionSetLabel(specification: Specification): string {
+  return `${specification.metadata.transactionSet} - ${specification.metadata.transactionSetName}`;
+}
@@ -0,0 +1,87 @@
+/**
+ * X12 Syntax Notes
+ * Formats, describes, parses and evaluates segment relational conditions (P/R/E/C/L)
+ */
+
+import { SyntaxRule, SyntaxRuleType } from '../models/edi-types';
+
+export const SYNTAX_RULE_TYPES: Record<SyntaxRuleType, string> = {
+  P: 'Paired',
+  R: 'Required',
+  E: 'Exclusion',
+  C: 'Conditional',
+  L: 'List Conditional',
+};
+
+function elementRef(segmentName: string, position: number): string {
+  return `${segmentName}${String(position).padStart(2, '0')}`;
+}
+
+function joinRefs(refs: string[], conjunction: string): string {
+  if (refs.length <= 1) return refs.join('');
+  return `${refs.slice(0, -1).join(', ')} ${conjunction} ${refs[refs.length - 1]}`;
+}
+
+/**
+ * Formats a rule the way X12 prints it, e.g. P0405 or L100405
+ */
+export function formatSyntaxRule(rule: SyntaxRule): string {
+  return rule.type + rule.positions.map(p => String(p).padStart(2, '0')).join('');
+}
+
+/**
+ * Parses an X12 syntax note code like "C0506". Returns null when the code is malformed.
+ */
+export function parseSyntaxRule(code: string): Omit<SyntaxRule, 'id'> | null {
+  const match = code.trim().toUpperCase().match(/^([PRECL])((?:\d{2}){2,})$/);
+  if (!match) return null;
+  const positions = match[2].match(/\d{2}/g)!.map(p => parseInt(p, 10));
+  return { type: match[1] as SyntaxRuleType, positions };
+}
+
+/**
+ * Describes a rule in the wording used by the X12 standard
+ */
+export function describeSyntaxRule(rule: SyntaxRule, segmentName: string): string {
+  const refs = rule.positions.map(p => elementRef(segmentName, p));
+  const [first, ...rest] = refs;
+
+  switch (rule.type) {
+    case 'P':
+      return refs.length === 2
+        ? `If either ${refs[0]} or ${refs[1]} is present, then the other is required.`
+        : `If any of ${joinRefs(refs, 'or')} is present, then all are required.`;
+    case 'R':
+      return `At least one of ${joinRefs(refs, 'or')} is required.`;
+    case 'E':
+      return `Only one of ${joinRefs(refs, 'or')} may be present.`;
+    case 'C':
+      return rest.length === 1
+        ? `If ${first} is present, then ${rest[0]} is required.`
+        : `If ${first} is present, then all of ${joinRefs(rest, 'and')} are required.`;
+    case 'L':
+      return `If ${first} is present, then at least one of ${joinRefs(rest, 'or')} is required.`;
+  }
+}
+
+/**
+ * Checks a rule against the element positions present in a segment instance
+ */
+export function evaluateSyntaxRule(rule: SyntaxRule, isPresent: (position: number) => boolean): boolean {
+  const present = rule.positions.map(isPresent);
+  const count = present.filter(Boolean).length;
+  const [first, ...rest] = present;
+
+  switch (rule.type) {
+    case 'P':
+      return count === 0 || count === present.length;
+    case 'R':
+      return count > 0;
+    case 'E':
+      return count <= 1;
+    case 'C':
+      return !first || rest.every(Boolean);
+    case 'L':
+      return !first || rest.some(Boolean);
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * Variants
+ * Helpers for the segment elements a loop or segment variant can refine
+ */
+
+import {
+  Variant,
+  Segment,
+  Element,
+  CodeValue,
+  ElementOverride,
+  DiscriminatorRule,
+  DiscriminatorOperator,
+  Specification,
+  Loop,
+} from '../models/edi-types';
+
+export interface VariantElement {
+  ref: string; // e.g. "N103", or "SV101-1" for a composite component
+  element: Element;
+  segment: Segment;
+}
+
+function elementRef(segmentName: string, position: number): string {
+  return `${segmentName}${String(position).padStart(2, '0')}`;
+}
+
+/**
+ * Lists the elements of the given segments with their reference designators,
+ * composites followed by their components.
+ */
+export function listVariantElements(segments: Segment[]): VariantElement[] {
+  const result: VariantElement[] = [];
+  for (const segment of segments) {
+    for (const element of segment.elements) {
+      const ref = elementRef(segment.name, element.position);
+      result.push({ ref, element, segment });
+      for (const component of element.components || []) {
+        result.push({ ref: `${ref}-${component.position}`, element: component, segment });
+      }
+    }
+  }
+  return result;
+}
+
+// Elements with a code list, the ones a variant can restrict
+export function listCodedElements(segments: Segment[]): VariantElement[] {
+  return listVariantElements(segments).filter(e => (e.element.codeValues || []).length > 0);
+}
+
+/**
+ * Sets or clears the variant-specific code list for an element. Returns the
+ * new codeOverrides, or undefined when no element is overridden.
+ */
+export function setCodeOverride(
+  variant: Variant,
+  elementId: string,
+  codes: CodeValue[] | undefined
+): Variant['codeOverrides'] {
+  const overrides = { ...(variant.codeOverrides || {}) };
+  if (codes) {
+    overrides[elementId] = codes;
+  } else {
+    delete overrides[elementId];
+  }
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+/**
+ * The code overrides of a variant that still point at an element of the given
+ * segments, with the element's reference designator.
+ */
+export function describeCodeOverrides(
+  variant: Variant,
+  segments: Segment[]
+): Array<{ ref: string; element: Element; codes: CodeValue[] }> {
+  const overrides = variant.codeOverrides || {};
+  return listVariantElements(segments)
+    .filter(e => overrides[e.element.id])
+    .map(e => ({ ref: e.ref, element: e.element, codes: overrides[e.element.id] }));
+}
+
+/**
+ * Sets or clears an element override. Empty fields are dropped so the element's
+ * own values apply; returns undefined when no element is overridden.
+ */
+export function setElementOverride(
+  variant: Variant,
+  elementId: string,
+  override: ElementOverride | undefined
+): Variant['elementOverrides'] {
+  const overrides = { ...(variant.elementOverrides || {}) };
+  if (override) {
+    const cleaned = Object.fromEntries(
+      Object.entries(override).filter(([, value]) => value !== undefined && value !== '')
+    ) as ElementOverride;
+    overrides[elementId] = cleaned;
+  } else {
+    delete overrides[elementId];
+  }
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+function applyToElement(variant: Variant, element: Element): Element {
+  const override = variant.elementOverrides?.[element.id];
+  const codes = variant.codeOverrides?.[element.id];
+  const result: Element = {
+    ...element,
+    ...(codes ? { codeValues: codes } : {}),
+    components: element.components?.map(c => applyToElement(variant, c)),
+  };
+  if (!override) return result;
+
+  if (override.usage) result.usage = override.usage;
+  if (override.minLength !== undefined) result.minLength = override.minLength;
+  if (override.maxLength !== undefined) result.maxLength = override.maxLength;
+  if (override.comments) result.comments = override.comments;
+  if (override.fixedValue) {
+    // A fixed value narrows a code list to that code and is always called out in the notes
+    const fixed = (result.codeValues || []).filter(cv => cv.code === override.fixedValue);
+    if (fixed.length > 0) result.codeValues = fixed.map(cv => ({ ...cv, included: true }));
+    const note = `Fixed value: ${override.fixedValue}`;
+    result.comments = result.comments ? `${note}. ${result.comments}` : note;
+  }
+  return result;
+}
+
+// The segment as it reads when the variant applies, with code and element overrides
+export function applyVariant(segment: Segment, variant: Variant): Segment {
+  return { ...segment, elements: segment.elements.map(e => applyToElement(variant, e)) };
+}
+
+// Whether the variant overrides any element (or component) of the segment. An
+// override the editor has switched on but left empty changes nothing.
+export function hasElementOverrides(variant: Variant, segment: Segment): boolean {
+  const overrides = variant.elementOverrides || {};
+  return listVariantElements([segment]).some(e => Object.keys(overrides[e.element.id] || {}).length > 0);
+}
+
+// The element a discriminator rule refers to, matched on its reference designator
+export function findDiscriminatorElement(rule: DiscriminatorRule, segment: Segment): VariantElement | undefined {
+  const ref = rule.elementId.trim().toUpperCase();
+  return listVariantElements([segment]).find(e => e.ref === ref);
+}
+
+// The codes a discriminator may compare against: the variant's code override, else the element's codes
+export function discriminatorCodes(variant: Variant, element: Element): CodeValue[] {
+  return variant.codeOverrides?.[element.id] || element.codeValues || [];
+}
+
+export interface DiscriminatorIssue {
+  index: number; // Index of the rule in variant.discriminators
+  message: string;
+}
+
+/**
+ * Checks a variant's discriminator rules against the segment they read (the
+ * segment itself, or a loop's first segment): each rule must name an element
+ * of that segment and only compare against included codes.
+ */
+export function validateDiscriminators(variant: Variant, segment: Segment): DiscriminatorIssue[] {
+  const issues: DiscriminatorIssue[] = [];
+  variant.discriminators.forEach((rule, index) => {
+    if (!rule.elementId.trim()) {
+      issues.push({ index, message: 'Choose the element this rule checks' });
+      return;
+    }
+    const match = findDiscriminatorElement(rule, segment);
+    if (!match) {
+      issues.push({ index, message: `${rule.elementId} is not an element of ${segment.name}` });
+      return;
+    }
+    if (!operatorTakesValues(rule.operator)) return;
+    const values = rule.values.filter(v => v.trim());
+    if (values.length === 0) {
+      issues.push({ index, message: `Enter a value for ${match.ref}` });
+      return;
+    }
+    if (rule.operator === 'matches') {
+      if (!compilePattern(values[0])) {
+        issues.push({ index, message: `${values[0]} is not a valid pattern` });
+      }
+      return;
+    }
+    const codes = discriminatorCodes(variant, match.element);
+    if (codes.length === 0) return;
+    for (const value of values) {
+      const code = codes.find(cv => cv.code === value.trim());
+      if (!code) {
+        issues.push({ index, message: `${value} is not a code of ${match.ref}` });
+      } else if (!code.included) {
+        issues.push({ index, message: `${value} is excluded from the ${match.ref} code list` });
+      }
+    }
+  });
+  return issues;
+}
+
+export const DISCRIMINATOR_OPERATORS: Array<{ value: DiscriminatorOperator; label: string }> = [
+  { value: 'equals', label: '=' },
+  { value: 'one-of', label: 'in' },
+  { value: 'not-equals', label: '!=' },
+  { value: 'not-in', label: 'not in' },
+  { value: 'present', label: 'present' },
+  { value: 'absent', label: 'absent' },
+  { value: 'matches', label: 'matches' },
+];
+
+export function operatorTakesValues(operator: DiscriminatorOperator): boolean {
+  return operator !== 'present' && operator !== 'absent';
+}
+
+// Operators compared against a single value rather than a list
+export function isSingleValueOperator(operator: DiscriminatorOperator): boolean {
+  return operator === 'equals' || operator === 'not-equals' || operator === 'matches';
+}
+
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Splits rules into OR groups: every rule in a group must hold, and any group
+ * selects the variant. A rule with connector 'or' starts a new group.
+ */
+export function groupDiscriminators(rules: DiscriminatorRule[]): DiscriminatorRule[][] {
+  const groups: DiscriminatorRule[][] = [];
+  rules.forEach((rule, i) => {
+    if (i === 0 || rule.connector === 'or') {
+      groups.push([rule]);
+    } else {
+      groups[groups.length - 1].push(rule);
+    }
+  });
+  return groups;
+}
+
+// A single rule as printed in the documentation, e.g. "N101 in (ST, BT)" or "REF02 present"
+export function formatDiscriminator(rule: DiscriminatorRule): string {
+  const values = rule.values.filter(v => v.trim()).join(', ');
+  switch (rule.operator) {
+    case 'equals':
+      return `${rule.elementId} = ${values}`;
+    case 'one-of':
+      return `${rule.elementId} in (${values})`;
+    case 'not-equals':
+      return `${rule.elementId} != ${values}`;
+    case 'not-in':
+      return `${rule.elementId} not in (${values})`;
+    case 'present':
+      return `${rule.elementId} present`;
+    case 'absent':
+      return `${rule.elementId} absent`;
+    case 'matches':
+      return `${rule.elementId} matches ${rule.values[0] || ''}`;
+  }
+}
+
+// All rules of a variant, e.g. "REF01 in (BM, PK) OR REF02 present"
+export function formatDiscriminators(rules: DiscriminatorRule[]): string {
+  return groupDiscriminators(rules)
+    .map(group => group.map(formatDiscriminator).join(' AND '))
+    .join(' OR ');
+}
+
+/**
+ * Evaluates a single rule against an element value; an empty or missing value
+ * counts as absent.
+ */
+export function matchesDiscriminator(rule: DiscriminatorRule, value: string | undefined): boolean {
+  const present = value !== undefined && value !== '';
+  const values = rule.values.map(v => v.trim()).filter(v => v);
+  switch (rule.operator) {
+    case 'equals':
+    case 'one-of':
+      return present && values.includes(value!);
+    case 'not-equals':
+    case 'not-in':
+      return !present || !values.includes(value!);
+    case 'present':
+      return present;
+    case 'absent':
+      return !present;
+    case 'matches': {
+      const pattern = compilePattern(values[0] || '');
+      return present && !!pattern && pattern.test(value!);
+    }
+  }
+}
+
+/**
+ * Whether a variant applies, given a lookup of element values by reference
+ * designator (e.g. "N101"). Variants without rules never match.
+ */
+export function matchesVariant(variant: Variant, getValue: (ref: string) => string | undefined): boolean {
+  return groupDiscriminators(variant.discriminators).some(group =>
+    group.every(rule => matchesDiscriminator(rule, getValue(rule.elementId.trim().toUpperCase())))
+  );
+}
+
+export interface VariantConflict {
+  kind: 'overlap' | 'gap' | 'unconditional';
+  variantIds: string[];
+  message: string;
+}
+
+// Stand-in for any value not named by a rule, for elements without a code list
+const OTHER_VALUE = '\u0000other';
+
+// Above this many value combinations the analysis is skipped rather than run partially
+const MAX_COMBINATIONS = 5000;
+
+// Gaps listed per segment or loop before the rest are summarized
+const MAX_REPORTED_GAPS = 3;
+
+interface Candidate {
+  ref: string;
+  values: Array<string | undefined>; // undefined stands for an absent element
+  coded: boolean;
+}
+
+function candidateValues(ref: string, element: Element, rules: DiscriminatorRule[]): Candidate {
+  const included = (element.codeValues || []).filter(cv => cv.included).map(cv => cv.code);
+  const absent = element.usage === 'M' ? [] : [undefined];
+  if (included.length > 0) {
+    return { ref, values: [...included, ...absent], coded: true };
+  }
+  const named = rules
+    .filter(rule => rule.operator !== 'matches')
+    .flatMap(rule => rule.values.map(v => v.trim()).filter(v => v));
+  return { ref, values: [...new Set(named), OTHER_VALUE, ...absent], coded: false };
+}
+
+function combinations(candidates: Candidate[]): Array<Record<string, string | undefined>> {
+  return candidates.reduce<Array<Record<string, string | undefined>>>(
+    (combos, candidate) => combos.flatMap(combo => candidate.values.map(value => ({ ...combo, [candidate.ref]: value }))),
+    [{}]
+  );
+}
+
+function variantName(variant: Variant): string {
+  return variant.label || 'Unnamed variant';
+}
+
+function describeCombination(combo: Record<string, string | undefined>): string {
+  return Object.entries(combo)
+    .map(([ref, value]) => (value === undefined ? `${ref} absent` : value === OTHER_VALUE ? `${ref} other` : `${ref}=${value}`))
+    .join(', ');
+}
+
+/**
+ * Looks for variants that the same data could select (overlaps), variants
+ * without rules, and data that selects no variant (gaps). Values are taken from
+ * each discriminated element's included codes, or the values named in the rules
+ * when the element has no code list. Gaps are only reported for coded elements
+ * holding one of their codes. Runs when there are at least two variants.
+ */
+export function analyzeVariants(variants: Variant[], segment: Segment | undefined): VariantConflict[] {
+  if (variants.length < 2 || !segment) return [];
+
+  const conflicts: VariantConflict[] = variants
+    .filter(v => v.discriminators.length === 0)
+    .map(v => ({
+      kind: 'unconditional' as const,
+      variantIds: [v.id],
+      message: `${variantName(v)} has no discriminator rules, so it cannot be told apart from the other variants`,
+    }));
+  const ruled = variants.filter(v => v.discriminators.length > 0);
+
+  // Elements referenced by any rule, keyed by reference designator
+  const rules = ruled.flatMap(v => v.discriminators);
+  const candidates: Candidate[] = [];
+  for (const rule of rules) {
+    const match = findDiscriminatorElement(rule, segment);
+    if (!match || candidates.some(c => c.ref === match.ref)) continue;
+    const ruleSet = rules.filter(r => findDiscriminatorElement(r, segment)?.ref === match.ref);
+    candidates.push(candidateValues(match.ref, match.element, ruleSet));
+  }
+  if (candidates.length === 0) return conflicts;
+  if (candidates.reduce((n, c) => n * c.values.length, 1) > MAX_COMBINATIONS) return conflicts;
+
+  const overlaps = new Map<string, VariantConflict>();
+  const gaps: string[] = [];
+  for (const combo of combinations(candidates)) {
+    const matched = ruled.filter(v => matchesVariant(v, ref => combo[ref]));
+    for (let i = 0; i < matched.length; i++) {
+      for (let j = i + 1; j < matched.length; j++) {
+        const key = `${matched[i].id}|${matched[j].id}`;
+        if (overlaps.has(key)) continue;
+        overlaps.set(key, {
+          kind: 'overlap',
+          variantIds: [matched[i].id, matched[j].id],
+          message: `${variantName(matched[i])} and ${variantName(matched[j])} both match ${describeCombination(combo)}`,
+        });
+      }
+    }
+    const coded = candidates.filter(c => c.coded);
+    if (matched.length === 0 && coded.length > 0 && coded.every(c => combo[c.ref] !== undefined)) {
+      gaps.push(describeCombination(Object.fromEntries(coded.map(c => [c.ref, combo[c.ref]]))));
+    }
+  }
+
+  conflicts.push(...overlaps.values());
+  const uniqueGaps = [...new Set(gaps)];
+  if (uniqueGaps.length > 0) {
+    const listed = uniqueGaps.slice(0, MAX_REPORTED_GAPS).join('; ');
+    const more = uniqueGaps.length > MAX_REPORTED_GAPS ? ` and ${uniqueGaps.length - MAX_REPORTED_GAPS} more` : '';
+    conflicts.push({ kind: 'gap', variantIds: [], message: `No variant matches ${listed}${more}` });
+  }
+  return conflicts;
+}
+
+export interface VariantConflictReport {
+  nodeId: string;
+  label: string; // e.g. "Loop N1" or "Segment REF"
+  conflicts: VariantConflict[];
+}
+
+/**
+ * Runs analyzeVariants over every loop and segment of a specification; loop
+ * variants are read against the loop's first segment.
+ */
+export function findVariantConflicts(spec: Specification): VariantConflictReport[] {
+  const reports: VariantConflictReport[] = [];
+  const visitSegment = (segment: Segment) => {
+    const conflicts = analyzeVariants(segment.variants || [], segment);
+    if (conflicts.length > 0) reports.push({ nodeId: segment.id, label: `Segment ${segment.name}`, conflicts });
+  };
+  const visitLoop = (loop: Loop) => {
+    const conflicts = analyzeVariants(loop.variants || [], loop.segments[0]);
+    if (conflicts.length > 0) reports.push({ nodeId: loop.id, label: `Loop ${loop.name}`, conflicts });
+    loop.segments.forEach(visitSegment);
+    loop.loops.forEach(visitLoop);
+  };
+  spec.loops.forEach(visitLoop);
+  return reports;
+}
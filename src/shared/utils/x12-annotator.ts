@@ -0,0 +1,150 @@
+/**
+ * X12 Interchange Annotator
+ * Pairs every segment and element of an example with its specification node and validation issues
+ */
+
+import { Specification, Segment, Element } from '../models/edi-types';
+import { parseX12, splitComponents, X12Delimiters, X12Segment } from './x12-parser';
+import { validateInterchange, ValidationIssue } from './x12-validator';
+
+export interface AnnotatedValue {
+  position: number; // One-based element position, or component position within a composite
+  value: string;
+  spec: Element | null; // null when the specification does not define this position
+  components: AnnotatedValue[]; // Filled for composite elements only
+  issues: ValidationIssue[];
+}
+
+export interface AnnotatedSegment {
+  segment: X12Segment;
+  spec: Segment | null;
+  loopPath: string[];
+  control: boolean; // ISA/GS/GE/IEA, and ST/SE when the specification does not define them
+  elements: AnnotatedValue[];
+  issues: ValidationIssue[]; // Every issue reported against the segment, including element issues
+}
+
+export interface AnnotatedInterchange {
+  delimiters: X12Delimiters;
+  segments: AnnotatedSegment[];
+}
+
+const CONTROL_SEGMENTS = ['ISA', 'GS', 'GE', 'IEA', 'ST', 'SE'];
+
+function annotateComponents(
+  value: string,
+  composite: Element,
+  issues: ValidationIssue[],
+  delimiters: X12Delimiters
+): AnnotatedValue[] {
+  return splitComponents(value, delimiters).map((componentValue, i) => {
+    const position = i + 1;
+    return {
+      position,
+      value: componentValue,
+      spec: (composite.components || []).find(c => c.position === position) ?? null,
+      components: [],
+      issues: issues.filter(issue => issue.componentPosition === position),
+    };
+  });
+}
+
+function annotateElements(
+  segment: X12Segment,
+  spec: Segment | null,
+  issues: ValidationIssue[],
+  delimiters: X12Delimiters
+): AnnotatedValue[] {
+  return segment.elements.map((value, i) => {
+    const position = i + 1;
+    const element = spec?.elements.find(e => e.position === position) ?? null;
+    const elementIssues = issues.filter(issue => issue.elementPosition === position);
+    const isComposite = !!element?.components && element.components.length > 0;
+    return {
+      position,
+      value,
+      spec: element,
+      components: isComposite && value ? annotateComponents(value, element!, elementIssues, delimiters) : [],
+      issues: elementIssues,
+    };
+  });
+}
+
+/**
+ * Annotates raw ISA...IEA content against a specification. Segments keep their
+ * order in the content; segments the specification does not expect have no spec.
+ */
+export function annotateInterchange(content: string, spec: Specification): AnnotatedInterchange {
+  const interchange = parseX12(content, spec);
+  const { issues } = validateInterchange(content, spec);
+  const mapped = new Map(interchange.mapped.map(m => [m.segment.index, m]));
+
+  const segments = interchange.segments.map(segment => {
+    const match = mapped.get(segment.index);
+    const segmentIssues = issues.filter(issue => issue.segmentIndex === segment.index);
+    const segmentSpec = match?.spec ?? null;
+    return {
+      segment,
+      spec: segmentSpec,
+      loopPath: match?.loopPath ?? [],
+      control: !match && CONTROL_SEGMENTS.includes(segment.id),
+      elements: annotateElements(segment, segmentSpec, segmentIssues, interchange.delimiters),
+      issues: segmentIssues,
+    };
+  });
+
+  return { delimiters: interchange.delimiters, segments };
+}
+
+const CONTROL_SEGMENT_NAMES: Record<string, string> = {
+  ISA: 'Interchange Control Header',
+  GS: 'Functional Group Header',
+  ST: 'Transaction Set Header',
+  SE: 'Transaction Set Trailer',
+  GE: 'Functional Group Trailer',
+  IEA: 'Interchange Control Trailer',
+};
+
+// Elements listed in a segment explanation, coded values first
+const MAX_EXPLAINED_ELEMENTS = 4;
+
+function explainValue(segmentId: string, element: AnnotatedValue, composite?: AnnotatedValue): string | null {
+  if (!element.value || !element.spec) return null;
+  const position = String(composite?.position ?? element.position).padStart(2, '0');
+  const ref = composite ? `${segmentId}${position}-${element.position}` : `${segmentId}${position}`;
+  const code = (element.spec.codeValues || []).find(cv => cv.code === element.value);
+  return code ? `${ref}=${code.code} ${code.description}` : `${ref}=${element.value}`;
+}
+
+/**
+ * A one-line explanation of an example segment: its name followed by its key
+ * element values, e.g. "N1 Party Identification: N101=ST Ship To, N102=Acme".
+ */
+export function explainSegment(annotated: AnnotatedSegment): string {
+  const { segment, spec } = annotated;
+  if (!spec) {
+    return annotated.control
+      ? `${segment.id} ${CONTROL_SEGMENT_NAMES[segment.id]}`
+      : `${segment.id} is not defined in this specification`;
+  }
+
+  const values = annotated.elements
+    .flatMap(element =>
+      element.components.length > 0
+        ? element.components.map(c => ({ element: c, composite: element as AnnotatedValue | undefined }))
+        : [{ element, composite: undefined }]
+    )
+    .map((value, order) => ({
+      order,
+      coded: !!value.element.spec?.codeValues?.some(cv => cv.code === value.element.value),
+      text: explainValue(segment.id, value.element, value.composite),
+    }))
+    .filter(value => value.text);
+  const explained = [...values.filter(v => v.coded), ...values.filter(v => !v.coded)]
+    .slice(0, MAX_EXPLAINED_ELEMENTS)
+    .sort((a, b) => a.order - b.order)
+    .map(v => v.text);
+
+  const name = spec.description && spec.description !== spec.name ? `${spec.name} ${spec.description}` : spec.name;
+  return explained.length > 0 ? `${name}: ${explained.join(', ')}` : name;
+}
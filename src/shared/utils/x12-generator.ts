@@ -0,0 +1,340 @@
+/**
+ * Sample X12 Generator
+ * Builds an ISA...IEA interchange that conforms to a Specification
+ */
+
+import { Specification, Loop, Segment, Element, Envelope } from '../models/edi-types';
+import { createDefaultEnvelope, usesRepetitionSeparator } from './envelope';
+import { evaluateSyntaxRule } from './syntax-rules';
+import { DEFAULT_DELIMITERS } from './x12-parser';
+
+// 'mandatory' emits only what the specification requires; 'all' emits every
+// segment, loop and element once
+export type SampleScope = 'mandatory' | 'all';
+
+export interface SampleOptions {
+  scope: SampleScope;
+  date?: Date; // Used for ISA09/ISA10, GS04/GS05 and DT/TM elements; defaults to now
+  controlNumber?: number; // ISA13, GS06 and ST02; defaults to 1
+}
+
+interface GeneratorContext {
+  scope: SampleScope;
+  envelope: Envelope;
+  date: Date;
+  controlNumber: number;
+  transactionSet: string;
+  segments: string[]; // Transaction set segments, ST through SE
+  trailerIndex: number; // Position of SE within segments, -1 until it is reached
+}
+
+function minimumUse(item: { usage: string; minUse: number }): number {
+  return Math.max(item.minUse, item.usage === 'M' ? 1 : 0);
+}
+
+// How many times a segment or loop is emitted, 0 when it is left out
+function occurrences(ctx: GeneratorContext, item: { usage: string; minUse: number; maxUse: number }): number {
+  const required = minimumUse(item);
+  if (required === 0 && ctx.scope === 'mandatory') return 0;
+  return Math.min(Math.max(required, 1), Math.max(item.maxUse, 1));
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+function pad2(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function formatDate(date: Date, length: number): string {
+  const full = `${date.getFullYear()}${pad2(date.getMonth() + 1)}${pad2(date.getDate())}`;
+  return length >= 8 ? full : full.slice(2);
+}
+
+function formatTime(date: Date, length: number): string {
+  return `${pad2(date.getHours())}${pad2(date.getMinutes())}`.padEnd(Math.max(length, 4), '0');
+}
+
+function isNumericType(dataType: string): boolean {
+  return /^N\d?$/.test(dataType) || dataType === 'R';
+}
+
+function fitsLength(value: string, element: Element): boolean {
+  const length = isNumericType(element.dataType) ? value.replace(/[-.]/g, '').length : value.length;
+  return (!element.minLength || length >= element.minLength) && (!element.maxLength || length <= element.maxLength);
+}
+
+/**
+ * A value for an element that satisfies its data type and length: the first
+ * included code when the element has a code list, otherwise a placeholder of
+ * the element's type.
+ */
+function generateValue(ctx: GeneratorContext, element: Element): string {
+  const code = (element.codeValues || []).find(cv => cv.included);
+  if (code) return code.code;
+
+  const minLength = Math.max(element.minLength, 1);
+  if (isNumericType(element.dataType)) return '1'.padStart(minLength, '0');
+  if (element.dataType === 'DT') return formatDate(ctx.date, Math.max(element.minLength, element.maxLength === 6 ? 6 : 8));
+  if (element.dataType === 'TM') return formatTime(ctx.date, element.minLength);
+
+  const text = 'SAMPLE'.padEnd(minLength, 'X');
+  return element.maxLength ? text.slice(0, element.maxLength) : text;
+}
+
+/**
+ * Picks an element value, preferring the value from the segment example, then
+ * the element's inline example, as long as it still fits the element.
+ */
+function elementValue(ctx: GeneratorContext, element: Element, exampleValue: string | undefined): string {
+  const candidates = [exampleValue, element.example?.value];
+  for (const candidate of candidates) {
+    if (!candidate || !fitsLength(candidate, element)) continue;
+    const codes = element.codeValues || [];
+    if (codes.length > 0 && !codes.some(cv => cv.included && cv.code === candidate)) continue;
+    return candidate;
+  }
+  return generateValue(ctx, element);
+}
+
+function compositeValue(ctx: GeneratorContext, composite: Element, exampleValue: string | undefined): string {
+  const examples = exampleValue ? exampleValue.split(DEFAULT_DELIMITERS.component) : [];
+  const values: string[] = [];
+  for (const component of composite.components!) {
+    if (component.usage !== 'M' && ctx.scope === 'mandatory') continue;
+    values[component.position - 1] = elementValue(ctx, component, examples[component.position - 1]);
+  }
+  return trimTrailing(Array.from(values, v => v ?? '')).join(ctx.envelope.componentSeparator);
+}
+
+function trimTrailing(values: string[]): string[] {
+  let end = values.length;
+  while (end > 0 && !values[end - 1]) end--;
+  return values.slice(0, end);
+}
+
+// ============================================================================
+// Segments
+// ============================================================================
+
+/**
+ * Element positions to emit: mandatory elements (or every element in 'all'
+ * scope), adjusted until the segment's syntax notes are satisfied.
+ */
+function includedPositions(ctx: GeneratorContext, segment: Segment): Set<number> {
+  const included = new Set(
+    segment.elements.filter(e => e.usage === 'M' || ctx.scope === 'all').map(e => e.position)
+  );
+  const rules = segment.syntaxRules || [];
+
+  for (let pass = 0; pass < rules.length + 1; pass++) {
+    let changed = false;
+    for (const rule of rules) {
+      if (evaluateSyntaxRule(rule, position => included.has(position))) continue;
+      const [first, ...rest] = rule.positions;
+      switch (rule.type) {
+        case 'P':
+        case 'C':
+          (rule.type === 'P' ? rule.positions : rest).forEach(p => included.add(p));
+          break;
+        case 'R':
+          included.add(first);
+          break;
+        case 'L':
+          included.add(rest[0]);
+          break;
+        case 'E':
+          rest.forEach(p => included.delete(p));
+          if (!included.has(first)) included.add(first);
+          break;
+      }
+      changed = true;
+    }
+    if (!changed) break;
+  }
+
+  return included;
+}
+
+function buildSegment(ctx: GeneratorContext, segment: Segment, overrides: Record<number, string> = {}): string {
+  const exampleValues = segment.example?.value.replace(/[~\s]+$/, '').split(DEFAULT_DELIMITERS.element) ?? [];
+  const examples = exampleValues[0] === segment.name ? exampleValues.slice(1) : [];
+  const included = includedPositions(ctx, segment);
+  const values: string[] = [];
+
+  for (const element of segment.elements) {
+    if (!included.has(element.position)) continue;
+    const example = examples[element.position - 1];
+    values[element.position - 1] =
+      element.components && element.components.length > 0
+        ? compositeValue(ctx, element, example)
+        : elementValue(ctx, element, example);
+  }
+
+  for (const [position, value] of Object.entries(overrides)) {
+    values[Number(position) - 1] = value;
+  }
+
+  return [segment.name, ...trimTrailing(Array.from(values, v => v ?? ''))].join(ctx.envelope.elementSeparator);
+}
+
+const TRAILER: Segment = {
+  id: 'SE',
+  name: 'SE',
+  description: 'Transaction Set Trailer',
+  usage: 'M',
+  minUse: 1,
+  maxUse: 1,
+  elements: [],
+};
+
+function transactionControlNumber(ctx: GeneratorContext): string {
+  return String(ctx.controlNumber).padStart(4, '0');
+}
+
+function emitSegment(ctx: GeneratorContext, segment: Segment): void {
+  if (segment.name === 'ST') {
+    ctx.segments.unshift(buildSegment(ctx, segment, { 1: ctx.transactionSet, 2: transactionControlNumber(ctx) }));
+    return;
+  }
+  // SE01 counts every segment, so the trailer is built once the walk is done
+  if (segment.name === 'SE') {
+    ctx.trailerIndex = ctx.segments.length;
+    ctx.segments.push('');
+    return;
+  }
+  ctx.segments.push(buildSegment(ctx, segment));
+}
+
+/**
+ * Summary segments that close a transaction set. Importers list them with the
+ * header segments of a single transaction set loop (ST, BEG, CTT, SE), so they
+ * are written after that loop's nested loops.
+ */
+const SUMMARY_SEGMENTS = ['CTT', 'SE'];
+
+function emitSegments(ctx: GeneratorContext, loop: Loop, segments: Segment[]): void {
+  for (const segment of segments) {
+    // A loop instance is recognized by its first segment, so it is always sent
+    const count = segment === loop.segments[0] ? Math.max(occurrences(ctx, segment), 1) : occurrences(ctx, segment);
+    for (let i = 0; i < count; i++) {
+      emitSegment(ctx, segment);
+    }
+  }
+}
+
+function emitLoop(ctx: GeneratorContext, loop: Loop): void {
+  const trailing = loop.loops.length > 0
+    ? loop.segments.filter((segment, index) => index > 0 && SUMMARY_SEGMENTS.includes(segment.name))
+    : [];
+  const leading = loop.segments.filter(segment => !trailing.includes(segment));
+
+  for (let instance = 0; instance < occurrences(ctx, loop); instance++) {
+    emitSegments(ctx, loop, leading);
+    for (const child of loop.loops) {
+      emitLoop(ctx, child);
+    }
+    emitSegments(ctx, loop, trailing);
+  }
+}
+
+// ============================================================================
+// Interchange
+// ============================================================================
+
+function isaValue(value: string, length: number, fallback = ''): string {
+  return (value || fallback).slice(0, length).padEnd(length, ' ');
+}
+
+function buildEnvelopeHeaders(ctx: GeneratorContext): string[] {
+  const { envelope, date } = ctx;
+  const senderId = envelope.senderId.trim() || 'SENDERID';
+  const receiverId = envelope.receiverId.trim() || 'RECEIVERID';
+
+  const isa = [
+    'ISA',
+    isaValue(envelope.authorizationQualifier, 2, '00'),
+    isaValue(envelope.authorizationInformation, 10),
+    isaValue(envelope.securityQualifier, 2, '00'),
+    isaValue(envelope.securityInformation, 10),
+    isaValue(envelope.senderQualifier, 2, 'ZZ'),
+    isaValue(senderId, 15),
+    isaValue(envelope.receiverQualifier, 2, 'ZZ'),
+    isaValue(receiverId, 15),
+    formatDate(date, 6),
+    formatTime(date, 4),
+    usesRepetitionSeparator(envelope) ? envelope.repetitionSeparator : 'U',
+    isaValue(envelope.interchangeVersion, 5),
+    String(ctx.controlNumber).padStart(9, '0'),
+    isaValue(envelope.acknowledgmentRequested, 1, '0'),
+    isaValue(envelope.usageIndicator, 1, 'T'),
+    envelope.componentSeparator,
+  ];
+
+  const gs = [
+    'GS',
+    envelope.functionalIdentifierCode,
+    envelope.applicationSenderCode || senderId,
+    envelope.applicationReceiverCode || receiverId,
+    formatDate(date, 8),
+    formatTime(date, 4),
+    String(ctx.controlNumber),
+    envelope.responsibleAgencyCode,
+    envelope.versionCode,
+  ];
+
+  return [isa.join(envelope.elementSeparator), gs.join(envelope.elementSeparator)];
+}
+
+/**
+ * Generates a sample interchange for a specification: one functional group
+ * holding one transaction set. Envelope values and delimiters come from the
+ * specification's envelope requirements when present. Segments are written
+ * one per line.
+ */
+export function generateSampleX12(spec: Specification, options: SampleOptions): string {
+  const envelope = spec.envelope || createDefaultEnvelope(spec.metadata);
+  const ctx: GeneratorContext = {
+    scope: options.scope,
+    envelope,
+    date: options.date || new Date(),
+    controlNumber: options.controlNumber ?? 1,
+    transactionSet: spec.metadata.transactionSet,
+    segments: [],
+    trailerIndex: -1,
+  };
+
+  for (const loop of spec.loops) {
+    emitLoop(ctx, loop);
+  }
+
+  const controlNumber = transactionControlNumber(ctx);
+  const separator = envelope.elementSeparator;
+  if (!ctx.segments[0]?.startsWith(`ST${separator}`)) {
+    ctx.segments.unshift(['ST', ctx.transactionSet, controlNumber].join(separator));
+    if (ctx.trailerIndex !== -1) ctx.trailerIndex++;
+  }
+  if (ctx.trailerIndex === -1) {
+    ctx.trailerIndex = ctx.segments.length;
+    ctx.segments.push('');
+  }
+  const trailer = findSegment(spec.loops, 'SE') || TRAILER;
+  ctx.segments[ctx.trailerIndex] = buildSegment(ctx, trailer, { 1: String(ctx.segments.length), 2: controlNumber });
+
+  const lines = [
+    ...buildEnvelopeHeaders(ctx),
+    ...ctx.segments,
+    ['GE', '1', String(ctx.controlNumber)].join(separator),
+    ['IEA', '1', String(ctx.controlNumber).padStart(9, '0')].join(separator),
+  ];
+  return lines.map(line => `${line}${envelope.segmentTerminator}`).join('\n');
+}
+
+function findSegment(loops: Loop[], name: string): Segment | undefined {
+  for (const loop of loops) {
+    const segment = loop.segments.find(s => s.name === name) || findSegment(loop.loops, name);
+    if (segment) return segment;
+  }
+  return undefined;
+}
@@ -0,0 +1,283 @@
+/**
+ * X12 Interchange Parser
+ * Tokenizes raw ISA...IEA content and maps segments onto a Specification's loop tree
+ */
+
+import { Specification, Loop, Segment } from '../models/edi-types';
+
+export interface X12Delimiters {
+  element: string;
+  component: string;
+  repetition?: string; // ISA11 from version 00402 onward
+  segment: string;
+}
+
+export interface X12Segment {
+  index: number; // Zero-based position within the interchange
+  id: string;
+  elements: string[]; // elements[0] is XX01
+  raw: string;
+  offset: number; // Character offset of the segment within the source content
+}
+
+export interface X12SegmentNode {
+  kind: 'segment';
+  segment: X12Segment;
+  spec: Segment | null; // null when the segment is not expected at this position
+}
+
+export interface X12LoopNode {
+  kind: 'loop';
+  loop: Loop;
+  path: string[]; // Loop names from the transaction set root, e.g. ['HEADER', 'N1']
+  children: X12Node[];
+}
+
+export type X12Node = X12SegmentNode | X12LoopNode;
+
+export interface X12Transaction {
+  header?: X12Segment; // ST, when not defined by the specification
+  trailer?: X12Segment; // SE, when not defined by the specification
+  children: X12Node[];
+}
+
+export interface MappedSegment {
+  segment: X12Segment;
+  spec: Segment | null;
+  loop: Loop | null;
+  loopPath: string[];
+}
+
+export interface X12Interchange {
+  delimiters: X12Delimiters;
+  segments: X12Segment[];
+  envelope: X12Segment[]; // ISA, GS, GE and IEA segments
+  transactions: X12Transaction[];
+  mapped: MappedSegment[]; // Transaction set segments in document order
+}
+
+export const DEFAULT_DELIMITERS: X12Delimiters = {
+  element: '*',
+  component: ':',
+  repetition: '^',
+  segment: '~',
+};
+
+const ENVELOPE_SEGMENTS = ['ISA', 'GS', 'GE', 'IEA'];
+
+export function readDelimiters(content: string): X12Delimiters {
+  const start = content.indexOf('ISA');
+  if (start === -1 || content.length < start + 4) return DEFAULT_DELIMITERS;
+
+  // ISA has exactly 16 elements; ISA16 is one character and the terminator follows it
+  const element = content[start + 3];
+  const separators: number[] = [];
+  for (let i = start + 3; i < content.length && separators.length < 16; i++) {
+    if (content[i] === element) separators.push(i);
+  }
+  if (separators.length < 16) return DEFAULT_DELIMITERS;
+
+  const component = content[separators[15] + 1];
+  const segment = content[separators[15] + 2];
+  if (!component || !segment) return DEFAULT_DELIMITERS;
+
+  const isa11 = content.slice(separators[10] + 1, separators[11]);
+  const repetition = isa11.length === 1 && !/[A-Za-z0-9 ]/.test(isa11) ? isa11 : undefined;
+
+  return { element, component, repetition, segment };
+}
+
+export function tokenizeX12(content: string, delimiters: X12Delimiters = readDelimiters(content)): X12Segment[] {
+  const segments: X12Segment[] = [];
+  let start = 0;
+
+  while (start < content.length) {
+    let end = content.indexOf(delimiters.segment, start);
+    if (end === -1) end = content.length;
+
+    const chunk = content.slice(start, end);
+    const raw = chunk.trim();
+    if (raw.length > 0) {
+      const [id, ...elements] = raw.split(delimiters.element);
+      segments.push({
+        index: segments.length,
+        id,
+        elements,
+        raw,
+        offset: start + chunk.indexOf(raw),
+      });
+    }
+    start = end + delimiters.segment.length;
+  }
+
+  return segments;
+}
+
+export function splitRepetitions(value: string, delimiters: X12Delimiters): string[] {
+  return delimiters.repetition ? value.split(delimiters.repetition) : [value];
+}
+
+export function splitComponents(value: string, delimiters: X12Delimiters): string[] {
+  return value.split(delimiters.component);
+}
+
+// ============================================================================
+// Loop tree mapping
+// ============================================================================
+
+type LoopChild = { kind: 'segment'; segment: Segment } | { kind: 'loop'; loop: Loop };
+
+/**
+ * Loop has no interleaved child order: its segments are listed, then its nested
+ * loops. Segments may still follow the nested loops in the data (CTT and SE
+ * after the detail loops of a flat transaction set loop), so segments and loops
+ * keep separate cursors that each only move forward.
+ */
+interface LoopFrame {
+  loop: Loop | null; // null for the transaction set root
+  path: string[];
+  children: LoopChild[];
+  nodes: X12Node[];
+  segmentPosition: number; // Index of the last segment child entered
+  loopPosition: number; // Index of the last loop child entered
+}
+
+/**
+ * The segment that opens an instance of the loop: its first segment, or the
+ * trigger of its first nested loop when the loop only groups other loops.
+ */
+export function triggerSegmentId(loop: Loop): string | undefined {
+  if (loop.segments.length > 0) return loop.segments[0].name;
+  return loop.loops.length > 0 ? triggerSegmentId(loop.loops[0]) : undefined;
+}
+
+function createFrame(loop: Loop | null, path: string[], children: LoopChild[], nodes: X12Node[]): LoopFrame {
+  return { loop, path, children, nodes, segmentPosition: 0, loopPosition: 0 };
+}
+
+function loopChildren(loop: Loop): LoopChild[] {
+  return [
+    ...loop.segments.map(segment => ({ kind: 'segment' as const, segment })),
+    ...loop.loops.map(child => ({ kind: 'loop' as const, loop: child })),
+  ];
+}
+
+// Segment children are matched before loop children, each from its own cursor
+function findChild(frame: LoopFrame, segmentId: string, segmentFrom: number, loopFrom: number): number {
+  for (let i = segmentFrom; i < frame.children.length; i++) {
+    const child = frame.children[i];
+    if (child.kind === 'segment' && child.segment.name === segmentId) return i;
+  }
+  for (let i = loopFrom; i < frame.children.length; i++) {
+    const child = frame.children[i];
+    if (child.kind === 'loop' && triggerSegmentId(child.loop) === segmentId) return i;
+  }
+  return -1;
+}
+
+interface ParseContext {
+  spec: Specification;
+  stack: LoopFrame[];
+  transaction: X12Transaction | null;
+  transactions: X12Transaction[];
+  mapped: MappedSegment[];
+}
+
+function beginTransaction(ctx: ParseContext): void {
+  const transaction: X12Transaction = { children: [] };
+  const roots = ctx.spec.loops.map(loop => ({ kind: 'loop' as const, loop }));
+  ctx.transaction = transaction;
+  ctx.transactions.push(transaction);
+  ctx.stack = [createFrame(null, [], roots, transaction.children)];
+}
+
+function endTransaction(ctx: ParseContext): void {
+  ctx.transaction = null;
+  ctx.stack = [];
+}
+
+function enterChild(ctx: ParseContext, frame: LoopFrame, index: number, segment: X12Segment): void {
+  const child = frame.children[index];
+  if (child.kind === 'segment') {
+    frame.segmentPosition = index;
+  } else {
+    frame.loopPosition = index;
+  }
+
+  if (child.kind === 'segment') {
+    frame.nodes.push({ kind: 'segment', segment, spec: child.segment });
+    ctx.mapped.push({ segment, spec: child.segment, loop: frame.loop, loopPath: frame.path });
+    return;
+  }
+
+  const node: X12LoopNode = {
+    kind: 'loop',
+    loop: child.loop,
+    path: [...frame.path, child.loop.name],
+    children: [],
+  };
+  frame.nodes.push(node);
+
+  const loopFrame = createFrame(child.loop, node.path, loopChildren(child.loop), node.children);
+  ctx.stack.push(loopFrame);
+  enterChild(ctx, loopFrame, findChild(loopFrame, segment.id, 0, 0), segment);
+}
+
+/**
+ * Places a segment in the deepest open loop that can still accept it, closing
+ * inner loop instances as needed. Returns false when nothing in the open loops
+ * expects the segment.
+ */
+function placeSegment(ctx: ParseContext, segment: X12Segment): boolean {
+  for (let depth = ctx.stack.length - 1; depth >= 0; depth--) {
+    const frame = ctx.stack[depth];
+    // A loop's own trigger segment starts a new instance rather than repeating inside it
+    const ownsTrigger = frame.loop !== null && frame.children[0]?.kind === 'segment';
+    const segmentFrom = ownsTrigger ? Math.max(frame.segmentPosition, 1) : frame.segmentPosition;
+    const index = findChild(frame, segment.id, segmentFrom, frame.loopPosition);
+    if (index === -1) continue;
+
+    ctx.stack.length = depth + 1;
+    enterChild(ctx, frame, index, segment);
+    return true;
+  }
+  return false;
+}
+
+function placeUnexpected(ctx: ParseContext, segment: X12Segment): void {
+  const frame = ctx.stack[ctx.stack.length - 1];
+  frame.nodes.push({ kind: 'segment', segment, spec: null });
+  ctx.mapped.push({ segment, spec: null, loop: frame.loop, loopPath: frame.path });
+}
+
+export function parseX12(content: string, spec: Specification): X12Interchange {
+  const delimiters = readDelimiters(content);
+  const segments = tokenizeX12(content, delimiters);
+  const envelope: X12Segment[] = [];
+  const ctx: ParseContext = { spec, stack: [], transaction: null, transactions: [], mapped: [] };
+
+  for (const segment of segments) {
+    if (ENVELOPE_SEGMENTS.includes(segment.id)) {
+      envelope.push(segment);
+      continue;
+    }
+
+    if (segment.id === 'ST') {
+      beginTransaction(ctx);
+      if (!placeSegment(ctx, segment)) ctx.transaction!.header = segment;
+      continue;
+    }
+
+    if (!ctx.transaction) beginTransaction(ctx);
+
+    if (segment.id === 'SE') {
+      if (!placeSegment(ctx, segment)) ctx.transaction!.trailer = segment;
+      endTransaction(ctx);
+      continue;
+    }
+
+    if (!placeSegment(ctx, segment)) placeUnexpected(ctx, segment);
+  }
+
+  return { delimiters, segments, envelope, transactions: ctx.transactions, mapped: ctx.mapped };
+}
@@ -0,0 +1,349 @@
+/**
+ * X12 Interchange Validator
+ * Checks raw ISA...IEA content against a Specification and reports violations
+ */
+
+import { Specification, Loop, Segment, Element } from '../models/edi-types';
+import { describeSyntaxRule, evaluateSyntaxRule, formatSyntaxRule } from './syntax-rules';
+import { parseX12, splitComponents, splitRepetitions, X12Delimiters, X12Node, X12Segment } from './x12-parser';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationRule =
+  | 'unexpected-segment'
+  | 'missing-segment'
+  | 'missing-loop'
+  | 'segment-max-use'
+  | 'loop-max-use'
+  | 'missing-element'
+  | 'unexpected-element'
+  | 'length'
+  | 'data-type'
+  | 'code-value'
+  | 'syntax-rule';
+
+export interface ValidationIssue {
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+  message: string;
+  segmentIndex: number; // Zero-based index of the segment within the interchange
+  segmentId: string;
+  loopPath: string[]; // Loop names from the transaction set root, e.g. ['HEADER', 'N1']
+  elementPosition?: number;
+  componentPosition?: number; // Position within a composite element, e.g. 2 for SV101-2
+  value?: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+function minimumUse(item: { usage: string; minUse: number }): number {
+  return Math.max(item.minUse, item.usage === 'M' ? 1 : 0);
+}
+
+// ============================================================================
+// Value checks
+// ============================================================================
+
+function isNumericType(dataType: string): boolean {
+  return /^N\d?$/.test(dataType) || dataType === 'R';
+}
+
+function measureLength(value: string, dataType: string): number {
+  // Signs and decimal points do not count toward numeric lengths
+  return isNumericType(dataType) ? value.replace(/[-.]/g, '').length : value.length;
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^(\d{6}|\d{8})$/.test(value)) return false;
+  const month = parseInt(value.slice(-4, -2), 10);
+  const day = parseInt(value.slice(-2), 10);
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+}
+
+function isValidTime(value: string): boolean {
+  if (!/^\d{4}(\d{2}\d{0,2})?$/.test(value)) return false;
+  const hours = parseInt(value.slice(0, 2), 10);
+  const minutes = parseInt(value.slice(2, 4), 10);
+  const seconds = value.length >= 6 ? parseInt(value.slice(4, 6), 10) : 0;
+  return hours < 24 && minutes < 60 && seconds < 60;
+}
+
+function checkDataType(value: string, dataType: string): string | null {
+  if (/^N\d?$/.test(dataType)) {
+    return /^-?\d+$/.test(value) ? null : `'${value}' is not a valid numeric (${dataType}) value`;
+  }
+  switch (dataType) {
+    case 'R':
+      return /^-?(\d+\.?\d*|\.\d+)$/.test(value) ? null : `'${value}' is not a valid decimal value`;
+    case 'DT':
+      return isValidDate(value) ? null : `'${value}' is not a valid date (CCYYMMDD or YYMMDD)`;
+    case 'TM':
+      return isValidTime(value) ? null : `'${value}' is not a valid time (HHMM[SS[dd]])`;
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// Validator
+// ============================================================================
+
+interface ValidationContext {
+  delimiters: X12Delimiters;
+  issues: ValidationIssue[];
+}
+
+function lastSegment(nodes: X12Node[]): X12Segment | undefined {
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i];
+    const segment = node.kind === 'segment' ? node.segment : lastSegment(node.children);
+    if (segment) return segment;
+  }
+  return undefined;
+}
+
+function firstSegment(node: X12Node): X12Segment {
+  return node.kind === 'segment' ? node.segment : firstSegment(node.children[0]);
+}
+
+/**
+ * Validates one loop instance (or the transaction set root) against the
+ * segments and nested loops its specification allows.
+ */
+function validateInstance(
+  ctx: ValidationContext,
+  nodes: X12Node[],
+  segments: Segment[],
+  loops: Loop[],
+  path: string[],
+  fallback?: X12Segment
+): void {
+  const counts = new Map<Segment | Loop, number>();
+
+  for (const node of nodes) {
+    if (node.kind === 'segment') {
+      const { segment, spec } = node;
+      if (!spec) {
+        ctx.issues.push({
+          rule: 'unexpected-segment',
+          severity: 'error',
+          message: `Segment ${segment.id} is not expected at this position`,
+          segmentIndex: segment.index,
+          segmentId: segment.id,
+          loopPath: path,
+        });
+        continue;
+      }
+
+      const count = (counts.get(spec) ?? 0) + 1;
+      counts.set(spec, count);
+      if (count === spec.maxUse + 1) {
+        ctx.issues.push({
+          rule: 'segment-max-use',
+          severity: 'error',
+          message: `Segment ${segment.id} exceeds maximum use of ${spec.maxUse}`,
+          segmentIndex: segment.index,
+          segmentId: segment.id,
+          loopPath: path,
+        });
+      }
+      validateElements(ctx, segment, spec, path);
+      continue;
+    }
+
+    const count = (counts.get(node.loop) ?? 0) + 1;
+    counts.set(node.loop, count);
+    if (count === node.loop.maxUse + 1) {
+      const trigger = firstSegment(node);
+      ctx.issues.push({
+        rule: 'loop-max-use',
+        severity: 'error',
+        message: `Loop ${node.loop.name} exceeds maximum use of ${node.loop.maxUse}`,
+        segmentIndex: trigger.index,
+        segmentId: trigger.id,
+        loopPath: node.path,
+      });
+    }
+    validateInstance(ctx, node.children, node.loop.segments, node.loop.loops, node.path);
+  }
+
+  // Missing items are reported against the last segment seen in this instance
+  const last = lastSegment(nodes) ?? fallback;
+  const segmentIndex = last?.index ?? -1;
+  const segmentId = last?.id ?? '';
+
+  for (const segment of segments) {
+    const count = counts.get(segment) ?? 0;
+    if (count < minimumUse(segment)) {
+      ctx.issues.push({
+        rule: 'missing-segment',
+        severity: 'error',
+        message: count === 0
+          ? `Mandatory segment ${segment.name} is missing`
+          : `Segment ${segment.name} occurs ${count} times, minimum ${minimumUse(segment)}`,
+        segmentIndex,
+        segmentId,
+        loopPath: path,
+      });
+    }
+  }
+
+  for (const loop of loops) {
+    const count = counts.get(loop) ?? 0;
+    if (count < minimumUse(loop)) {
+      ctx.issues.push({
+        rule: 'missing-loop',
+        severity: 'error',
+        message: count === 0
+          ? `Mandatory loop ${loop.name} is missing`
+          : `Loop ${loop.name} occurs ${count} times, minimum ${minimumUse(loop)}`,
+        segmentIndex,
+        segmentId,
+        loopPath: [...path, loop.name],
+      });
+    }
+  }
+}
+
+function validateElements(ctx: ValidationContext, segment: X12Segment, specSegment: Segment, loopPath: string[]): void {
+  const base = { segmentIndex: segment.index, segmentId: segment.id, loopPath };
+
+  for (const element of specSegment.elements) {
+    const value = segment.elements[element.position - 1] ?? '';
+    if (!value) {
+      if (element.usage === 'M') {
+        ctx.issues.push({
+          ...base,
+          rule: 'missing-element',
+          severity: 'error',
+          message: `Mandatory element ${elementRef(segment.id, element)} (${element.name}) is missing`,
+          elementPosition: element.position,
+        });
+      }
+      continue;
+    }
+
+    for (const repetition of splitRepetitions(value, ctx.delimiters)) {
+      if (element.components && element.components.length > 0) {
+        validateComposite(ctx, repetition, element, base);
+      } else {
+        validateValue(ctx, repetition, element, base);
+      }
+    }
+  }
+
+  for (const rule of specSegment.syntaxRules || []) {
+    if (!evaluateSyntaxRule(rule, position => !!segment.elements[position - 1])) {
+      ctx.issues.push({
+        ...base,
+        rule: 'syntax-rule',
+        severity: 'error',
+        message: `Syntax note ${formatSyntaxRule(rule)} violated: ${describeSyntaxRule(rule, segment.id)}`,
+        elementPosition: rule.positions[0],
+      });
+    }
+  }
+
+  if (specSegment.elements.length === 0) return;
+  const positions = new Set(specSegment.elements.map(e => e.position));
+  segment.elements.forEach((value, i) => {
+    if (value && !positions.has(i + 1)) {
+      ctx.issues.push({
+        ...base,
+        rule: 'unexpected-element',
+        severity: 'warning',
+        message: `Element ${segment.id}${String(i + 1).padStart(2, '0')} is not defined in the specification`,
+        elementPosition: i + 1,
+        value,
+      });
+    }
+  });
+}
+
+type IssueBase = Pick<ValidationIssue, 'segmentIndex' | 'segmentId' | 'loopPath'>;
+
+function validateComposite(ctx: ValidationContext, value: string, composite: Element, base: IssueBase): void {
+  const values = splitComponents(value, ctx.delimiters);
+
+  for (const component of composite.components!) {
+    const componentValue = values[component.position - 1] ?? '';
+    if (!componentValue) {
+      if (component.usage === 'M') {
+        ctx.issues.push({
+          ...base,
+          rule: 'missing-element',
+          severity: 'error',
+          message: `Mandatory component ${elementRef(base.segmentId, composite, component)} (${component.name}) is missing`,
+          elementPosition: composite.position,
+          componentPosition: component.position,
+        });
+      }
+      continue;
+    }
+    validateValue(ctx, componentValue, component, base, composite);
+  }
+}
+
+function validateValue(
+  ctx: ValidationContext,
+  value: string,
+  element: Element,
+  base: IssueBase,
+  composite?: Element
+): void {
+  const ref = composite ? elementRef(base.segmentId, composite, element) : elementRef(base.segmentId, element);
+  const context = composite
+    ? { ...base, elementPosition: composite.position, componentPosition: element.position, value }
+    : { ...base, elementPosition: element.position, value };
+
+  const length = measureLength(value, element.dataType);
+  if ((element.minLength && length < element.minLength) || (element.maxLength && length > element.maxLength)) {
+    ctx.issues.push({
+      ...context,
+      rule: 'length',
+      severity: 'error',
+      message: `Element ${ref} length ${length} is outside ${element.minLength}-${element.maxLength}`,
+    });
+  }
+
+  const typeError = checkDataType(value, element.dataType);
+  if (typeError) {
+    ctx.issues.push({ ...context, rule: 'data-type', severity: 'error', message: `Element ${ref}: ${typeError}` });
+  }
+
+  if (element.codeValues && element.codeValues.length > 0) {
+    const code = element.codeValues.find(c => c.code === value);
+    if (!code || !code.included) {
+      ctx.issues.push({
+        ...context,
+        rule: 'code-value',
+        severity: 'error',
+        message: code
+          ? `Element ${ref}: code '${value}' is excluded by this specification`
+          : `Element ${ref}: code '${value}' is not in the code list`,
+      });
+    }
+  }
+}
+
+function elementRef(segmentId: string, element: Element, component?: Element): string {
+  const ref = `${segmentId}${String(element.position).padStart(2, '0')}`;
+  return component ? `${ref}-${component.position}` : ref;
+}
+
+export function validateInterchange(content: string, spec: Specification): ValidationResult {
+  const interchange = parseX12(content, spec);
+  const ctx: ValidationContext = { delimiters: interchange.delimiters, issues: [] };
+
+  for (const transaction of interchange.transactions) {
+    validateInstance(ctx, transaction.children, [], spec.loops, [], transaction.trailer ?? transaction.header);
+  }
+
+  return {
+    valid: !ctx.issues.some(issue => issue.severity === 'error'),
+    issues: ctx.issues,
+  };
+}
@@ -0,0 +1,403 @@
+/**
+ * X12 XML Schema Importer
+ * Converts X12 XSD files (BizTalk-style, e.g. X12_00501_850.xsd) to internal format
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Specification, Loop, Segment, Element, CodeValue, UsageType } from '../models/edi-types';
+
+// maxOccurs="unbounded" is stored as a large repeat, shown as ">1"
+const UNBOUNDED_MAX_USE = 99999;
+
+// ============================================================================
+// Minimal XML reader
+// ============================================================================
+
+export interface XmlNode {
+  name: string; // Local name without namespace prefix, e.g. "element" for xs:element
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+function localName(qualifiedName: string): string {
+  const colon = qualifiedName.indexOf(':');
+  return colon >= 0 ? qualifiedName.slice(colon + 1) : qualifiedName;
+}
+
+/**
+ * Parses XML into an element tree. Supports what schema files use: the
+ * declaration, comments, CDATA, attributes and nested elements. Namespaces
+ * are reduced to local names.
+ */
+export function parseXml(content: string): XmlNode {
+  const root: XmlNode = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlNode[] = [root];
+  const tagPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(content)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closingName, openingName, attributeText, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closingName) {
+      if (stack.length === 1 || current.name !== localName(closingName)) {
+        throw new Error(`Invalid XML: unexpected closing tag </${closingName}>`);
+      }
+      stack.pop();
+    } else if (openingName) {
+      const node: XmlNode = { name: localName(openingName), attributes: {}, children: [], text: '' };
+      let attribute: RegExpExecArray | null;
+      attributePattern.lastIndex = 0;
+      while ((attribute = attributePattern.exec(attributeText)) !== null) {
+        node.attributes[localName(attribute[1])] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+      current.children.push(node);
+      if (!selfClosing) stack.push(node);
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Invalid XML: unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  const documentElement = root.children[0];
+  if (!documentElement) {
+    throw new Error('Invalid XML: no root element');
+  }
+  return documentElement;
+}
+
+function childrenNamed(node: XmlNode, name: string): XmlNode[] {
+  return node.children.filter(child => child.name === name);
+}
+
+function firstChild(node: XmlNode, name: string): XmlNode | undefined {
+  return node.children.find(child => child.name === name);
+}
+
+// ============================================================================
+// Schema model
+// ============================================================================
+
+interface SimpleTypeInfo {
+  dataType?: string;
+  minLength?: number;
+  maxLength?: number;
+  codes?: CodeValue[];
+}
+
+interface SchemaContext {
+  simpleTypes: Record<string, XmlNode>;
+  complexTypes: Record<string, XmlNode>;
+}
+
+export function isXsdFormat(content: string): boolean {
+  return /^\s*(<\?xml[\s\S]*?\?>\s*)?(<!--[\s\S]*?-->\s*)*<([\w-]+:)?schema[\s>]/.test(content);
+}
+
+/**
+ * Reads a human-readable name from BizTalk annotations (recordInfo/fieldInfo
+ * notes) or a plain xs:documentation.
+ */
+function annotationText(node: XmlNode): string | undefined {
+  const annotation = firstChild(node, 'annotation');
+  if (!annotation) return undefined;
+
+  for (const appinfo of childrenNamed(annotation, 'appinfo')) {
+    for (const info of appinfo.children) {
+      if (info.attributes.notes) return info.attributes.notes.trim();
+    }
+  }
+  const documentation = firstChild(annotation, 'documentation');
+  return documentation?.text.trim() || undefined;
+}
+
+function dataTypeFromName(typeName: string | undefined): string | undefined {
+  // X12_ID_353, X12_AN, X12_N2_380 -> ID, AN, N2
+  const match = typeName?.match(/^(?:[\w-]+:)?X12_([A-Z]+\d?)(?:_|$)/);
+  return match ? match[1] : undefined;
+}
+
+function fieldDataType(node: XmlNode): string | undefined {
+  const annotation = firstChild(node, 'annotation');
+  for (const appinfo of annotation ? childrenNamed(annotation, 'appinfo') : []) {
+    for (const info of appinfo.children) {
+      const dataType = dataTypeFromName(info.attributes.data_type);
+      if (dataType) return dataType;
+    }
+  }
+  return undefined;
+}
+
+function readSimpleType(ctx: SchemaContext, simpleType: XmlNode, seen = new Set<string>()): SimpleTypeInfo {
+  const restriction = firstChild(simpleType, 'restriction');
+  if (!restriction) return {};
+
+  // Facets on a derived type override its base, e.g. X12_AN restricted to 1-22
+  const base = restriction.attributes.base ? localName(restriction.attributes.base) : undefined;
+  const info: SimpleTypeInfo =
+    base && ctx.simpleTypes[base] && !seen.has(base)
+      ? { ...readSimpleType(ctx, ctx.simpleTypes[base], new Set([...seen, base])) }
+      : {};
+  info.dataType = dataTypeFromName(simpleType.attributes.name) ?? dataTypeFromName(base) ?? info.dataType;
+
+  const minLength = firstChild(restriction, 'minLength');
+  const maxLength = firstChild(restriction, 'maxLength');
+  if (minLength) info.minLength = parseInt(minLength.attributes.value, 10) || 0;
+  if (maxLength) info.maxLength = parseInt(maxLength.attributes.value, 10) || 0;
+
+  const enumerations = childrenNamed(restriction, 'enumeration');
+  if (enumerations.length > 0) {
+    info.codes = enumerations.map(enumeration => ({
+      code: enumeration.attributes.value,
+      description: annotationText(enumeration) || enumeration.attributes.value,
+      included: true,
+    }));
+  }
+
+  return info;
+}
+
+function resolveSimpleType(ctx: SchemaContext, node: XmlNode): SimpleTypeInfo {
+  const inline = firstChild(node, 'simpleType');
+  if (inline) return readSimpleType(ctx, inline);
+
+  const typeName = node.attributes.type ? localName(node.attributes.type) : undefined;
+  if (typeName && ctx.simpleTypes[typeName]) return readSimpleType(ctx, ctx.simpleTypes[typeName]);
+  return { dataType: dataTypeFromName(typeName) };
+}
+
+/**
+ * Returns the child xs:element nodes of an element's complex type, whether
+ * declared inline or as a named global xs:complexType.
+ */
+function sequenceElements(ctx: SchemaContext, node: XmlNode): XmlNode[] | null {
+  let complexType = firstChild(node, 'complexType');
+  if (!complexType && node.attributes.type) {
+    complexType = ctx.complexTypes[localName(node.attributes.type)];
+  }
+  if (!complexType) return null;
+
+  const collect = (container: XmlNode): XmlNode[] =>
+    container.children.flatMap(child => {
+      if (child.name === 'element') return [child];
+      if (child.name === 'sequence' || child.name === 'choice' || child.name === 'all') return collect(child);
+      return [];
+    });
+  return collect(complexType);
+}
+
+function occurs(node: XmlNode): { usage: UsageType; minUse: number; maxUse: number } {
+  const minUse = node.attributes.minOccurs !== undefined ? parseInt(node.attributes.minOccurs, 10) || 0 : 1;
+  const maxOccurs = node.attributes.maxOccurs;
+  const maxUse =
+    maxOccurs === 'unbounded' ? UNBOUNDED_MAX_USE : maxOccurs !== undefined ? parseInt(maxOccurs, 10) || 1 : 1;
+  return { usage: minUse > 0 ? 'M' : 'O', minUse, maxUse };
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Reads the position from names like BEG03 or C00302. Composites are often
+ * named by their own id (C003) instead, so they fall back to sequence order.
+ */
+function positionFromName(name: string, parentName: string, fallback: number): number {
+  const match = name.match(new RegExp(`^${escapeRegExp(parentName)}(\\d{2})$`));
+  return match ? parseInt(match[1], 10) : fallback;
+}
+
+function isSegmentNode(ctx: SchemaContext, node: XmlNode): boolean {
+  const name = node.attributes.name || '';
+  const children = sequenceElements(ctx, node) || [];
+  return children.some(child => positionFromName(child.attributes.name || '', name, 0) > 0);
+}
+
+function convertElement(ctx: SchemaContext, node: XmlNode, parentName: string, fallbackPosition: number): Element {
+  const name = node.attributes.name || '';
+  const { usage } = occurs(node);
+  const children = sequenceElements(ctx, node);
+
+  if (children) {
+    return {
+      id: uuidv4(),
+      position: positionFromName(name, parentName, fallbackPosition),
+      name: annotationText(node) || name,
+      dataType: 'AN',
+      minLength: 0,
+      maxLength: 0,
+      usage,
+      baseUsage: usage,
+      components: children.map((child, index) => convertElement(ctx, child, name, index + 1)),
+    };
+  }
+
+  const type = resolveSimpleType(ctx, node);
+  return {
+    id: uuidv4(),
+    position: positionFromName(name, parentName, fallbackPosition),
+    name: annotationText(node) || name,
+    dataType: fieldDataType(node) || type.dataType || 'AN',
+    minLength: type.minLength || 0,
+    maxLength: type.maxLength || 0,
+    usage,
+    baseUsage: usage,
+    codeValues: type.codes,
+    baseCodes: type.codes ? [...type.codes] : undefined,
+  };
+}
+
+function convertSegment(ctx: SchemaContext, node: XmlNode): Segment {
+  const name = node.attributes.name || '';
+  const { usage, minUse, maxUse } = occurs(node);
+
+  return {
+    id: uuidv4(),
+    name,
+    description: annotationText(node) || name,
+    usage,
+    baseUsage: usage,
+    minUse,
+    maxUse,
+    baseMinUse: minUse,
+    baseMaxUse: maxUse,
+    elements: (sequenceElements(ctx, node) || []).map((child, index) => convertElement(ctx, child, name, index + 1)),
+  };
+}
+
+/**
+ * Derives the loop id from schema naming, e.g. N1Loop1 -> N1,
+ * TS837_2000A_Loop -> 2000A, Loop_N1 -> N1.
+ */
+function loopIdFromName(name: string): string {
+  const hlLevel = name.match(/(?:^|_)(\d{4}[A-Z]?)(?:_|$)/);
+  if (hlLevel) return hlLevel[1];
+  return name.replace(/^Loop_?/i, '').replace(/_?Loop\d*$/i, '') || name;
+}
+
+/**
+ * `expanding` holds the named complex types of the enclosing loops, so a loop
+ * type that contains itself (an 856 HLLoopType) is expanded only once.
+ */
+function convertChildren(
+  ctx: SchemaContext,
+  nodes: XmlNode[],
+  expanding: Set<string> = new Set()
+): { segments: Segment[]; loops: Loop[] } {
+  const segments: Segment[] = [];
+  const loops: Loop[] = [];
+
+  for (const node of nodes) {
+    if (isSegmentNode(ctx, node)) {
+      segments.push(convertSegment(ctx, node));
+    } else if (sequenceElements(ctx, node)) {
+      const typeName = node.attributes.type ? localName(node.attributes.type) : undefined;
+      if (typeName && expanding.has(typeName)) continue;
+      loops.push(convertLoop(ctx, node, typeName ? new Set([...expanding, typeName]) : expanding));
+    }
+  }
+
+  return { segments, loops };
+}
+
+function convertLoop(ctx: SchemaContext, node: XmlNode, expanding: Set<string>): Loop {
+  const name = node.attributes.name || '';
+  const { usage, minUse, maxUse } = occurs(node);
+  const { segments, loops } = convertChildren(ctx, sequenceElements(ctx, node) || [], expanding);
+
+  return {
+    id: uuidv4(),
+    name: loopIdFromName(name),
+    description: annotationText(node),
+    usage,
+    baseUsage: usage,
+    minUse,
+    maxUse,
+    baseMinUse: minUse,
+    baseMaxUse: maxUse,
+    segments,
+    loops,
+  };
+}
+
+/**
+ * Converts an X12 XML schema to a Specification. The root element name
+ * carries the version and transaction set (X12_00501_850); its segments and
+ * loops are placed in a single transaction set loop.
+ */
+export function importXsdSpec(content: string): Specification {
+  const schema = parseXml(content);
+  if (schema.name !== 'schema') {
+    throw new Error('Not an XML schema: root element must be xs:schema');
+  }
+
+  const ctx: SchemaContext = { simpleTypes: {}, complexTypes: {} };
+  for (const child of schema.children) {
+    if (child.name === 'simpleType' && child.attributes.name) ctx.simpleTypes[child.attributes.name] = child;
+    if (child.name === 'complexType' && child.attributes.name) ctx.complexTypes[child.attributes.name] = child;
+  }
+
+  const rootElement = childrenNamed(schema, 'element').find(el => sequenceElements(ctx, el));
+  if (!rootElement) {
+    throw new Error('No transaction set element found in XML schema');
+  }
+
+  const rootName = rootElement.attributes.name || '';
+  const nameMatch = rootName.match(/(\d{5})_(\w+)$/);
+  const transactionSetId = nameMatch ? nameMatch[2] : rootName;
+  const ediVersion = nameMatch ? `${nameMatch[1]}0` : '005010';
+  const transactionSetName = annotationText(rootElement) || transactionSetId;
+  const { segments, loops } = convertChildren(ctx, sequenceElements(ctx, rootElement) || []);
+  const now = new Date().toISOString();
+
+  return {
+    id: uuidv4(),
+    metadata: {
+      name: `${transactionSetId} - ${transactionSetName}`,
+      version: '1.0',
+      transactionSet: transactionSetId,
+      transactionSetName,
+      ediVersion,
+      createdDate: now,
+      modifiedDate: now,
+      baseSpecReference: `XSD/${ediVersion}/${transactionSetId}`,
+    },
+    loops: [
+      {
+        id: uuidv4(),
+        name: `TS${transactionSetId}`,
+        description: `Transaction Set ${transactionSetId}`,
+        usage: 'M',
+        baseUsage: 'M',
+        minUse: 1,
+        maxUse: 1,
+        baseMinUse: 1,
+        baseMaxUse: 1,
+        segments,
+        loops,
+      },
+    ],
+    examples: [],
+  };
+}